@@ -1,5 +1,10 @@
 import { memo } from "react";
-import type { Point } from "../../lib/kumiko";
+import {
+	type GridType,
+	type Point,
+	type SymmetrySettings,
+	symmetricSegments,
+} from "../../lib/kumiko";
 
 export interface DragPreviewProps {
 	/** Current drag state with start and current points in grid coordinates */
@@ -10,17 +15,25 @@ export interface DragPreviewProps {
 	bitSize: number;
 	/** Function to convert grid coordinates to SVG coordinates */
 	gridToSvg: (point: Point) => { x: number; y: number };
+	/** Active drawing symmetry; its copies of the stroke are shown ghosted */
+	symmetry?: SymmetrySettings;
+	/** Lattice type, needed to place the symmetric copies */
+	gridType?: GridType;
 }
 
 /**
  * DragPreview renders a preview line while dragging to create or delete a line.
  * Shows dashed line with endpoints colored based on whether it's a create or delete action.
+ * With a symmetry mode active, the copies that will be drawn alongside are
+ * shown as fainter dashed lines.
  */
 export const DragPreview = memo(function DragPreview({
 	dragState,
 	isDeleting,
 	bitSize,
 	gridToSvg,
+	symmetry,
+	gridType,
 }: DragPreviewProps) {
 	if (!dragState) return null;
 
@@ -35,12 +48,40 @@ export const DragPreview = memo(function DragPreview({
 		return null;
 	}
 
+	// The first segment is the stroke itself
+	const copies = symmetry
+		? symmetricSegments(
+				dragState.startPoint,
+				dragState.currentPoint,
+				symmetry,
+				gridType,
+			).slice(1)
+		: [];
+
 	const strokeColor = isDeleting ? "#EF4444" : "#34D399";
 	const startFillColor = isDeleting ? "#EF4444" : "#34D399";
 	const endFillColor = isDeleting ? "#DC2626" : "#10B981";
 
 	return (
 		<>
+			{copies.map(([a, b]) => {
+				const ghostStart = gridToSvg(a);
+				const ghostEnd = gridToSvg(b);
+				return (
+					<line
+						key={`${a.x},${a.y}-${b.x},${b.y}`}
+						x1={ghostStart.x}
+						y1={ghostStart.y}
+						x2={ghostEnd.x}
+						y2={ghostEnd.y}
+						stroke={strokeColor}
+						strokeWidth={Math.max(1, bitSize / 4)}
+						strokeLinecap="round"
+						strokeDasharray="4,4"
+						opacity={0.35}
+					/>
+				);
+			})}
 			<line
 				x1={start.x}
 				y1={start.y}
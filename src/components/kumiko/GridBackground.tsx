@@ -1,5 +1,6 @@
 import type React from "react";
-import { memo, useMemo } from "react";
+import { memo, useId, useMemo } from "react";
+import { type GridType, latticeToCartesian } from "../../lib/kumiko";
 
 export interface GridBackgroundProps {
 	/** Grid cell size in mm */
@@ -12,11 +13,15 @@ export interface GridBackgroundProps {
 	zoom: number;
 	/** Number of grid cells in each direction */
 	gridExtentCells: number;
+	/** Lattice to draw (defaults to a square grid) */
+	gridType?: GridType;
 }
 
 /**
  * GridBackground renders the background grid lines for the design canvas.
  * Shows vertical and horizontal lines at cell boundaries with adaptive stroke width.
+ * Triangular grids draw horizontal rows plus the 60° and 120° lattice lines,
+ * clipped to the design area.
  */
 export const GridBackground = memo(function GridBackground({
 	cellSize,
@@ -24,11 +29,67 @@ export const GridBackground = memo(function GridBackground({
 	designHeight,
 	zoom,
 	gridExtentCells,
+	gridType = "square",
 }: GridBackgroundProps) {
+	const clipId = useId();
+
 	const gridLines = useMemo(() => {
 		const lines: React.ReactElement[] = [];
 		const strokeWidth = Math.max(0.25, 0.5 / zoom);
 
+		if (gridType === "triangular") {
+			const pushLatticeLine = (
+				key: string,
+				from: { x: number; y: number },
+				to: { x: number; y: number },
+			) => {
+				const a = latticeToCartesian(from.x, from.y, gridType);
+				const b = latticeToCartesian(to.x, to.y, gridType);
+				lines.push(
+					<line
+						key={key}
+						x1={a.x * cellSize}
+						y1={a.y * cellSize}
+						x2={b.x * cellSize}
+						y2={b.y * cellSize}
+						stroke="#374151"
+						strokeWidth={strokeWidth}
+					/>,
+				);
+			};
+
+			const n = gridExtentCells;
+			const half = Math.ceil(n / 2);
+
+			// Horizontal rows
+			for (let j = 0; j <= n; j++) {
+				const y = latticeToCartesian(0, j, gridType).y * cellSize;
+				lines.push(
+					<line
+						key={`h${j}`}
+						x1={0}
+						y1={y}
+						x2={designWidth}
+						y2={y}
+						stroke="#374151"
+						strokeWidth={strokeWidth}
+					/>,
+				);
+			}
+
+			// 60° lines (constant lattice x)
+			for (let i = -half; i <= n; i++) {
+				pushLatticeLine(`a${i}`, { x: i, y: 0 }, { x: i, y: n });
+			}
+
+			// 120° lines (constant lattice x + y)
+			for (let k = 0; k <= n + half; k++) {
+				pushLatticeLine(`b${k}`, { x: k, y: 0 }, { x: k - n, y: n });
+			}
+
+			return lines;
+		}
+
 		// Vertical lines (X axis divisions)
 		for (let i = 0; i <= gridExtentCells; i++) {
 			const x = i * cellSize;
@@ -64,7 +125,7 @@ export const GridBackground = memo(function GridBackground({
 		}
 
 		return lines;
-	}, [cellSize, designWidth, designHeight, zoom, gridExtentCells]);
+	}, [cellSize, designWidth, designHeight, zoom, gridExtentCells, gridType]);
 
 	return (
 		<>
@@ -78,7 +139,10 @@ export const GridBackground = memo(function GridBackground({
 			/>
 
 			{/* Grid lines */}
-			{gridLines}
+			<clipPath id={clipId}>
+				<rect x={0} y={0} width={designWidth} height={designHeight} />
+			</clipPath>
+			<g clipPath={`url(#${clipId})`}>{gridLines}</g>
 
 			{/* Border */}
 			<rect
@@ -1,22 +1,52 @@
-import { HelpCircle, Maximize2, Minus, Plus } from "lucide-react";
+import { HelpCircle, Maximize2, Minus, Plus, Wand2 } from "lucide-react";
 import type React from "react";
-import { useCallback, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useKumiko } from "../../context/KumikoContext";
 import { useGridCoordinates } from "../../hooks/useGridCoordinates";
 import type { GridViewSettings } from "../../hooks/useGridViewSettings";
+import type {
+	MotifLibraryActions,
+	MotifLibraryState,
+} from "../../hooks/useMotifLibrary";
 import { useZoomPan } from "../../hooks/useZoomPan";
+import type { NotifyCallback } from "../../lib/errors";
 import {
 	DEFAULT_ZOOM,
 	GRID_EXTENT_CELLS,
 	VISUAL_GRID_CELL_SIZE,
 } from "../../lib/kumiko/config";
+import { latticeToCartesian } from "../../lib/kumiko/geometry";
+import { motifCellsInRange, stampMotif } from "../../lib/kumiko/kumiko-motifs";
+import { linesInRect } from "../../lib/kumiko/kumiko-selection";
+import type { SymmetrySettings } from "../../lib/kumiko/kumiko-symmetry";
+import type {
+	ValidationIssue,
+	ValidationSeverity,
+} from "../../lib/kumiko/kumiko-validation";
+import type { WeaveStrategy } from "../../lib/kumiko/kumiko-weave";
 import type {
+	FrameSettings,
+	GridType,
 	Intersection,
 	Line,
+	Motif,
 	Point,
+	ReferenceImage,
+	TJoint,
 	ZoomPanState,
 } from "../../lib/kumiko/types";
+import { loadImageFile } from "../../lib/utils/image";
 import { GridRenderer } from "./GridRenderer";
+import { HistoryControls, type HistoryControlsProps } from "./HistoryControls";
+import { MotifControls } from "./MotifControls";
+import { ReferenceImageControls } from "./ReferenceImageControls";
+import {
+	type DesignerTool,
+	type SelectionActions,
+	SelectionControls,
+} from "./SelectionControls";
+import { SymmetryControls } from "./SymmetryControls";
+import { ValidationPanel } from "./ValidationPanel";
 
 /**
  * Kumiko Grid Designer - Rewritten for proper coordinate handling and drag-based interaction
@@ -30,16 +60,34 @@ import { GridRenderer } from "./GridRenderer";
 
 export interface GridDesignerProps {
 	lines: Map<string, Line>;
+	/** Construction lines, drawn dashed and never turned into strips */
+	guides?: Map<string, Line>;
+	/** Add a guide between two points, or remove the one already there */
+	onToggleGuide?: (start: Point, end: Point) => void;
+	/** Remove every guide; with onToggleGuide, enables the guide tool */
+	onClearGuides?: () => void;
 	intersections: Map<string, Intersection>;
+	/** Strip ends meeting other strips, shown with their joint type */
+	tJoints?: TJoint[];
+	/** Switch a T-joint to the next joint type */
+	onCycleTJoint?: (x: number, y: number) => void;
 	drawingLine: Point | null;
 	onGridClick: (point: Point) => void;
 	onCreateLine?: (start: Point, end: Point) => void;
 	onToggleIntersection: (id: string) => void;
+	/** Reorder the strips of a multi-way joint (first = top) */
+	onSetIntersectionStack?: (id: string, stack: string[]) => void;
+	/** Assign over/under at every crossing using a weave strategy */
+	onApplyWeave?: (strategy: WeaveStrategy) => void;
 	onDragUpdate?: (start: Point, end: Point, isDeleting: boolean) => void;
 	isDeleting?: boolean;
 	bitSize: number;
 	/** Physical grid cell size in mm (for dimension calculations) */
 	gridCellSize: number;
+	/** Physical grid cell height in mm, for rectangular cells */
+	gridCellSizeY?: number;
+	/** Lattice used for snapping and rendering (defaults to square) */
+	gridType?: GridType;
 	displayUnit: "mm" | "in"; // Unit for displaying dimensions
 	hoveredStripId?: string | null;
 	/** Callback when hovering over a line or label */
@@ -54,6 +102,31 @@ export interface GridDesignerProps {
 	zoomPanState?: ZoomPanState;
 	/** Notify parent when zoom/pan state changes so it can be persisted. */
 	onZoomPanChange?: (state: ZoomPanState) => void;
+	/** IDs of the currently selected lines */
+	selectedLineIds?: Set<string>;
+	/** Selection handlers; when provided, the select tool is available */
+	selectionActions?: SelectionActions;
+	/** Live drawing symmetry; when provided with a setter, controls are shown */
+	symmetry?: SymmetrySettings;
+	onSymmetryChange?: (symmetry: SymmetrySettings) => void;
+	/** Motif library; when provided with a stamp handler, the stamp tool is available */
+	motifState?: MotifLibraryState;
+	motifActions?: MotifLibraryActions;
+	/** Stamp a motif into every motif cell between two grid points */
+	onStampMotif?: (motif: Motif, start: Point, end: Point) => void;
+	/** Tracing image beneath the grid; with a setter, controls are shown */
+	referenceImage?: ReferenceImage;
+	onReferenceImageChange?: (image: ReferenceImage | undefined) => void;
+	/** Outer frame of the panel, drawn around the lattice */
+	frame?: FrameSettings;
+	/** Make the selection's bounding box the frame; false if it is not a rectangle */
+	onFrameSelection?: () => boolean;
+	/** Show a message to the user, e.g. when an image cannot be loaded */
+	onNotify?: NotifyCallback;
+	/** Undo/redo state and handlers; when provided, toolbar buttons are shown */
+	history?: HistoryControlsProps;
+	/** Design validation issues; when provided, a check panel is shown */
+	validationIssues?: ValidationIssue[];
 	/** View settings for UI toggles (passed from context) */
 	viewSettings: GridViewSettings;
 	/** Actions to update view settings */
@@ -71,23 +144,67 @@ interface DragState {
 	currentPoint: Point;
 }
 
+interface MarqueeState extends DragState {
+	/** Add to the existing selection instead of replacing it */
+	additive: boolean;
+}
+
+/** Lattice step for each arrow key when moving a selection */
+const ARROW_STEPS: Record<string, [number, number]> = {
+	ArrowLeft: [-1, 0],
+	ArrowRight: [1, 0],
+	ArrowUp: [0, -1],
+	ArrowDown: [0, 1],
+};
+
+/** Whether a keyboard or clipboard event comes from a form field */
+function isEditingField(target: EventTarget | null): boolean {
+	return (
+		target instanceof Element &&
+		!!target.closest("input, textarea, select, [contenteditable]")
+	);
+}
+
 function GridDesigner({
 	lines,
+	guides,
+	onToggleGuide,
+	onClearGuides,
 	intersections,
+	tJoints,
+	onCycleTJoint,
 	drawingLine,
 	onGridClick,
 	onCreateLine,
 	onToggleIntersection,
+	onSetIntersectionStack,
+	onApplyWeave,
 	onDragUpdate,
 	isDeleting = false,
 	bitSize,
 	gridCellSize,
+	gridCellSizeY,
+	gridType = "square",
 	displayUnit,
 	hoveredStripId,
 	onHoverLine,
 	lineLabelById,
 	zoomPanState,
 	onZoomPanChange,
+	selectedLineIds,
+	selectionActions,
+	symmetry,
+	onSymmetryChange,
+	motifState,
+	motifActions,
+	onStampMotif,
+	referenceImage,
+	onReferenceImageChange,
+	frame,
+	onFrameSelection,
+	onNotify,
+	history,
+	validationIssues,
 	viewSettings,
 	viewSettingsActions,
 }: GridDesignerProps) {
@@ -107,12 +224,38 @@ function GridDesigner({
 	const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
 	const [dragState, setDragState] = useState<DragState | null>(null);
 	const [isHoveringNotch, setIsHoveringNotch] = useState(false);
+	const [weaveStrategy, setWeaveStrategy] =
+		useState<WeaveStrategy>("single-sided");
+	const [tool, setTool] = useState<DesignerTool>("draw");
+	const [marquee, setMarquee] = useState<MarqueeState | null>(null);
+	const isSelecting = tool === "select" && !!selectionActions;
+	const [isPlacingCenter, setIsPlacingCenter] = useState(false);
+	const canStamp = !!(motifState && motifActions && onStampMotif);
+	const isStamping = tool === "stamp" && canStamp;
+	const [stampRange, setStampRange] = useState<DragState | null>(null);
+	const canDrawGuides = !!(onToggleGuide && onClearGuides);
+	const isDrawingGuides = tool === "guide" && canDrawGuides;
+	const [guideDrag, setGuideDrag] = useState<DragState | null>(null);
 
 	// For the designer view, use a fixed visual cell size for grid rendering.
 	// The configurable gridCellSize parameter is only used for physical strip calculations.
 	const cellSize = VISUAL_GRID_CELL_SIZE;
 	const designWidth = useMemo(() => GRID_EXTENT_CELLS * cellSize, [cellSize]);
-	const designHeight = useMemo(() => GRID_EXTENT_CELLS * cellSize, [cellSize]);
+	const designHeight = useMemo(
+		() => latticeToCartesian(0, GRID_EXTENT_CELLS, gridType).y * cellSize,
+		[cellSize, gridType],
+	);
+
+	// Most severe validation issue per line, for highlighting
+	const issueSeverityByLineId = useMemo(() => {
+		const map = new Map<string, ValidationSeverity>();
+		for (const issue of validationIssues ?? []) {
+			if (map.get(issue.sourceLineId) !== "error") {
+				map.set(issue.sourceLineId, issue.severity);
+			}
+		}
+		return map;
+	}, [validationIssues]);
 
 	// Hooks
 	const { screenToGrid, gridToSvg } = useGridCoordinates({
@@ -120,6 +263,7 @@ function GridDesigner({
 		contentGroupRef,
 		cellSize,
 		gridExtentCells: GRID_EXTENT_CELLS,
+		gridType,
 	});
 
 	const {
@@ -132,6 +276,7 @@ function GridDesigner({
 		cellSize,
 		designWidth,
 		designHeight,
+		gridType,
 		zoomPanState,
 		onZoomPanChange,
 	});
@@ -149,6 +294,51 @@ function GridDesigner({
 					return;
 				}
 
+				if (isPlacingCenter && symmetry && onSymmetryChange) {
+					const gridPt = screenToGrid(e.clientX, e.clientY);
+					if (gridPt) onSymmetryChange({ ...symmetry, center: gridPt });
+					setIsPlacingCenter(false);
+					return;
+				}
+
+				if (isSelecting && selectionActions) {
+					// Click a line to select it (Shift toggles), or drag a marquee
+					const lineId = target
+						?.closest("[data-line-id]")
+						?.getAttribute("data-line-id");
+					if (lineId) {
+						if (e.shiftKey) selectionActions.toggleLineSelection(lineId);
+						else selectionActions.selectLines([lineId]);
+						return;
+					}
+					const gridPt = screenToGrid(e.clientX, e.clientY);
+					if (gridPt) {
+						setMarquee({
+							startPoint: gridPt,
+							currentPoint: gridPt,
+							additive: e.shiftKey,
+						});
+					}
+					return;
+				}
+
+				if (isStamping) {
+					// Click a cell, or drag across a range of cells, to stamp
+					const gridPt = screenToGrid(e.clientX, e.clientY);
+					if (gridPt) {
+						setStampRange({ startPoint: gridPt, currentPoint: gridPt });
+					}
+					return;
+				}
+
+				if (isDrawingGuides) {
+					const gridPt = screenToGrid(e.clientX, e.clientY);
+					if (gridPt) {
+						setGuideDrag({ startPoint: gridPt, currentPoint: gridPt });
+					}
+					return;
+				}
+
 				// Left mouse button - start potential drag for line drawing
 				const gridPt = screenToGrid(e.clientX, e.clientY);
 				if (gridPt) {
@@ -159,7 +349,16 @@ function GridDesigner({
 				}
 			}
 		},
-		[screenToGrid],
+		[
+			screenToGrid,
+			isPlacingCenter,
+			symmetry,
+			onSymmetryChange,
+			isSelecting,
+			selectionActions,
+			isStamping,
+			isDrawingGuides,
+		],
 	);
 
 	/**
@@ -169,7 +368,13 @@ function GridDesigner({
 		(e: React.MouseEvent<SVGSVGElement>) => {
 			const gridPt = screenToGrid(e.clientX, e.clientY);
 
-			if (dragState) {
+			if (marquee) {
+				if (gridPt) setMarquee({ ...marquee, currentPoint: gridPt });
+			} else if (stampRange) {
+				if (gridPt) setStampRange({ ...stampRange, currentPoint: gridPt });
+			} else if (guideDrag) {
+				if (gridPt) setGuideDrag({ ...guideDrag, currentPoint: gridPt });
+			} else if (dragState) {
 				// Update drag end point
 				if (gridPt) {
 					setDragState({
@@ -186,7 +391,7 @@ function GridDesigner({
 				setHoverPoint(gridPt);
 			}
 		},
-		[dragState, screenToGrid, onDragUpdate],
+		[marquee, stampRange, guideDrag, dragState, screenToGrid, onDragUpdate],
 	);
 
 	/**
@@ -194,6 +399,42 @@ function GridDesigner({
 	 */
 	const handleMouseUp = useCallback(
 		(e: React.MouseEvent<SVGSVGElement>) => {
+			if (e.button === 0 && marquee) {
+				const { startPoint, currentPoint, additive } = marquee;
+				const isDragged =
+					startPoint.x !== currentPoint.x || startPoint.y !== currentPoint.y;
+				if (isDragged) {
+					selectionActions?.selectLines(
+						linesInRect(lines.values(), startPoint, currentPoint, gridType),
+						additive,
+					);
+				} else if (!additive) {
+					// Clicking empty space clears the selection
+					selectionActions?.clearSelection();
+				}
+				setMarquee(null);
+				return;
+			}
+
+			if (e.button === 0 && stampRange) {
+				if (motifState && onStampMotif) {
+					onStampMotif(
+						motifState.activeMotif,
+						stampRange.startPoint,
+						stampRange.currentPoint,
+					);
+				}
+				setStampRange(null);
+				return;
+			}
+
+			if (e.button === 0 && guideDrag) {
+				const { startPoint, currentPoint } = guideDrag;
+				onToggleGuide?.(startPoint, currentPoint);
+				setGuideDrag(null);
+				return;
+			}
+
 			if (e.button === 0 && dragState) {
 				const { startPoint, currentPoint } = dragState;
 				const isDragged =
@@ -220,7 +461,21 @@ function GridDesigner({
 				setDragState(null);
 			}
 		},
-		[dragState, drawingLine, onGridClick, onCreateLine],
+		[
+			marquee,
+			selectionActions,
+			lines,
+			gridType,
+			stampRange,
+			motifState,
+			onStampMotif,
+			guideDrag,
+			onToggleGuide,
+			dragState,
+			drawingLine,
+			onGridClick,
+			onCreateLine,
+		],
 	);
 
 	/**
@@ -228,19 +483,323 @@ function GridDesigner({
 	 */
 	const handleMouseLeave = useCallback(() => {
 		setHoverPoint(null);
+		setMarquee(null);
+		setStampRange(null);
+		setGuideDrag(null);
 	}, []);
 
+	const handleToolChange = useCallback(
+		(next: DesignerTool) => {
+			setTool(next);
+			setDragState(null);
+			setMarquee(null);
+			setStampRange(null);
+			setGuideDrag(null);
+			if (next !== "select") selectionActions?.clearSelection();
+		},
+		[selectionActions],
+	);
+
+	const copyToClipboard = useCallback(() => {
+		const text = selectionActions?.copySelection();
+		if (text) void navigator.clipboard?.writeText(text);
+	}, [selectionActions]);
+
+	const pasteFromClipboard = useCallback(async () => {
+		const text = await navigator.clipboard?.readText();
+		if (text) selectionActions?.pasteLines(text);
+	}, [selectionActions]);
+
+	const saveSelectionAsMotif = useCallback(() => {
+		if (!motifActions) return;
+		const selected = Array.from(selectedLineIds ?? [])
+			.map((id) => lines.get(id))
+			.filter((line): line is Line => line !== undefined);
+		if (selected.length === 0) return;
+		const name = window.prompt("Motif name", "My motif");
+		if (name === null) return;
+		if (motifActions.addMotifFromLines(name, selected)) {
+			handleToolChange("stamp");
+		}
+	}, [motifActions, selectedLineIds, lines, handleToolChange]);
+
+	const frameSelection = useCallback(() => {
+		if (onFrameSelection?.() === false) {
+			onNotify?.(
+				"warning",
+				"Select lines spanning a rectangle to make them the frame.",
+			);
+		}
+	}, [onFrameSelection, onNotify]);
+
+	// Tool and selection shortcuts, except while typing in a form field
+	useEffect(() => {
+		if (!selectionActions) return;
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (isEditingField(event.target)) return;
+			const key = event.key.toLowerCase();
+			const mod = event.ctrlKey || event.metaKey;
+
+			if (!mod && !event.shiftKey && (key === "d" || key === "s")) {
+				handleToolChange(key === "d" ? "draw" : "select");
+				return;
+			}
+			if (!mod && !event.shiftKey && key === "m" && canStamp) {
+				handleToolChange("stamp");
+				return;
+			}
+			if (!mod && !event.shiftKey && key === "g" && canDrawGuides) {
+				handleToolChange("guide");
+				return;
+			}
+			if (tool !== "select") return;
+
+			const step = ARROW_STEPS[event.key];
+			if (step && !mod) {
+				event.preventDefault();
+				selectionActions.moveSelection(step[0], step[1]);
+			} else if (key === "r" && !mod) {
+				selectionActions.rotateSelection();
+			} else if (key === "h" && event.shiftKey && !mod) {
+				selectionActions.flipSelection("horizontal");
+			} else if (key === "v" && event.shiftKey && !mod) {
+				selectionActions.flipSelection("vertical");
+			} else if (key === "d" && mod) {
+				event.preventDefault();
+				selectionActions.duplicateSelection();
+			} else if (key === "delete" || key === "backspace") {
+				event.preventDefault();
+				selectionActions.deleteSelection();
+			} else if (key === "escape") {
+				selectionActions.clearSelection();
+			}
+		};
+
+		// Copy/paste go through the clipboard events so they work without
+		// asking for clipboard permissions
+		const handleCopy = (event: ClipboardEvent) => {
+			if (tool !== "select" || isEditingField(event.target)) return;
+			const text = selectionActions.copySelection();
+			if (!text) return;
+			event.clipboardData?.setData("text/plain", text);
+			event.preventDefault();
+		};
+		const handlePaste = (event: ClipboardEvent) => {
+			if (tool !== "select" || isEditingField(event.target)) return;
+			const text = event.clipboardData?.getData("text/plain");
+			if (text && selectionActions.pasteLines(text)) event.preventDefault();
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		window.addEventListener("copy", handleCopy);
+		window.addEventListener("paste", handlePaste);
+		return () => {
+			window.removeEventListener("keydown", handleKeyDown);
+			window.removeEventListener("copy", handleCopy);
+			window.removeEventListener("paste", handlePaste);
+		};
+	}, [selectionActions, tool, handleToolChange, canStamp, canDrawGuides]);
+
+	// Selection bounding box in grid cells, the default step of the array tool
+	const selectionSize = useMemo(() => {
+		const selected = Array.from(selectedLineIds ?? [])
+			.map((id) => lines.get(id))
+			.filter((line): line is Line => line !== undefined);
+		if (selected.length === 0) return { width: 0, height: 0 };
+		const xs = selected.flatMap((line) => [line.x1, line.x2]);
+		const ys = selected.flatMap((line) => [line.y1, line.y2]);
+		return {
+			width: Math.max(...xs) - Math.min(...xs),
+			height: Math.max(...ys) - Math.min(...ys),
+		};
+	}, [selectedLineIds, lines]);
+
+	/**
+	 * Load an image file as the tracing underlay. A new image is centred on
+	 * the design (or the middle of the grid when empty) and sized to the
+	 * design's width, ready to be calibrated.
+	 */
+	const loadReferenceImage = useCallback(
+		async (file: File) => {
+			if (!onReferenceImageChange) return;
+			try {
+				const loaded = await loadImageFile(file);
+				const corners = Array.from(lines.values()).flatMap((line) => [
+					latticeToCartesian(line.x1, line.y1, gridType),
+					latticeToCartesian(line.x2, line.y2, gridType),
+				]);
+				const xs = corners.map((p) => p.x);
+				const ys = corners.map((p) => p.y);
+				const hasLines = corners.length > 0;
+				onReferenceImageChange({
+					dataUrl: loaded.dataUrl,
+					width: hasLines ? Math.max(4, Math.max(...xs) - Math.min(...xs)) : 40,
+					aspectRatio: loaded.height / loaded.width,
+					centerX: hasLines
+						? (Math.min(...xs) + Math.max(...xs)) / 2
+						: designWidth / cellSize / 2,
+					centerY: hasLines
+						? (Math.min(...ys) + Math.max(...ys)) / 2
+						: designHeight / cellSize / 2,
+					rotation: 0,
+					opacity: 0.5,
+					visible: true,
+				});
+			} catch (error) {
+				console.error("Failed to load reference image:", error);
+				onNotify?.("error", `Could not load "${file.name}" as an image.`);
+			}
+		},
+		[
+			onReferenceImageChange,
+			onNotify,
+			lines,
+			gridType,
+			designWidth,
+			designHeight,
+			cellSize,
+		],
+	);
+
+	// Symmetry centre and mirror axes in SVG space
+	const symmetryGuides = useMemo(() => {
+		if (!symmetry || symmetry.mode === "none") return null;
+		const center = gridToSvg(symmetry.center);
+		const span = Math.max(designWidth, designHeight);
+		const axisAngles: Record<SymmetrySettings["mode"], number[]> = {
+			none: [],
+			"mirror-horizontal": [90],
+			"mirror-vertical": [0],
+			"mirror-both": [0, 90],
+			"rotate-4": [],
+			"rotate-8": [0, 45, 90, 135],
+		};
+		const axes = axisAngles[symmetry.mode].map((deg) => {
+			const rad = (deg * Math.PI) / 180;
+			const dx = Math.cos(rad) * span;
+			const dy = Math.sin(rad) * span;
+			return {
+				deg,
+				x1: center.x - dx,
+				y1: center.y - dy,
+				x2: center.x + dx,
+				y2: center.y + dy,
+			};
+		});
+		return { center, axes };
+	}, [symmetry, gridToSvg, designWidth, designHeight]);
+
+	// Lines the stamp tool would add, for the drag range or the hovered cell
+	const stampPreview = useMemo(() => {
+		if (!isStamping || !motifState) return [];
+		const start = stampRange?.startPoint ?? hoverPoint;
+		const end = stampRange?.currentPoint ?? hoverPoint;
+		if (!start || !end) return [];
+		const cells = motifCellsInRange(motifState.activeMotif, start, end);
+		// Edges shared by neighbouring cells are drawn once
+		const segments = new Map<string, { a: Point; b: Point }>();
+		for (const line of stampMotif(motifState.activeMotif, cells)) {
+			const a = gridToSvg({ x: line.x1, y: line.y1 });
+			const b = gridToSvg({ x: line.x2, y: line.y2 });
+			const [p, q] = a.x < b.x || (a.x === b.x && a.y <= b.y) ? [a, b] : [b, a];
+			segments.set(`${p.x},${p.y}-${q.x},${q.y}`, { a: p, b: q });
+		}
+		return Array.from(segments, ([key, segment]) => ({ key, ...segment }));
+	}, [isStamping, motifState, stampRange, hoverPoint, gridToSvg]);
+
+	// Guide being dragged, in SVG space
+	const guidePreview = useMemo(() => {
+		if (!guideDrag) return null;
+		return {
+			a: gridToSvg(guideDrag.startPoint),
+			b: gridToSvg(guideDrag.currentPoint),
+		};
+	}, [guideDrag, gridToSvg]);
+
+	// Marquee rectangle in SVG space
+	const marqueeRect = useMemo(() => {
+		if (!marquee) return null;
+		const a = gridToSvg(marquee.startPoint);
+		const b = gridToSvg(marquee.currentPoint);
+		return {
+			x: Math.min(a.x, b.x),
+			y: Math.min(a.y, b.y),
+			width: Math.abs(a.x - b.x),
+			height: Math.abs(a.y - b.y),
+		};
+	}, [marquee, gridToSvg]);
+
 	return (
 		<div
 			className="flex-1 bg-gray-900/50 m-4 rounded-xl shadow-lg overflow-hidden relative border border-gray-800"
 			style={{
-				userSelect: dragState ? "none" : "auto",
-				WebkitUserSelect: dragState ? "none" : "auto",
-				MozUserSelect: dragState ? "none" : "auto",
+				userSelect: dragState || marquee ? "none" : "auto",
+				WebkitUserSelect: dragState || marquee ? "none" : "auto",
+				MozUserSelect: dragState || marquee ? "none" : "auto",
 			}}
 		>
+			{/* Tool switch, selection actions and symmetry - top left */}
+			<div className="absolute top-4 left-4 z-10 flex flex-col items-start gap-2">
+				{selectionActions && (
+					<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden p-1.5">
+						<SelectionControls
+							tool={tool}
+							onToolChange={handleToolChange}
+							selectionCount={selectedLineIds?.size ?? 0}
+							selectionSize={selectionSize}
+							actions={selectionActions}
+							onCopy={copyToClipboard}
+							onPaste={() => void pasteFromClipboard()}
+							onSaveMotif={canStamp ? saveSelectionAsMotif : undefined}
+							guideCount={guides?.size ?? 0}
+							onClearGuides={canDrawGuides ? onClearGuides : undefined}
+							onMakeFrame={onFrameSelection ? frameSelection : undefined}
+						/>
+					</div>
+				)}
+				{isStamping && motifState && motifActions && (
+					<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden p-1.5">
+						<MotifControls
+							motifs={motifState.motifs}
+							activeMotif={motifState.activeMotif}
+							onSelectMotif={motifActions.setActiveMotifId}
+							onDeleteMotif={motifActions.deleteMotif}
+						/>
+					</div>
+				)}
+				{symmetry && onSymmetryChange && (
+					<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden p-1.5">
+						<SymmetryControls
+							symmetry={symmetry}
+							onSymmetryChange={(next) => {
+								onSymmetryChange(next);
+								if (next.mode === "none") setIsPlacingCenter(false);
+							}}
+							isPlacingCenter={isPlacingCenter}
+							onPlacingCenterChange={setIsPlacingCenter}
+						/>
+					</div>
+				)}
+				{onReferenceImageChange && (
+					<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden p-1.5">
+						<ReferenceImageControls
+							image={referenceImage}
+							onChange={onReferenceImageChange}
+							onLoad={(file) => void loadReferenceImage(file)}
+						/>
+					</div>
+				)}
+			</div>
+
 			{/* Floating toolbar - top right */}
 			<div className="absolute top-4 right-4 z-10 flex items-start gap-2">
+				{/* Undo/redo */}
+				{history && (
+					<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden p-1.5">
+						<HistoryControls {...history} />
+					</div>
+				)}
+
 				{/* Zoom controls */}
 				<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden">
 					<div className="flex items-center gap-1 p-1.5">
@@ -275,6 +834,34 @@ function GridDesigner({
 					</div>
 				</div>
 
+				{/* Weave solver */}
+				{onApplyWeave && (
+					<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+						<div className="flex items-center gap-1 p-1.5">
+							<select
+								value={weaveStrategy}
+								onChange={(e) =>
+									setWeaveStrategy(e.target.value as WeaveStrategy)
+								}
+								className="px-2 py-1.5 text-sm rounded-md bg-gray-800 text-gray-200 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+								aria-label="Weave strategy"
+							>
+								<option value="single-sided">Single-sided strips</option>
+								<option value="alternating">Alternating weave</option>
+								<option value="assembly-feasible">Assembly-feasible</option>
+							</select>
+							<button
+								type="button"
+								onClick={() => onApplyWeave(weaveStrategy)}
+								className="p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+								title="Assign over/under at every crossing"
+							>
+								<Wand2 className="w-4 h-4" />
+							</button>
+						</div>
+					</div>
+				)}
+
 				{/* View options */}
 				<div className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl overflow-hidden">
 					<div className="p-2 space-y-1">
@@ -374,8 +961,46 @@ function GridDesigner({
 								<span>
 									<strong className="text-gray-300">Notches:</strong> Click
 									markers to toggle which strip is on top
+									{onCycleTJoint &&
+										". Square markers at T-joints switch between butt, stub tenon and half-lap"}
 								</span>
 							</div>
+							{selectionActions && (
+								<div className="flex items-start gap-2">
+									<span className="flex-shrink-0 w-5 h-5 rounded bg-gray-800 flex items-center justify-center text-[10px] font-medium text-gray-300">
+										4
+									</span>
+									<span>
+										<strong className="text-gray-300">Select:</strong> Press S,
+										then click or drag a box around lines. Arrows move, R
+										rotates, Shift+H/V mirrors
+									</span>
+								</div>
+							)}
+							{canStamp && (
+								<div className="flex items-start gap-2">
+									<span className="flex-shrink-0 w-5 h-5 rounded bg-gray-800 flex items-center justify-center text-[10px] font-medium text-gray-300">
+										5
+									</span>
+									<span>
+										<strong className="text-gray-300">Stamp:</strong> Press M,
+										then click a cell or drag across cells to fill them with the
+										chosen motif
+									</span>
+								</div>
+							)}
+							{canDrawGuides && (
+								<div className="flex items-start gap-2">
+									<span className="flex-shrink-0 w-5 h-5 rounded bg-gray-800 flex items-center justify-center text-[10px] font-medium text-gray-300">
+										6
+									</span>
+									<span>
+										<strong className="text-gray-300">Guides:</strong> Press G,
+										then drag to add a dashed reference line. Drag the same line
+										again to remove it
+									</span>
+								</div>
+							)}
 						</div>
 						<div className="mt-3 pt-3 border-t border-gray-800">
 							<div className="text-xs text-gray-500">
@@ -402,6 +1027,17 @@ function GridDesigner({
 				</div>
 			)}
 
+			{/* Validation panel - bottom right */}
+			{validationIssues && (
+				<div className="absolute bottom-4 right-4 z-10">
+					<ValidationPanel
+						issues={validationIssues}
+						displayUnit={displayUnit}
+						onHoverLine={onHoverLine}
+					/>
+				</div>
+			)}
+
 			{/* SVG Canvas */}
 			<svg
 				data-testid="grid-canvas"
@@ -416,7 +1052,11 @@ function GridDesigner({
 				style={{
 					// Use a pointer cursor when hovering a notch toggle so it's clearly clickable;
 					// otherwise show the crosshair cursor for drawing on the grid.
-					cursor: isHoveringNotch ? "pointer" : "crosshair",
+					cursor: isHoveringNotch
+						? "pointer"
+						: isSelecting && !isPlacingCenter
+							? "default"
+							: "crosshair",
 					touchAction: "none",
 					userSelect: "none",
 					WebkitUserSelect: "none",
@@ -427,6 +1067,9 @@ function GridDesigner({
 				<g ref={contentGroupRef}>
 					<GridRenderer
 						lines={lines}
+						guides={guides}
+						referenceImage={referenceImage}
+						frame={frame}
 						intersections={intersections}
 						drawingLine={drawingLine}
 						dragState={dragState}
@@ -436,9 +1079,11 @@ function GridDesigner({
 						zoom={zoom}
 						cellSize={cellSize}
 						physicalCellSize={gridCellSize}
+						physicalCellSizeY={gridCellSizeY}
 						designWidth={designWidth}
 						designHeight={designHeight}
 						gridExtentCells={GRID_EXTENT_CELLS}
+						gridType={gridType}
 						showNotchPositions={showNotchPositions}
 						showLineIds={showLineIds}
 						showDimensions={showDimensions}
@@ -446,10 +1091,83 @@ function GridDesigner({
 						hoveredStripId={enableHighlighting ? hoveredStripId : null}
 						lineLabelById={lineLabelById}
 						onToggleIntersection={onToggleIntersection}
+						onReorderIntersectionStack={onSetIntersectionStack}
+						tJoints={tJoints}
+						onCycleTJoint={onCycleTJoint}
 						setIsHoveringNotch={setIsHoveringNotch}
 						onHoverLine={onHoverLine}
+						issueSeverityByLineId={issueSeverityByLineId}
+						selectedLineIds={isSelecting ? selectedLineIds : undefined}
+						symmetry={symmetry}
 						gridToSvg={gridToSvg}
 					/>
+					{symmetryGuides && (
+						<g pointerEvents="none">
+							{symmetryGuides.axes.map((axis) => (
+								<line
+									key={axis.deg}
+									x1={axis.x1}
+									y1={axis.y1}
+									x2={axis.x2}
+									y2={axis.y2}
+									stroke="#A78BFA"
+									strokeWidth={Math.max(0.5, bitSize / 8)}
+									strokeDasharray={`${bitSize * 2} ${bitSize}`}
+									opacity={0.6}
+								/>
+							))}
+							<circle
+								cx={symmetryGuides.center.x}
+								cy={symmetryGuides.center.y}
+								r={Math.max(3, bitSize / 2)}
+								fill="none"
+								stroke="#A78BFA"
+								strokeWidth={Math.max(1, bitSize / 6)}
+							/>
+						</g>
+					)}
+					{stampPreview.length > 0 && (
+						<g pointerEvents="none">
+							{stampPreview.map(({ key, a, b }) => (
+								<line
+									key={key}
+									x1={a.x}
+									y1={a.y}
+									x2={b.x}
+									y2={b.y}
+									stroke="#34D399"
+									strokeWidth={Math.max(1, bitSize / 2)}
+									strokeDasharray={`${bitSize} ${bitSize / 2}`}
+									strokeLinecap="round"
+									opacity={0.7}
+								/>
+							))}
+						</g>
+					)}
+					{guidePreview && (
+						<line
+							x1={guidePreview.a.x}
+							y1={guidePreview.a.y}
+							x2={guidePreview.b.x}
+							y2={guidePreview.b.y}
+							stroke="#D1D5DB"
+							strokeWidth={Math.max(1, bitSize / 4)}
+							strokeDasharray={`${bitSize * 1.5} ${bitSize}`}
+							strokeLinecap="round"
+							pointerEvents="none"
+						/>
+					)}
+					{marqueeRect && (
+						<rect
+							{...marqueeRect}
+							fill="#F472B6"
+							fillOpacity={0.1}
+							stroke="#F472B6"
+							strokeWidth={Math.max(1, bitSize / 8)}
+							strokeDasharray={`${bitSize} ${bitSize / 2}`}
+							pointerEvents="none"
+						/>
+					)}
 				</g>
 			</svg>
 		</div>
@@ -469,26 +1187,59 @@ export function GridDesignerConnected() {
 		params,
 		viewSettings,
 		viewSettingsActions,
+		validationIssues,
+		historyState,
+		historyActions,
+		motifState,
+		motifActions,
+		notify,
 	} = useKumiko();
 
 	return (
 		<GridDesigner
 			lines={designState.lines}
+			guides={designState.guides}
+			onToggleGuide={designActions.toggleGuide}
+			onClearGuides={designActions.clearGuides}
 			intersections={designState.intersections}
+			tJoints={designState.tJoints}
+			onCycleTJoint={designActions.cycleTJointType}
 			drawingLine={designState.drawingLine}
 			onGridClick={designActions.handleGridClick}
 			onCreateLine={designActions.handleCreateLine}
 			onToggleIntersection={designActions.toggleIntersection}
+			onSetIntersectionStack={designActions.setIntersectionStack}
+			onApplyWeave={designActions.applyWeave}
 			onDragUpdate={designActions.handleDragUpdate}
 			isDeleting={designState.isDeleting}
 			bitSize={params.bitSize}
 			gridCellSize={params.gridCellSize}
+			gridCellSizeY={params.gridCellSizeY}
+			gridType={params.gridType}
 			displayUnit={params.units}
 			hoveredStripId={layoutState.hoveredStripId}
 			onHoverLine={layoutActions.setHoveredStripId}
 			lineLabelById={designState.lineLabelById}
 			zoomPanState={designState.zoomPanState}
 			onZoomPanChange={designActions.setZoomPanState}
+			selectedLineIds={designState.selectedLineIds}
+			selectionActions={designActions}
+			symmetry={designState.symmetry}
+			onSymmetryChange={designActions.setSymmetry}
+			motifState={motifState}
+			motifActions={motifActions}
+			onStampMotif={designActions.stampMotifInRange}
+			referenceImage={designState.referenceImage}
+			onReferenceImageChange={designActions.setReferenceImage}
+			frame={designState.frame}
+			onFrameSelection={designActions.frameSelection}
+			onNotify={notify}
+			history={{
+				...historyState,
+				onUndo: historyActions.undo,
+				onRedo: historyActions.redo,
+			}}
+			validationIssues={validationIssues}
 			viewSettings={viewSettings}
 			viewSettingsActions={viewSettingsActions}
 		/>
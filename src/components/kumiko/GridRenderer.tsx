@@ -1,13 +1,33 @@
 import { useMemo } from "react";
-import type { Intersection, Line, Point } from "../../lib/kumiko";
+import type {
+	FrameSettings,
+	GridType,
+	Intersection,
+	Line,
+	Point,
+	ReferenceImage,
+	SymmetrySettings,
+	TJoint,
+	ValidationSeverity,
+} from "../../lib/kumiko";
 import { DragPreview } from "./DragPreview";
 import { GridBackground } from "./GridBackground";
 import { IntersectionMarker } from "./IntersectionMarker";
 import { type SvgLine, useLineRenderer } from "./LineRenderer";
+import { TJointMarker } from "./TJointMarker";
 
 interface GridRendererProps {
 	lines: Map<string, Line>;
+	/** Construction lines, drawn dashed beneath the strips */
+	guides?: Map<string, Line>;
+	/** Tracing image drawn over the grid background */
+	referenceImage?: ReferenceImage;
+	/** Outer frame, drawn as a band of its face width around the lattice */
+	frame?: FrameSettings;
 	intersections: Map<string, Intersection>;
+	/** Strip ends meeting other strips; with a handler, markers are shown */
+	tJoints?: TJoint[];
+	onCycleTJoint?: (x: number, y: number) => void;
 	drawingLine: Point | null;
 	dragState: { startPoint: Point; currentPoint: Point } | null;
 	hoverPoint: Point | null;
@@ -17,9 +37,12 @@ interface GridRendererProps {
 	cellSize: number;
 	/** Physical grid cell size in mm for dimension calculations */
 	physicalCellSize: number;
+	/** Physical grid cell height in mm, for rectangular cells */
+	physicalCellSizeY?: number;
 	designWidth: number;
 	designHeight: number;
 	gridExtentCells: number;
+	gridType?: GridType;
 	showNotchPositions: boolean;
 	showLineIds: boolean;
 	showDimensions: boolean;
@@ -27,14 +50,23 @@ interface GridRendererProps {
 	hoveredStripId?: string | null;
 	lineLabelById?: Map<string, string>;
 	onToggleIntersection: (id: string) => void;
+	onReorderIntersectionStack?: (id: string, stack: string[]) => void;
 	setIsHoveringNotch: (isHovering: boolean) => void;
 	onHoverLine?: (lineId: string | null) => void;
+	issueSeverityByLineId?: Map<string, ValidationSeverity>;
+	selectedLineIds?: Set<string>;
+	symmetry?: SymmetrySettings;
 	gridToSvg: (point: Point) => { x: number; y: number };
 }
 
 export function GridRenderer({
 	lines,
+	guides,
+	referenceImage,
+	frame,
 	intersections,
+	tJoints,
+	onCycleTJoint,
 	drawingLine,
 	dragState,
 	hoverPoint,
@@ -43,9 +75,11 @@ export function GridRenderer({
 	zoom,
 	cellSize,
 	physicalCellSize,
+	physicalCellSizeY,
 	designWidth,
 	designHeight,
 	gridExtentCells,
+	gridType,
 	showNotchPositions,
 	showLineIds,
 	showDimensions,
@@ -53,8 +87,12 @@ export function GridRenderer({
 	hoveredStripId,
 	lineLabelById,
 	onToggleIntersection,
+	onReorderIntersectionStack,
 	setIsHoveringNotch,
 	onHoverLine,
+	issueSeverityByLineId,
+	selectedLineIds,
+	symmetry,
 	gridToSvg,
 }: GridRendererProps) {
 	// Precompute SVG-space coordinates for all user lines
@@ -67,20 +105,54 @@ export function GridRenderer({
 			})),
 		[lines, gridToSvg],
 	);
+	const svgGuides: SvgLine[] = useMemo(
+		() =>
+			Array.from(guides?.values() ?? []).map((line) => ({
+				line,
+				start: gridToSvg({ x: line.x1, y: line.y1 }),
+				end: gridToSvg({ x: line.x2, y: line.y2 }),
+			})),
+		[guides, gridToSvg],
+	);
+
+	// Outline of the frame members: the frame rectangle widened by half the
+	// face width on both sides, converted from mm to grid cells per axis
+	const framePath = useMemo(() => {
+		if (!frame) return null;
+		const a = gridToSvg({ x: frame.x1, y: frame.y1 });
+		const b = gridToSvg({ x: frame.x2, y: frame.y2 });
+		const hx = (frame.width / 2 / physicalCellSize) * cellSize;
+		const hy =
+			(frame.width / 2 / (physicalCellSizeY ?? physicalCellSize)) * cellSize;
+		const rect = (x1: number, y1: number, x2: number, y2: number) =>
+			`M${x1} ${y1}H${x2}V${y2}H${x1}Z`;
+		const left = Math.min(a.x, b.x);
+		const right = Math.max(a.x, b.x);
+		const top = Math.min(a.y, b.y);
+		const bottom = Math.max(a.y, b.y);
+		return (
+			rect(left - hx, top - hy, right + hx, bottom + hy) +
+			rect(left + hx, top + hy, right - hx, bottom - hy)
+		);
+	}, [frame, gridToSvg, cellSize, physicalCellSize, physicalCellSizeY]);
 
-	// Get line strokes and labels separately for z-order control
-	const { lineStrokes, lineLabels } = useLineRenderer({
+	// Get guide strokes, line strokes and labels separately for z-order control
+	const { guideStrokes, lineStrokes, lineLabels } = useLineRenderer({
 		svgLines,
+		svgGuides,
 		bitSize,
 		zoom,
 		cellSize,
 		physicalCellSize,
+		physicalCellSizeY,
 		hoveredStripId,
 		showLineIds,
 		showDimensions,
 		displayUnit,
 		lineLabelById,
 		onHoverLine,
+		issueSeverityByLineId,
+		selectedLineIds,
 	});
 
 	// Render intersections as notch symbols
@@ -98,8 +170,11 @@ export function GridRenderer({
 						bitSize={bitSize}
 						zoom={zoom}
 						onToggle={onToggleIntersection}
+						onReorderStack={onReorderIntersectionStack}
 						onHoverStart={() => setIsHoveringNotch(true)}
 						onHoverEnd={() => setIsHoveringNotch(false)}
+						gridToSvg={gridToSvg}
+						lineLabelById={lineLabelById}
 					/>
 				);
 			}),
@@ -110,10 +185,33 @@ export function GridRenderer({
 			bitSize,
 			zoom,
 			onToggleIntersection,
+			onReorderIntersectionStack,
 			setIsHoveringNotch,
+			lineLabelById,
 		],
 	);
 
+	// One marker per T-joint point; strips ending there from both sides share it
+	const tJointElements = useMemo(() => {
+		if (!tJoints || !onCycleTJoint) return null;
+		const byPoint = new Map(
+			tJoints.map((joint) => [`${joint.x},${joint.y}`, joint]),
+		);
+		return Array.from(byPoint.entries()).map(([key, joint]) => (
+			<TJointMarker
+				key={key}
+				x={joint.x}
+				y={joint.y}
+				type={joint.type}
+				position={gridToSvg({ x: joint.x, y: joint.y })}
+				zoom={zoom}
+				onCycle={onCycleTJoint}
+				onHoverStart={() => setIsHoveringNotch(true)}
+				onHoverEnd={() => setIsHoveringNotch(false)}
+			/>
+		));
+	}, [tJoints, onCycleTJoint, gridToSvg, zoom, setIsHoveringNotch]);
+
 	// Render drawing line start point
 	const drawingElement = useMemo(() => {
 		if (!drawingLine) return null;
@@ -156,8 +254,43 @@ export function GridRenderer({
 				designHeight={designHeight}
 				zoom={zoom}
 				gridExtentCells={gridExtentCells}
+				gridType={gridType}
 			/>
 
+			{/* Tracing underlay, positioned in grid cells */}
+			{referenceImage?.visible && (
+				<image
+					href={referenceImage.dataUrl}
+					x={(-referenceImage.width / 2) * cellSize}
+					y={
+						(-referenceImage.width * referenceImage.aspectRatio * cellSize) / 2
+					}
+					width={referenceImage.width * cellSize}
+					height={referenceImage.width * referenceImage.aspectRatio * cellSize}
+					transform={`translate(${referenceImage.centerX * cellSize} ${referenceImage.centerY * cellSize}) rotate(${referenceImage.rotation})`}
+					opacity={referenceImage.opacity}
+					preserveAspectRatio="none"
+					pointerEvents="none"
+				/>
+			)}
+
+			{framePath && (
+				<path
+					d={framePath}
+					fillRule="evenodd"
+					fill="#F59E0B"
+					fillOpacity={0.15}
+					stroke="#F59E0B"
+					strokeOpacity={0.5}
+					strokeWidth={1 / zoom}
+					pointerEvents="none"
+					data-testid="frame-outline"
+				/>
+			)}
+
+			{/* Construction lines beneath everything drawn */}
+			{guideStrokes}
+
 			{/* Interactive elements */}
 			{drawingElement}
 			<DragPreview
@@ -165,6 +298,8 @@ export function GridRenderer({
 				isDeleting={isDeleting}
 				bitSize={bitSize}
 				gridToSvg={gridToSvg}
+				symmetry={symmetry}
+				gridType={gridType}
 			/>
 			{hoverElement}
 
@@ -173,6 +308,7 @@ export function GridRenderer({
 
 			{/* Intersection markers */}
 			{showNotchPositions && intersectionElements}
+			{showNotchPositions && tJointElements}
 
 			{/* Line labels on top of everything */}
 			{lineLabels}
@@ -1,8 +1,10 @@
 import {
 	Check,
 	ChevronDown,
+	Combine,
 	Download,
 	Eraser,
+	LayoutGrid,
 	MoreHorizontal,
 	Pencil,
 	Plus,
@@ -13,6 +15,11 @@ import {
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
 import { formatValue, type Group } from "../../lib/kumiko";
+import type {
+	NestingStrategy,
+	StockUsage,
+} from "../../lib/kumiko/kumiko-nesting";
+import { HistoryControls, type HistoryControlsProps } from "./HistoryControls";
 
 export type ExportPassType = "both" | "top" | "bottom";
 
@@ -39,12 +46,22 @@ export interface GroupToolbarProps {
 	piecesCount: number;
 	/** Handler to clear all pieces in the layout */
 	onClearLayout: () => void;
+	/** Place every unplaced strip automatically; when provided, the menu offers it */
+	onAutoLayout?: (strategy: NestingStrategy) => void;
+	/** Number of strip copies not yet placed in any group */
+	unplacedCount?: number;
+	/** Boards used by the current group */
+	stockUsage?: StockUsage;
+	/** Line up notches across rows; when provided, the menu offers it */
+	onOptimizeGangCuts?: () => void;
 	/** Handler to export current group SVG with optional pass type */
 	onDownload: (passType?: ExportPassType) => void;
 	/** Handler to export all groups SVG */
 	onDownloadAllGroups: () => void;
 	/** Whether the current group needs multiple passes (has both top and bottom notches) */
 	needsMultiplePasses?: boolean;
+	/** Undo/redo state and handlers; when provided, buttons are shown */
+	history?: HistoryControlsProps;
 }
 
 /**
@@ -63,9 +80,14 @@ export function GroupToolbar({
 	displayUnit,
 	piecesCount,
 	onClearLayout,
+	onAutoLayout,
+	unplacedCount = 0,
+	stockUsage,
+	onOptimizeGangCuts,
 	onDownload,
 	onDownloadAllGroups,
 	needsMultiplePasses = false,
+	history,
 }: GroupToolbarProps) {
 	const [isRenaming, setIsRenaming] = useState(false);
 	const [renameValue, setRenameValue] = useState("");
@@ -203,6 +225,43 @@ export function GroupToolbar({
 											<Pencil className="w-4 h-4 text-blue-400" />
 											Rename group
 										</button>
+										{onAutoLayout &&
+											(
+												[
+													["first-fit", "Auto layout: first fit"],
+													["best-fit", "Auto layout: best fit"],
+												] as const
+											).map(([strategy, label]) => (
+												<button
+													key={strategy}
+													type="button"
+													onClick={() => {
+														onAutoLayout(strategy);
+														setShowMoreMenu(false);
+													}}
+													disabled={unplacedCount === 0}
+													className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+													title="Place all unplaced strips, longest first"
+												>
+													<LayoutGrid className="w-4 h-4 text-emerald-400" />
+													{label}
+												</button>
+											))}
+										{onOptimizeGangCuts && (
+											<button
+												type="button"
+												onClick={() => {
+													onOptimizeGangCuts();
+													setShowMoreMenu(false);
+												}}
+												disabled={piecesCount < 2}
+												className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+												title="Reorder and reverse pieces so notches line up across rows"
+											>
+												<Combine className="w-4 h-4 text-indigo-400" />
+												Optimize gang cuts
+											</button>
+										)}
 										<button
 											type="button"
 											onClick={() => {
@@ -255,10 +314,32 @@ export function GroupToolbar({
 					</span>
 					<span className="text-xs text-gray-500">total</span>
 				</div>
+				{stockUsage && stockUsage.boardCount > 0 && (
+					<>
+						<span className="text-gray-600">|</span>
+						<div
+							className="flex items-center gap-1"
+							title="Boards used by this group and the share of their length taken by strips"
+						>
+							<span className="text-sm font-medium text-gray-200">
+								{stockUsage.boardCount}
+							</span>
+							<span className="text-xs text-gray-500">
+								{stockUsage.boardCount === 1 ? "board" : "boards"},{" "}
+								{Math.round(stockUsage.utilization * 100)}% used
+							</span>
+						</div>
+					</>
+				)}
 			</div>
 
 			{/* Export actions */}
 			<div className="flex items-center gap-2">
+				{history && (
+					<div className="bg-gray-800/50 border border-gray-700 rounded-lg p-0.5">
+						<HistoryControls {...history} />
+					</div>
+				)}
 				{needsMultiplePasses ? (
 					<div className="relative" ref={exportMenuRef}>
 						<button
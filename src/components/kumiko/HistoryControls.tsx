@@ -0,0 +1,41 @@
+import { Redo2, Undo2 } from "lucide-react";
+
+export interface HistoryControlsProps {
+	canUndo: boolean;
+	canRedo: boolean;
+	onUndo: () => void;
+	onRedo: () => void;
+}
+
+/**
+ * Undo/redo buttons shared by the grid designer and layout editor toolbars.
+ */
+export function HistoryControls({
+	canUndo,
+	canRedo,
+	onUndo,
+	onRedo,
+}: HistoryControlsProps) {
+	return (
+		<div className="flex items-center gap-1">
+			<button
+				type="button"
+				onClick={onUndo}
+				disabled={!canUndo}
+				className="p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+				title="Undo (Ctrl+Z)"
+			>
+				<Undo2 className="w-4 h-4" />
+			</button>
+			<button
+				type="button"
+				onClick={onRedo}
+				disabled={!canRedo}
+				className="p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+				title="Redo (Ctrl+Shift+Z)"
+			>
+				<Redo2 className="w-4 h-4" />
+			</button>
+		</div>
+	);
+}
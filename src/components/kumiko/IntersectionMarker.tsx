@@ -1,7 +1,9 @@
-import type { Intersection, Line } from "../../lib/kumiko";
+import type { Intersection, Line, Point } from "../../lib/kumiko";
 import {
 	getNotchBadgeDimensions,
 	getNotchClickPadding,
+	NotchStackEditor,
+	type NotchStackLayer,
 	NotchToggleMarker,
 } from "./NotchToggleMarker";
 
@@ -12,8 +14,27 @@ interface IntersectionMarkerProps {
 	bitSize: number;
 	zoom: number;
 	onToggle: (id: string) => void;
+	/** Reorder the strips of a multi-way joint (first = top) */
+	onReorderStack?: (id: string, stack: string[]) => void;
 	onHoverStart: () => void;
 	onHoverEnd: () => void;
+	/** Converts grid coordinates to SVG coordinates (for strip angles) */
+	gridToSvg?: (point: Point) => { x: number; y: number };
+	lineLabelById?: Map<string, string>;
+}
+
+/**
+ * Move a line one layer up its stack, wrapping the top line to the bottom.
+ */
+function raiseInStack(stack: string[], lineId: string): string[] {
+	const index = stack.indexOf(lineId);
+	if (index === -1) return stack;
+	if (index === 0) return [...stack.slice(1), lineId];
+
+	const next = [...stack];
+	next[index] = next[index - 1];
+	next[index - 1] = lineId;
+	return next;
 }
 
 export function IntersectionMarker({
@@ -23,9 +44,60 @@ export function IntersectionMarker({
 	bitSize,
 	zoom,
 	onToggle,
+	onReorderStack,
 	onHoverStart,
 	onHoverEnd,
+	gridToSvg,
+	lineLabelById,
 }: IntersectionMarkerProps) {
+	const { stack } = intersection;
+
+	// Multi-way joint: stacking order editor
+	if (stack) {
+		const layers: NotchStackLayer[] = stack.flatMap((lineId) => {
+			const line = lines.get(lineId);
+			if (!line) return [];
+			const start = gridToSvg?.({ x: line.x1, y: line.y1 }) ?? {
+				x: line.x1,
+				y: line.y1,
+			};
+			const end = gridToSvg?.({ x: line.x2, y: line.y2 }) ?? {
+				x: line.x2,
+				y: line.y2,
+			};
+			return [
+				{
+					lineId,
+					angle: Math.atan2(end.y - start.y, end.x - start.x),
+					label: lineLabelById?.get(lineId) ?? lineId.slice(-4),
+				},
+			];
+		});
+
+		return (
+			// biome-ignore lint: SVG group captures hover and blocks drawing under the stack editor
+			<g
+				data-testid="intersection-stack"
+				aria-label={`${stack.length}-way joint at ${intersection.x},${intersection.y}`}
+				onMouseDown={(e) => {
+					e.stopPropagation();
+				}}
+				onMouseEnter={onHoverStart}
+				onMouseLeave={onHoverEnd}
+			>
+				<NotchStackEditor
+					centerX={position.x}
+					centerY={position.y}
+					zoom={zoom}
+					layers={layers}
+					onRaise={(lineId) =>
+						onReorderStack?.(intersection.id, raiseInStack(stack, lineId))
+					}
+				/>
+			</g>
+		);
+	}
+
 	const line1 = lines.get(intersection.line1Id);
 	const line2 = lines.get(intersection.line2Id);
 
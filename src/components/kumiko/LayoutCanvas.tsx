@@ -1,15 +1,20 @@
-import { Trash2 } from "lucide-react";
+import { ArrowLeftRight, FlipVertical2, Scissors, Trash2 } from "lucide-react";
 import type React from "react";
-import { memo, useState } from "react";
+import { memo, useEffect, useRef, useState } from "react";
 import type { NotifyCallback } from "../../lib/errors";
 import {
+	type Cut,
 	type DesignStrip,
 	formatValue,
 	type Piece,
 	type Point,
 } from "../../lib/kumiko";
 import { GRID_CELL_HEIGHT, GRID_MARGIN } from "../../lib/kumiko/config";
-import { validateStripPlacement } from "../../lib/kumiko/layout-helpers";
+import {
+	fullCutAt,
+	orientStrip,
+	validateStripPlacement,
+} from "../../lib/kumiko/layout-helpers";
 
 export interface LayoutCanvasProps {
 	/** SVG element ref setter */
@@ -38,8 +43,42 @@ export interface LayoutCanvasProps {
 	displayUnit: "mm" | "in";
 	/** Optional callback for showing notifications to the user */
 	onNotify?: NotifyCallback;
+	/**
+	 * Move a piece by dragging it, after `index` of the other pieces in the
+	 * target row; when provided, pieces can be dragged
+	 */
+	onMovePiece?: (pieceId: string, rowIndex: number, index: number) => void;
+	/** Groups a piece can be dragged to */
+	otherGroups?: { id: string; name: string }[];
+	/** Move a piece to another group */
+	onMovePieceToGroup?: (pieceId: string, groupId: string) => void;
+	/** Toggle whether a piece is reversed or flipped */
+	onTogglePieceOrientation?: (
+		pieceId: string,
+		flag: "reversed" | "flipped",
+	) => void;
+	/** Full-depth cuts of the active group */
+	fullCuts?: Cut[];
+	/** Add a full-depth cut; when provided, the full cut tool is offered */
+	onAddFullCut?: (cut: Omit<Cut, "id">) => void;
+	/** Remove a full-depth cut */
+	onDeleteFullCut?: (cutId: string) => void;
+}
+
+/** Where a dragged piece would land */
+interface DropTarget {
+	rowIndex: number;
+	/** Number of the row's other pieces before the dropped one */
+	index: number;
+	/** Start of the dropped piece once the row is re-packed */
+	x: number;
+	/** Whether the row would then run past the stock length */
+	overflow: boolean;
 }
 
+/** Distance in SVG units the pointer travels before a press becomes a drag */
+const DRAG_THRESHOLD = 3;
+
 /**
  * LayoutCanvas renders the SVG canvas for laying out strips in rows.
  * It handles mouse interactions for placing new strips and displays
@@ -59,6 +98,13 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 	onDeletePiece,
 	displayUnit,
 	onNotify,
+	onMovePiece,
+	otherGroups = [],
+	onMovePieceToGroup,
+	onTogglePieceOrientation,
+	fullCuts = [],
+	onAddFullCut,
+	onDeleteFullCut,
 }: LayoutCanvasProps) {
 	const [svgElement, setSvgElementInternal] = useState<SVGSVGElement | null>(
 		null,
@@ -70,6 +116,27 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 		point: Point;
 		rowIndex: number;
 	} | null>(null);
+	const [drag, setDrag] = useState<{
+		pieceId: string;
+		origin: Point;
+		moved: boolean;
+	} | null>(null);
+	const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+	const [cutMode, setCutMode] = useState(false);
+	const [cutPreview, setCutPreview] = useState<Omit<Cut, "id"> | null>(null);
+	// The click that ends a drag must not select or deselect pieces
+	const endedDragRef = useRef(false);
+
+	// A drag released anywhere else is cancelled
+	useEffect(() => {
+		if (!drag) return;
+		const cancel = () => {
+			setDrag(null);
+			setDropTarget(null);
+		};
+		window.addEventListener("mouseup", cancel);
+		return () => window.removeEventListener("mouseup", cancel);
+	}, [drag]);
 
 	// Combined ref setter
 	const handleSvgRef = (el: SVGSVGElement | null) => {
@@ -84,9 +151,7 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 	const viewBoxHeight =
 		dynamicLayoutRows * GRID_CELL_HEIGHT + GRID_MARGIN - minY;
 
-	const getLayoutPoint = (
-		e: React.MouseEvent<SVGSVGElement>,
-	): { point: Point; rowIndex: number } | null => {
+	const toSvgPoint = (e: React.MouseEvent): Point | null => {
 		if (!svgElement) return null;
 
 		// Use proper SVG coordinate transformation to handle viewBox and aspect ratio
@@ -95,6 +160,14 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 		pt.y = e.clientY;
 
 		const svgP = pt.matrixTransform(svgElement.getScreenCTM()?.inverse());
+		return { x: svgP.x, y: svgP.y };
+	};
+
+	const getLayoutPoint = (
+		e: React.MouseEvent<SVGSVGElement>,
+	): { point: Point; rowIndex: number } | null => {
+		const svgP = toSvgPoint(e);
+		if (!svgP) return null;
 		const svgX = svgP.x;
 		const svgY = svgP.y;
 
@@ -135,6 +208,14 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 	};
 
 	const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+		if (cutMode) {
+			const point = toSvgPoint(e);
+			const cut =
+				point && fullCutAt(point, stockLength, dynamicLayoutRows, e.shiftKey);
+			if (cut) onAddFullCut?.(cut);
+			return;
+		}
+
 		const result = getLayoutPoint(e);
 		if (!result || !selectedPieceId) return;
 
@@ -159,7 +240,82 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 		onLayoutClick(result.point, result.rowIndex);
 	};
 
+	/**
+	 * Row and position a dragged piece would drop at: before the first of
+	 * the row's other pieces whose middle is right of the pointer.
+	 */
+	const getDropTarget = (point: Point, pieceId: string): DropTarget | null => {
+		const rowIndex = Math.floor(point.y / GRID_CELL_HEIGHT);
+		if (rowIndex < 0 || rowIndex >= dynamicLayoutRows) return null;
+		const lengthOf = (id: string) =>
+			designStrips.find((s) => s.id === id)?.lengthMM;
+		const movingLength = Array.from(layoutData.values())
+			.flat()
+			.filter((piece) => piece.id === pieceId)
+			.map((piece) => lengthOf(piece.lineId))[0];
+		if (movingLength === undefined) return null;
+
+		let index = 0;
+		let x = 0;
+		let cursor = 0;
+		for (const piece of layoutData.get(rowIndex) ?? []) {
+			if (piece.id === pieceId) continue;
+			const length = lengthOf(piece.lineId);
+			if (length === undefined) continue;
+			if (cursor + length / 2 < point.x) {
+				index += 1;
+				x = cursor + length + bitSize;
+			}
+			cursor += length + bitSize;
+		}
+
+		return {
+			rowIndex,
+			index,
+			x,
+			overflow: !validateStripPlacement(
+				movingLength,
+				cursor,
+				stockLength,
+				GRID_CELL_HEIGHT,
+			),
+		};
+	};
+
+	const handleMouseUp = () => {
+		if (!drag?.moved) return;
+		endedDragRef.current = true;
+		if (dropTarget?.overflow) {
+			onNotify?.(
+				"warning",
+				"Cannot move strip: the row would extend beyond the stock length.",
+			);
+		} else if (dropTarget) {
+			onMovePiece?.(drag.pieceId, dropTarget.rowIndex, dropTarget.index);
+		}
+		setDrag(null);
+		setDropTarget(null);
+	};
+
 	const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+		if (drag) {
+			const point = toSvgPoint(e);
+			if (!point) return;
+			const moved =
+				drag.moved ||
+				Math.hypot(point.x - drag.origin.x, point.y - drag.origin.y) >
+					DRAG_THRESHOLD;
+			if (moved !== drag.moved) setDrag({ ...drag, moved });
+			if (moved) setDropTarget(getDropTarget(point, drag.pieceId));
+			return;
+		}
+		if (cutMode) {
+			const point = toSvgPoint(e);
+			setCutPreview(
+				point && fullCutAt(point, stockLength, dynamicLayoutRows, e.shiftKey),
+			);
+			return;
+		}
 		if (!selectedPieceId) {
 			setHoverPoint(null);
 			return;
@@ -172,19 +328,38 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 
 	const handleMouseLeave = () => {
 		setHoverPoint(null);
+		setCutPreview(null);
+	};
+
+	const toggleCutMode = () => {
+		setCutMode(!cutMode);
+		setCutPreview(null);
+		setHoverPoint(null);
 	};
 
 	return (
-		<div className="flex-1 p-4 overflow-hidden flex items-center justify-center bg-gray-900 border border-gray-800 rounded">
+		<div className="relative flex-1 p-4 overflow-hidden flex items-center justify-center bg-gray-900 border border-gray-800 rounded">
 			<svg
 				data-testid="layout-canvas"
 				ref={handleSvgRef}
 				viewBox={`${minX} ${minY} ${viewBoxWidth} ${viewBoxHeight}`}
 				className="w-full h-full"
 				onMouseDown={handleClick}
-				onClick={() => !selectedPieceId && setActiveLayoutPieceId(null)}
-				onKeyDown={(e) => e.key === "Escape" && setActiveLayoutPieceId(null)}
+				onClick={() => {
+					if (endedDragRef.current) {
+						endedDragRef.current = false;
+						return;
+					}
+					if (!selectedPieceId) setActiveLayoutPieceId(null);
+				}}
+				onKeyDown={(e) => {
+					if (e.key !== "Escape") return;
+					setActiveLayoutPieceId(null);
+					setCutMode(false);
+					setCutPreview(null);
+				}}
 				onMouseMove={handleMouseMove}
+				onMouseUp={handleMouseUp}
 				onMouseLeave={handleMouseLeave}
 				role="img"
 				aria-label="Kumiko layout editor"
@@ -278,23 +453,37 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 				{Array.from(layoutData.values())
 					.flat()
 					.map((piece) => {
-						const strip = designStrips.find((s) => s.id === piece.lineId);
-						if (!strip) return null;
+						const designStrip = designStrips.find((s) => s.id === piece.lineId);
+						if (!designStrip) return null;
 
+						const strip = orientStrip(designStrip, piece);
 						const w = strip.lengthMM;
 						const h = GRID_CELL_HEIGHT;
 
 						const isPieceActive = activeLayoutPieceId === piece.id;
+						const isDragged = drag?.moved && drag.pieceId === piece.id;
 
 						return (
 							// biome-ignore lint: SVG group is used as an interactive hit target inside <svg>
 							<g
 								key={piece.id}
 								data-testid="layout-piece"
-								className={`cursor-default group outline-none ${selectedPieceId ? "pointer-events-none" : ""}`}
-								tabIndex={selectedPieceId ? -1 : 0}
+								className={`${onMovePiece ? "cursor-grab" : "cursor-default"} group outline-none ${selectedPieceId || cutMode ? "pointer-events-none" : ""}`}
+								tabIndex={selectedPieceId || cutMode ? -1 : 0}
+								opacity={isDragged ? 0.4 : 1}
+								onMouseDown={(e) => {
+									if (!onMovePiece || e.button !== 0) return;
+									const origin = toSvgPoint(e);
+									if (origin) {
+										setDrag({ pieceId: piece.id, origin, moved: false });
+									}
+								}}
 								onClick={(e) => {
 									e.stopPropagation();
+									if (endedDragRef.current) {
+										endedDragRef.current = false;
+										return;
+									}
 									setActiveLayoutPieceId(isPieceActive ? null : piece.id);
 								}}
 							>
@@ -312,9 +501,9 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 								/>
 								{/* Notches - notches are already normalized at design time */}
 								{strip.notches.map((notch) => {
-									const center = notch.dist;
-									const left = piece.x + center - bitSize / 2;
-									const topHeight = halfCutDepth;
+									const notchWidth = notch.width ?? bitSize;
+									const left = piece.x + notch.dist - notchWidth / 2;
+									const topHeight = notch.depth ?? halfCutDepth;
 									const rectY = notch.fromTop
 										? piece.y
 										: piece.y + h - topHeight;
@@ -323,7 +512,7 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 											key={notch.id}
 											x={left}
 											y={rectY}
-											width={bitSize}
+											width={notchWidth}
 											height={topHeight}
 											fill="#7C3AED"
 											stroke="#FBBF24"
@@ -331,6 +520,7 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 										/>
 									);
 								})}
+								<EndBevels strip={strip} x={piece.x} y={piece.y} height={h} />
 								{/* Strip label: show the same short strip ID used in the grid and strip bank */}
 								<text
 									x={piece.x + w / 2}
@@ -344,52 +534,132 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 									{strip.displayCode}
 								</text>
 
-								{/* Delete button */}
-								{/* biome-ignore lint/a11y/useSemanticElements: SVG element acting as button */}
-								<g
-									data-testid="delete-strip-button"
-									className={`cursor-pointer transition-opacity ${isPieceActive ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}
-									onClick={(e) => {
-										e.stopPropagation();
-										onDeletePiece(piece.id);
-									}}
-									onKeyDown={(e) => {
-										if (e.key === "Enter" || e.key === " ") {
-											e.stopPropagation();
-											onDeletePiece(piece.id);
-										}
-									}}
-									role="button"
-									tabIndex={0}
-								>
-									<rect
-										x={piece.x + w - 14}
-										y={piece.y + 2}
-										width={12}
-										height={12}
-										rx={2}
-										fill="#EF4444"
-										fillOpacity={0.8}
-									/>
-									<Trash2
-										x={piece.x + w - 13}
-										y={piece.y + 3}
-										width={10}
-										height={10}
-										color="white"
-										strokeWidth={2}
-									/>
-								</g>
+								<PieceButton
+									testId="delete-strip-button"
+									label="Delete piece"
+									icon={Trash2}
+									x={piece.x + w - 14}
+									y={piece.y + 2}
+									fill="#EF4444"
+									visible={isPieceActive}
+									onPress={() => onDeletePiece(piece.id)}
+								/>
+								{onTogglePieceOrientation && (
+									<>
+										<PieceButton
+											testId="reverse-piece-button"
+											label="Reverse piece"
+											icon={ArrowLeftRight}
+											x={piece.x + w - 28}
+											y={piece.y + 2}
+											fill={piece.reversed ? "#F59E0B" : "#4B5563"}
+											visible={isPieceActive || !!piece.reversed}
+											pressed={!!piece.reversed}
+											onPress={() =>
+												onTogglePieceOrientation(piece.id, "reversed")
+											}
+										/>
+										<PieceButton
+											testId="flip-piece-button"
+											label="Flip piece"
+											icon={FlipVertical2}
+											x={piece.x + w - 42}
+											y={piece.y + 2}
+											fill={piece.flipped ? "#F59E0B" : "#4B5563"}
+											visible={isPieceActive || !!piece.flipped}
+											pressed={!!piece.flipped}
+											onPress={() =>
+												onTogglePieceOrientation(piece.id, "flipped")
+											}
+										/>
+									</>
+								)}
 
 								<title>
 									Strip {strip.displayCode} -{" "}
 									{formatValue(strip.lengthMM, displayUnit)}
 									{displayUnit} Row {piece.rowIndex}
+									{piece.reversed ? " (reversed)" : ""}
+									{piece.flipped ? " (flipped)" : ""}
+									{describeBevels(strip)}
 								</title>
 							</g>
 						);
 					})}
 
+				{/* Full-depth cuts */}
+				{fullCuts.map((cut) => (
+					// biome-ignore lint: SVG group is used as an interactive hit target inside <svg>
+					<g
+						key={cut.id}
+						data-testid="full-cut"
+						className={cutMode ? "cursor-pointer" : undefined}
+						pointerEvents={cutMode ? undefined : "none"}
+						onMouseDown={(e) => {
+							if (!cutMode) return;
+							e.stopPropagation();
+							onDeleteFullCut?.(cut.id);
+						}}
+					>
+						<line
+							x1={cut.x1}
+							y1={cut.y1}
+							x2={cut.x2}
+							y2={cut.y2}
+							stroke="transparent"
+							strokeWidth={6}
+						/>
+						<line
+							x1={cut.x1}
+							y1={cut.y1}
+							x2={cut.x2}
+							y2={cut.y2}
+							stroke="#F87171"
+							strokeWidth={Math.max(bitSize, 0.8)}
+							strokeDasharray="4 2"
+						/>
+						<title>Full cut{cutMode ? ". Click to remove it." : ""}</title>
+					</g>
+				))}
+				{cutPreview && (
+					<line
+						data-testid="full-cut-preview"
+						x1={cutPreview.x1}
+						y1={cutPreview.y1}
+						x2={cutPreview.x2}
+						y2={cutPreview.y2}
+						stroke="#FCA5A5"
+						strokeWidth={Math.max(bitSize, 0.8)}
+						strokeDasharray="2 2"
+						opacity={0.7}
+						pointerEvents="none"
+					/>
+				)}
+
+				{/* Drop indicator while dragging a piece */}
+				{drag?.moved && dropTarget && (
+					<g data-testid="drop-indicator" pointerEvents="none">
+						<line
+							x1={dropTarget.x - bitSize / 2}
+							y1={dropTarget.rowIndex * GRID_CELL_HEIGHT - 2}
+							x2={dropTarget.x - bitSize / 2}
+							y2={(dropTarget.rowIndex + 1) * GRID_CELL_HEIGHT + 2}
+							stroke={dropTarget.overflow ? "#EF4444" : "#10B981"}
+							strokeWidth={1.5}
+						/>
+						{dropTarget.overflow && (
+							<text
+								x={dropTarget.x + 2}
+								y={dropTarget.rowIndex * GRID_CELL_HEIGHT - 3}
+								fontSize="7"
+								fill="#EF4444"
+							>
+								Row would exceed the stock length
+							</text>
+						)}
+					</g>
+				)}
+
 				{/* Hover preview */}
 				{hoverPoint &&
 					selectedPieceId &&
@@ -421,8 +691,9 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 								{/* Notches preview - notches are already normalized at design time */}
 								{previewStrip.notches.map((notch) => {
 									const center = notch.dist;
-									const left = hoverPoint.point.x + center - bitSize / 2;
-									const topHeight = halfCutDepth;
+									const notchWidth = notch.width ?? bitSize;
+									const left = hoverPoint.point.x + center - notchWidth / 2;
+									const topHeight = notch.depth ?? halfCutDepth;
 									const rectY = notch.fromTop
 										? hoverPoint.point.y
 										: hoverPoint.point.y + h - topHeight;
@@ -431,7 +702,7 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 											key={notch.id}
 											x={left}
 											y={rectY}
-											width={bitSize}
+											width={notchWidth}
 											height={topHeight}
 											fill="#A78BFA"
 											stroke="#FBBF24"
@@ -458,6 +729,178 @@ export const LayoutCanvas = memo(function LayoutCanvas({
 						);
 					})()}
 			</svg>
+
+			{onAddFullCut && (
+				<button
+					type="button"
+					data-testid="full-cut-tool"
+					aria-pressed={cutMode}
+					onClick={toggleCutMode}
+					title="Click a row to cut across it (Shift: every row), or near a row edge to rip the board"
+					className={`absolute top-2 left-2 flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg border transition-colors ${
+						cutMode
+							? "border-red-400 bg-red-600 text-white"
+							: "border-gray-700 bg-gray-800/90 text-gray-300 hover:bg-gray-700"
+					}`}
+				>
+					<Scissors size={14} />
+					Full cuts
+				</button>
+			)}
+
+			{/* Other groups to drop the dragged piece into */}
+			{drag?.moved && onMovePieceToGroup && otherGroups.length > 0 && (
+				<div className="absolute top-2 left-1/2 -translate-x-1/2 flex gap-2">
+					{otherGroups.map((group) => (
+						<button
+							key={group.id}
+							type="button"
+							data-testid="group-drop-target"
+							onMouseUp={() => {
+								onMovePieceToGroup(drag.pieceId, group.id);
+								setDrag(null);
+								setDropTarget(null);
+							}}
+							className="px-3 py-1.5 text-xs rounded-lg border border-dashed border-indigo-400 bg-gray-800/90 text-indigo-200 hover:bg-indigo-600 hover:text-white transition-colors"
+						>
+							Move to {group.name}
+						</button>
+					))}
+				</div>
+			)}
 		</div>
 	);
 });
+
+/**
+ * Small square button in the top-right corner of a piece, shown while the
+ * piece is hovered or active.
+ */
+function PieceButton({
+	testId,
+	label,
+	icon: Icon,
+	x,
+	y,
+	fill,
+	visible,
+	pressed,
+	onPress,
+}: {
+	testId: string;
+	label: string;
+	icon: typeof Trash2;
+	x: number;
+	y: number;
+	fill: string;
+	visible: boolean;
+	pressed?: boolean;
+	onPress: () => void;
+}) {
+	return (
+		// biome-ignore lint/a11y/useSemanticElements: SVG element acting as button
+		<g
+			data-testid={testId}
+			className={`cursor-pointer transition-opacity ${visible ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}
+			onMouseDown={(e) => e.stopPropagation()}
+			onClick={(e) => {
+				e.stopPropagation();
+				onPress();
+			}}
+			onKeyDown={(e) => {
+				if (e.key === "Enter" || e.key === " ") {
+					e.stopPropagation();
+					onPress();
+				}
+			}}
+			role="button"
+			aria-label={label}
+			aria-pressed={pressed}
+			tabIndex={0}
+		>
+			<rect
+				x={x}
+				y={y}
+				width={12}
+				height={12}
+				rx={2}
+				fill={fill}
+				fillOpacity={0.8}
+			/>
+			<Icon
+				x={x + 1}
+				y={y + 1}
+				width={10}
+				height={10}
+				color="white"
+				strokeWidth={2}
+			/>
+			<title>{label}</title>
+		</g>
+	);
+}
+
+/**
+ * Shade the waste beyond the short point of each bevelled end. The long
+ * point is on the strip's right-hand face, drawn at the bottom of the row,
+ * when the angle is positive.
+ */
+function EndBevels({
+	strip,
+	x,
+	y,
+	height,
+}: {
+	strip: DesignStrip;
+	x: number;
+	y: number;
+	height: number;
+}) {
+	const ends = [
+		{ key: "start", angle: strip.startCutAngle, at: x, inward: 1 },
+		{
+			key: "end",
+			angle: strip.endCutAngle,
+			at: x + strip.lengthMM,
+			inward: -1,
+		},
+	];
+
+	return ends.map(({ key, angle, at, inward }) => {
+		if (!angle) return null;
+		const run = Math.min(
+			height * Math.tan((Math.abs(angle) * Math.PI) / 180),
+			strip.lengthMM / 2,
+		);
+		const longY = angle > 0 ? y + height : y;
+		const shortY = angle > 0 ? y : y + height;
+		return (
+			<g key={key} data-testid="end-bevel" pointerEvents="none">
+				<polygon
+					points={`${at},${longY} ${at},${shortY} ${at + inward * run},${shortY}`}
+					fill="#111827"
+					fillOpacity={0.6}
+					stroke="#F59E0B"
+					strokeWidth={0.6}
+				/>
+				<text
+					x={at + inward * 2}
+					y={shortY + (angle > 0 ? 6 : -3)}
+					fontSize="5"
+					fill="#FCD34D"
+					textAnchor={inward > 0 ? "start" : "end"}
+				>
+					{Math.round(Math.abs(angle))}°
+				</text>
+			</g>
+		);
+	});
+}
+
+/** Bevelled ends for a piece tooltip, e.g. " - ends 45° / square" */
+function describeBevels(strip: DesignStrip): string {
+	if (!strip.startCutAngle && !strip.endCutAngle) return "";
+	const describe = (angle?: number) =>
+		angle ? `${Math.round(Math.abs(angle))}°` : "square";
+	return ` - ends ${describe(strip.startCutAngle)} / ${describe(strip.endCutAngle)}`;
+}
@@ -2,6 +2,13 @@ import type React from "react";
 import { memo, useMemo, useState } from "react";
 import { useKumiko } from "../../context/KumikoContext";
 import type { NotifyCallback } from "../../lib/errors";
+import { optimizeGangCuts } from "../../lib/kumiko/kumiko-gang-cut";
+import {
+	computeStockUsage,
+	type NestingStrategy,
+	nestStrips,
+	unplacedStripDemand,
+} from "../../lib/kumiko/kumiko-nesting";
 import {
 	analyzeGroupPasses,
 	generateGroupSVG,
@@ -9,10 +16,18 @@ import {
 import {
 	computeKerfedLayoutRows,
 	computeRowLengths,
+	movePieceInRows,
 } from "../../lib/kumiko/layout-helpers";
-import type { DesignStrip, Group, Piece, Point } from "../../lib/kumiko/types";
+import type {
+	Cut,
+	DesignStrip,
+	Group,
+	Piece,
+	Point,
+} from "../../lib/kumiko/types";
 import { ExportPreview } from "./ExportPreview";
 import { type ExportPassType, GroupToolbar } from "./GroupToolbar";
+import type { HistoryControlsProps } from "./HistoryControls";
 import { LayoutCanvas } from "./LayoutCanvas";
 import { computeUniqueStrips, StripBank } from "./StripBank";
 
@@ -36,9 +51,23 @@ export interface LayoutEditorProps {
 	cutDepth: number;
 	onDownload: (passType?: ExportPassType) => void;
 	onDownloadAllGroups: () => void;
-	onDeleteLayoutItem: (type: "piece", id: string) => void;
+	onDeleteLayoutItem: (type: "piece" | "cut", id: string) => void;
+	/** Add a full-depth cut to the active group; when provided, the full cut tool is offered */
+	onAddFullCut?: (cut: Omit<Cut, "id">) => void;
+	/** Add pieces to the active group; when provided, auto layout is offered */
+	onAddPieces?: (pieces: Piece[]) => void;
+	/** Replace the active group's pieces; when provided, gang-cut optimizing and dragging pieces are offered */
+	onSetPieces?: (pieces: Map<string, Piece>) => void;
+	/** Move a piece of the active group into another group, placed as given */
+	onMovePieceToGroup?: (
+		pieceId: string,
+		groupId: string,
+		placed: Piece,
+	) => void;
 	onHoverStrip?: (id: string | null) => void;
 	displayUnit: "mm" | "in";
+	/** Undo/redo state and handlers; when provided, toolbar buttons are shown */
+	history?: HistoryControlsProps;
 	/** Optional callback for showing notifications to the user */
 	onNotify?: NotifyCallback;
 }
@@ -61,7 +90,12 @@ const LayoutEditor = memo(function LayoutEditor({
 	onDownload,
 	onDownloadAllGroups,
 	onDeleteLayoutItem,
+	onAddPieces,
+	onSetPieces,
+	onMovePieceToGroup,
+	onAddFullCut,
 	displayUnit,
+	history,
 	onNotify,
 }: LayoutEditorProps) {
 	const [_svgElement, setSvgElement] = useState<SVGSVGElement | null>(null);
@@ -117,6 +151,20 @@ const LayoutEditor = memo(function LayoutEditor({
 		return total;
 	}, [allPieces, designStrips]);
 
+	const unplacedCount = useMemo(
+		() =>
+			uniqueStrips.reduce(
+				(sum, u) => sum + Math.max(0, u.neededCount - u.placedCount),
+				0,
+			),
+		[uniqueStrips],
+	);
+
+	const stockUsage = useMemo(
+		() => computeStockUsage(pieces, designStrips, stockLength),
+		[pieces, designStrips, stockLength],
+	);
+
 	// Calculate the length of each row
 	const rowLengths = useMemo(
 		() => computeRowLengths(layoutData, designStrips),
@@ -185,6 +233,116 @@ const LayoutEditor = memo(function LayoutEditor({
 		}
 	};
 
+	const handleAutoLayout = (strategy: NestingStrategy) => {
+		if (!onAddPieces) return;
+		const { pieces: placed, unplaced } = nestStrips({
+			demand: unplacedStripDemand(uniqueStrips, designStrips, allPieces),
+			pieces,
+			designStrips,
+			stockLength,
+			bitSize,
+			strategy,
+		});
+		if (placed.length > 0) {
+			onAddPieces(placed);
+			const usage = computeStockUsage(
+				[...pieces, ...placed],
+				designStrips,
+				stockLength,
+			);
+			onNotify?.(
+				"success",
+				`Placed ${placed.length} strips on ${usage.boardCount} boards, ${Math.round(usage.utilization * 100)}% of the stock used.`,
+			);
+		}
+		if (unplaced.length > 0) {
+			onNotify?.(
+				"warning",
+				`${unplaced.length} strips are longer than the stock and were not placed.`,
+			);
+		}
+	};
+
+	const handleOptimizeGangCuts = () => {
+		if (!onSetPieces || !safeActiveGroup) return;
+		const {
+			pieces: optimized,
+			linesBefore,
+			linesAfter,
+		} = optimizeGangCuts(safeActiveGroup, designStrips, bitSize);
+		if (linesAfter >= linesBefore) {
+			onNotify?.(
+				"info",
+				"No notches could be lined up further; the layout is unchanged.",
+			);
+			return;
+		}
+		onSetPieces(optimized);
+		onNotify?.(
+			"success",
+			`Saved ${linesBefore - linesAfter} cut lines (${linesBefore} to ${linesAfter}).`,
+		);
+	};
+
+	const handleTogglePieceOrientation = (
+		pieceId: string,
+		flag: "reversed" | "flipped",
+	) => {
+		const piece = safeActiveGroup?.pieces.get(pieceId);
+		if (!piece || !onSetPieces || !safeActiveGroup) return;
+		const { [flag]: wasSet, ...rest } = piece;
+		const toggled = new Map(safeActiveGroup.pieces);
+		toggled.set(pieceId, wasSet ? rest : { ...rest, [flag]: true });
+		onSetPieces(toggled);
+	};
+
+	const handleMovePiece = (
+		pieceId: string,
+		rowIndex: number,
+		index: number,
+	) => {
+		const piece = safeActiveGroup?.pieces.get(pieceId);
+		if (!piece || !onSetPieces) return;
+		const moved = movePieceInRows(
+			pieces,
+			piece,
+			rowIndex,
+			index,
+			designStrips,
+			bitSize,
+		);
+		onSetPieces(new Map(moved.map((p) => [p.id, p])));
+	};
+
+	// A piece dragged to another group goes to the first row with room there
+	const handleMovePieceToGroup = (pieceId: string, groupId: string) => {
+		const piece = safeActiveGroup?.pieces.get(pieceId);
+		const target = groups.get(groupId);
+		const strip = designStrips.find((s) => s.id === piece?.lineId);
+		if (!piece || !target || !strip || !onMovePieceToGroup) return;
+		const [placed] = nestStrips({
+			demand: [{ strip, count: 1 }],
+			pieces: Array.from(target.pieces.values()),
+			designStrips,
+			stockLength,
+			bitSize,
+			strategy: "first-fit",
+		}).pieces;
+		if (!placed) {
+			onNotify?.(
+				"warning",
+				"Cannot move strip: it is longer than the stock length.",
+			);
+			return;
+		}
+		onMovePieceToGroup(pieceId, groupId, {
+			...piece,
+			x: placed.x,
+			y: placed.y,
+			rowIndex: placed.rowIndex,
+		});
+	};
+
 	const handleDeletePiece = (pieceId: string) => {
 		onDeleteLayoutItem("piece", pieceId);
 	};
@@ -213,9 +371,14 @@ const LayoutEditor = memo(function LayoutEditor({
 				displayUnit={displayUnit}
 				piecesCount={pieces.length}
 				onClearLayout={handleClearLayout}
+				onAutoLayout={onAddPieces ? handleAutoLayout : undefined}
+				unplacedCount={unplacedCount}
+				stockUsage={stockUsage}
+				onOptimizeGangCuts={onSetPieces ? handleOptimizeGangCuts : undefined}
 				onDownload={onDownload}
 				onDownloadAllGroups={onDownloadAllGroups}
 				needsMultiplePasses={groupPasses.hasTop && groupPasses.hasBottom}
+				history={history}
 			/>
 
 			{/* Strip bank + canvas */}
@@ -245,6 +408,19 @@ const LayoutEditor = memo(function LayoutEditor({
 					onDeletePiece={handleDeletePiece}
 					displayUnit={displayUnit}
 					onNotify={onNotify}
+					onMovePiece={onSetPieces ? handleMovePiece : undefined}
+					otherGroups={Array.from(groups.values())
+						.filter((g) => g.id !== activeGroupId)
+						.map((g) => ({ id: g.id, name: g.name }))}
+					onMovePieceToGroup={
+						onMovePieceToGroup ? handleMovePieceToGroup : undefined
+					}
+					onTogglePieceOrientation={
+						onSetPieces ? handleTogglePieceOrientation : undefined
+					}
+					fullCuts={Array.from(safeActiveGroup?.fullCuts.values() ?? [])}
+					onAddFullCut={onAddFullCut}
+					onDeleteFullCut={(cutId) => onDeleteLayoutItem("cut", cutId)}
 				/>
 			</div>
 
@@ -316,9 +492,20 @@ export function LayoutEditorConnected() {
 		params,
 		handleDownloadSVG,
 		handleDownloadAllGroupsSVG,
+		historyState,
+		historyActions,
 		notify,
 	} = useKumiko();
 
+	const history = useMemo(
+		() => ({
+			...historyState,
+			onUndo: historyActions.undo,
+			onRedo: historyActions.redo,
+		}),
+		[historyState, historyActions],
+	);
+
 	return (
 		<LayoutEditor
 			designStrips={designState.designStrips}
@@ -339,8 +526,13 @@ export function LayoutEditorConnected() {
 			onDownload={handleDownloadSVG}
 			onDownloadAllGroups={handleDownloadAllGroupsSVG}
 			onDeleteLayoutItem={layoutActions.deleteLayoutItem}
+			onAddPieces={layoutActions.addPieces}
+			onSetPieces={layoutActions.setActiveGroupPieces}
+			onMovePieceToGroup={layoutActions.movePieceToGroup}
+			onAddFullCut={layoutActions.addFullCut}
 			onHoverStrip={layoutActions.setHoveredStripId}
 			displayUnit={params.units}
+			history={history}
 			onNotify={notify}
 		/>
 	);
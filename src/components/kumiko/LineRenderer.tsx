@@ -4,6 +4,7 @@ import {
 	distancePointToSegment,
 	formatValue,
 	type Line,
+	type ValidationSeverity,
 } from "../../lib/kumiko";
 
 export interface SvgLine {
@@ -15,6 +16,8 @@ export interface SvgLine {
 export interface LineRendererProps {
 	/** SVG-space lines with precomputed start/end coordinates */
 	svgLines: SvgLine[];
+	/** SVG-space construction lines, drawn dashed without labels */
+	svgGuides?: SvgLine[];
 	/** Bit size in mm */
 	bitSize: number;
 	/** Current zoom level */
@@ -23,6 +26,8 @@ export interface LineRendererProps {
 	cellSize: number;
 	/** Physical grid cell size in mm (for dimension calculations) */
 	physicalCellSize: number;
+	/** Physical grid cell height in mm, for rectangular cells (defaults to physicalCellSize) */
+	physicalCellSizeY?: number;
 	/** ID of the strip being hovered (for highlighting) */
 	hoveredStripId?: string | null;
 	/** Whether to show line ID labels */
@@ -35,6 +40,10 @@ export interface LineRendererProps {
 	lineLabelById?: Map<string, string>;
 	/** Callback when hovering over a line or label */
 	onHoverLine?: (lineId: string | null) => void;
+	/** Most severe validation issue per line ID (for highlighting) */
+	issueSeverityByLineId?: Map<string, ValidationSeverity>;
+	/** IDs of lines picked with the select tool */
+	selectedLineIds?: Set<string>;
 }
 
 interface LabelPlacement {
@@ -78,20 +87,24 @@ function overlapArea(
 /**
  * LineRenderer renders user-drawn lines as SVG strokes with optional labels.
  * Labels are positioned to avoid overlapping with each other and with lines.
- * Returns strokes and labels separately for z-order control.
+ * Returns guide strokes, line strokes and labels separately for z-order control.
  */
 export function useLineRenderer({
 	svgLines,
+	svgGuides,
 	bitSize,
 	zoom,
 	cellSize,
 	physicalCellSize,
+	physicalCellSizeY = physicalCellSize,
 	hoveredStripId,
 	showLineIds,
 	showDimensions,
 	displayUnit,
 	lineLabelById,
 	onHoverLine,
+	issueSeverityByLineId,
+	selectedLineIds,
 }: LineRendererProps) {
 	const { lineStrokes, lineLabels } = useMemo(() => {
 		const strokes: React.ReactElement[] = [];
@@ -145,12 +158,23 @@ export function useLineRenderer({
 				siblingLineIds.size > 1 &&
 				siblingLineIds.has(line.id);
 
-			// Determine stroke color: hovered (bright yellow), sibling (muted amber), default (blue)
+			const isSelected = selectedLineIds?.has(line.id) ?? false;
+
+			// Determine stroke color: hovered (bright yellow), selected (pink),
+			// sibling (muted amber), validation error (red), validation warning
+			// (orange), default (blue)
+			const issueSeverity = issueSeverityByLineId?.get(line.id);
 			let strokeColor = "#60A5FA"; // default blue
 			if (isHovered) {
 				strokeColor = "#FBBF24"; // bright yellow
+			} else if (isSelected) {
+				strokeColor = "#F472B6"; // pink for the current selection
 			} else if (isSibling) {
 				strokeColor = "#D97706"; // muted amber for siblings
+			} else if (issueSeverity === "error") {
+				strokeColor = "#F87171"; // red for unbuildable strips
+			} else if (issueSeverity === "warning") {
+				strokeColor = "#FB923C"; // orange for fragile strips
 			}
 
 			strokes.push(
@@ -159,13 +183,16 @@ export function useLineRenderer({
 					key={line.id}
 					role="button"
 					tabIndex={-1}
+					data-line-id={line.id}
 					x1={start.x}
 					y1={start.y}
 					x2={end.x}
 					y2={end.y}
 					stroke={strokeColor}
 					strokeWidth={
-						isHovered ? Math.max(2, bitSize / 2) : Math.max(1, bitSize / 4)
+						isHovered || isSelected
+							? Math.max(2, bitSize / 2)
+							: Math.max(1, bitSize / 4)
 					}
 					strokeLinecap="round"
 					style={{ userSelect: "none", outline: "none" }}
@@ -178,10 +205,12 @@ export function useLineRenderer({
 			// Skip label rendering if neither IDs nor dimensions are shown
 			if (!showLineIds && !showDimensions) continue;
 
-			// Calculate line length in mm (based on grid coordinates and physical cell size)
-			const gridDx = line.x2 - line.x1;
-			const gridDy = line.y2 - line.y1;
-			const lengthInMm = Math.hypot(gridDx, gridDy) * physicalCellSize;
+			// Calculate line length in mm from SVG-space length so non-square
+			// lattices and rectangular cells are measured correctly
+			const lengthInMm = Math.hypot(
+				((end.x - start.x) / cellSize) * physicalCellSize,
+				((end.y - start.y) / cellSize) * physicalCellSizeY,
+			);
 			const dimensionText = formatValue(lengthInMm, displayUnit);
 
 			// Build label text based on what's enabled
@@ -236,8 +265,8 @@ export function useLineRenderer({
 			const normalX = -dy / length;
 			const normalY = dx / length;
 
-			const isHorizontal = line.y1 === line.y2 && line.x1 !== line.x2;
-			const isVertical = line.x1 === line.x2 && line.y1 !== line.y2;
+			const isHorizontal = start.y === end.y && start.x !== end.x;
+			const isVertical = start.x === end.x && start.y !== end.y;
 
 			// Base offset distance from line
 			let baseOffset: number;
@@ -384,8 +413,33 @@ export function useLineRenderer({
 		zoom,
 		cellSize,
 		physicalCellSize,
+		physicalCellSizeY,
 		onHoverLine,
+		issueSeverityByLineId,
+		selectedLineIds,
 	]);
 
-	return { lineStrokes, lineLabels };
+	// Guides are reference geometry only, so they ignore the pointer
+	const guideStrokes = useMemo(
+		() =>
+			(svgGuides ?? []).map(({ line, start, end }) => (
+				<line
+					key={line.id}
+					data-guide-id={line.id}
+					x1={start.x}
+					y1={start.y}
+					x2={end.x}
+					y2={end.y}
+					stroke="#9CA3AF"
+					strokeWidth={Math.max(0.75, bitSize / 6)}
+					strokeDasharray={`${bitSize * 1.5} ${bitSize}`}
+					strokeLinecap="round"
+					opacity={0.8}
+					pointerEvents="none"
+				/>
+			)),
+		[svgGuides, bitSize],
+	);
+
+	return { guideStrokes, lineStrokes, lineLabels };
 }
@@ -0,0 +1,85 @@
+import { Trash2 } from "lucide-react";
+import type { Motif } from "../../lib/kumiko/types";
+
+interface MotifControlsProps {
+	motifs: Motif[];
+	activeMotif: Motif;
+	onSelectMotif: (id: string) => void;
+	onDeleteMotif: (id: string) => void;
+}
+
+/** Small preview of a motif's lines inside its cell */
+function MotifThumbnail({ motif }: { motif: Motif }) {
+	const pad = Math.max(motif.width, motif.height) * 0.1;
+	return (
+		<svg
+			viewBox={`${-pad} ${-pad} ${motif.width + pad * 2} ${motif.height + pad * 2}`}
+			className="w-8 h-8 bg-gray-950 rounded border border-gray-800"
+			aria-hidden="true"
+		>
+			<rect
+				x={0}
+				y={0}
+				width={motif.width}
+				height={motif.height}
+				fill="none"
+				stroke="#374151"
+				strokeWidth={pad / 2}
+			/>
+			{motif.lines.map((line) => (
+				<line
+					key={`${line.x1},${line.y1}-${line.x2},${line.y2}`}
+					x1={line.x1}
+					y1={line.y1}
+					x2={line.x2}
+					y2={line.y2}
+					stroke="#60A5FA"
+					strokeWidth={pad}
+					strokeLinecap="round"
+				/>
+			))}
+		</svg>
+	);
+}
+
+/**
+ * Motif picker for the stamp tool.
+ */
+export function MotifControls({
+	motifs,
+	activeMotif,
+	onSelectMotif,
+	onDeleteMotif,
+}: MotifControlsProps) {
+	return (
+		<div className="flex items-center gap-1">
+			<MotifThumbnail motif={activeMotif} />
+			<select
+				value={activeMotif.id}
+				onChange={(e) => onSelectMotif(e.target.value)}
+				className="px-2 py-1.5 text-sm rounded-md bg-gray-800 text-gray-200 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+				aria-label="Motif"
+			>
+				{motifs.map((motif) => (
+					<option key={motif.id} value={motif.id}>
+						{motif.name} ({motif.width}×{motif.height})
+					</option>
+				))}
+			</select>
+			{!activeMotif.builtIn && (
+				<button
+					type="button"
+					onClick={() => {
+						if (window.confirm(`Delete motif "${activeMotif.name}"?`)) {
+							onDeleteMotif(activeMotif.id);
+						}
+					}}
+					className="p-2 rounded-md text-gray-300 hover:text-red-400 hover:bg-gray-700 transition-colors"
+					title="Delete this motif"
+				>
+					<Trash2 className="w-4 h-4" />
+				</button>
+			)}
+		</div>
+	);
+}
@@ -234,6 +234,132 @@ export function NotchToggleMarker({
 	);
 }
 
+/** A strip taking part in a multi-way joint, as shown by NotchStackEditor */
+export interface NotchStackLayer {
+	lineId: string;
+	/** Direction of the strip in SVG space, in radians */
+	angle: number;
+	/** Short label for the strip (e.g. its display code) */
+	label: string;
+}
+
+interface NotchStackEditorProps {
+	/** Center X position in SVG coordinates */
+	centerX: number;
+	/** Center Y position in SVG coordinates */
+	centerY: number;
+	/** Current zoom level, used for scaling visual elements */
+	zoom: number;
+	/** Strips crossing at the joint, ordered top to bottom */
+	layers: NotchStackLayer[];
+	/** Called when the user clicks a strip to move it up the stack */
+	onRaise: (lineId: string) => void;
+}
+
+const STACK_COLORS = ["#F59E0B", "#8B5CF6", "#10B981", "#0EA5E9", "#F43F5E"];
+
+/**
+ * Stacking order editor for multi-way (mitsukude) joints.
+ * Draws every strip through the joint at its real angle, bottom layer first,
+ * so the strip drawn on top is the one on top of the stack. Each strip is
+ * numbered with its layer and clicking it raises it one layer; clicking the
+ * top strip sends it to the bottom.
+ */
+export function NotchStackEditor({
+	centerX,
+	centerY,
+	zoom,
+	layers,
+	onRaise,
+}: NotchStackEditorProps) {
+	const minBadgeSize = DEFAULT_SIZES.badgeWidth / 80;
+	const badgeSize = Math.max(minBadgeSize, DEFAULT_SIZES.badgeWidth / zoom);
+	const strokeWidth = Math.max(0.5, 2 / Math.sqrt(zoom));
+	const badgeRadius = badgeSize / 2;
+
+	const stripWidth = badgeSize * 0.16;
+	const stripLength = badgeSize * 0.8;
+	const fontSize = badgeSize * 0.14;
+
+	return (
+		<>
+			<circle
+				cx={centerX}
+				cy={centerY}
+				r={badgeRadius}
+				fill={DEFAULT_COLORS.badgeBackground}
+				stroke={STACK_COLORS[0]}
+				strokeWidth={strokeWidth * 1.5}
+			/>
+
+			{layers
+				.map((layer, index) => ({ layer, index }))
+				.reverse()
+				.map(({ layer, index }) => {
+					const color = STACK_COLORS[index % STACK_COLORS.length];
+					const degrees = (layer.angle * 180) / Math.PI;
+					const labelX = centerX + Math.cos(layer.angle) * stripLength * 0.42;
+					const labelY = centerY + Math.sin(layer.angle) * stripLength * 0.42;
+
+					return (
+						// biome-ignore lint: SVG group is used as an interactive hit target inside the grid canvas
+						<g
+							key={layer.lineId}
+							role="button"
+							tabIndex={0}
+							aria-label={`Raise strip ${layer.label} (layer ${index + 1} of ${layers.length})`}
+							className="cursor-pointer"
+							onClick={(e) => {
+								e.stopPropagation();
+								onRaise(layer.lineId);
+							}}
+							onKeyDown={(e) => {
+								if (e.key === "Enter" || e.key === " ") {
+									e.preventDefault();
+									onRaise(layer.lineId);
+								}
+							}}
+						>
+							<rect
+								x={centerX - stripLength / 2}
+								y={centerY - stripWidth / 2}
+								width={stripLength}
+								height={stripWidth}
+								fill={color}
+								stroke={DEFAULT_COLORS.badgeBackground}
+								strokeWidth={strokeWidth}
+								rx={strokeWidth}
+								transform={`rotate(${degrees} ${centerX} ${centerY})`}
+							/>
+							<circle
+								cx={labelX}
+								cy={labelY}
+								r={fontSize * 0.75}
+								fill={DEFAULT_COLORS.badgeBackground}
+								stroke={color}
+								strokeWidth={strokeWidth}
+							/>
+							<text
+								x={labelX}
+								y={labelY}
+								fontSize={fontSize}
+								fill="#F9FAFB"
+								textAnchor="middle"
+								dominantBaseline="central"
+								pointerEvents="none"
+							>
+								{index + 1}
+							</text>
+							<title>
+								{`Strip ${layer.label}: layer ${index + 1} of ${layers.length}. Click to raise.`}
+							</title>
+						</g>
+					);
+				})}
+		</>
+	);
+}
+
 /**
  * Returns the click padding size scaled by zoom.
  * Useful for creating the invisible click target area around the marker.
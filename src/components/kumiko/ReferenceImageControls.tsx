@@ -0,0 +1,150 @@
+import {
+	Eye,
+	EyeOff,
+	ImagePlus,
+	SlidersHorizontal,
+	Trash2,
+} from "lucide-react";
+import { useRef, useState } from "react";
+import type { ReferenceImage } from "../../lib/kumiko/types";
+
+interface ReferenceImageControlsProps {
+	image: ReferenceImage | undefined;
+	onChange: (image: ReferenceImage | undefined) => void;
+	/** Load a local image file as the new reference image */
+	onLoad: (file: File) => void;
+}
+
+const inputClass =
+	"w-16 px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const buttonClass =
+	"p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-700 transition-colors";
+
+/**
+ * Load, show/hide and calibrate the tracing image beneath the grid.
+ */
+export function ReferenceImageControls({
+	image,
+	onChange,
+	onLoad,
+}: ReferenceImageControlsProps) {
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [showSettings, setShowSettings] = useState(false);
+
+	const field = (
+		label: string,
+		key: "width" | "centerX" | "centerY" | "rotation",
+		step: number,
+	) =>
+		image && (
+			<label className="flex items-center gap-1 text-xs text-gray-400">
+				{label}
+				<input
+					type="number"
+					step={step}
+					min={key === "width" ? step : undefined}
+					value={image[key]}
+					onChange={(e) => {
+						const value = Number.parseFloat(e.target.value);
+						if (!Number.isFinite(value)) return;
+						if (key === "width" && value <= 0) return;
+						onChange({ ...image, [key]: value });
+					}}
+					className={inputClass}
+				/>
+			</label>
+		);
+
+	return (
+		<div className="space-y-1.5">
+			<div className="flex items-center gap-1">
+				<button
+					type="button"
+					onClick={() => fileInputRef.current?.click()}
+					className={buttonClass}
+					title={image ? "Replace reference image" : "Load reference image"}
+				>
+					<ImagePlus className="w-4 h-4" />
+				</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept="image/*"
+					className="hidden"
+					onChange={(e) => {
+						const file = e.target.files?.[0];
+						if (file) onLoad(file);
+						// Allow loading the same file again
+						e.target.value = "";
+					}}
+				/>
+				{image && (
+					<>
+						<button
+							type="button"
+							onClick={() => onChange({ ...image, visible: !image.visible })}
+							className={buttonClass}
+							title={
+								image.visible ? "Hide reference image" : "Show reference image"
+							}
+							aria-pressed={image.visible}
+						>
+							{image.visible ? (
+								<Eye className="w-4 h-4" />
+							) : (
+								<EyeOff className="w-4 h-4" />
+							)}
+						</button>
+						<input
+							type="range"
+							min={0.05}
+							max={1}
+							step={0.05}
+							value={image.opacity}
+							onChange={(e) =>
+								onChange({ ...image, opacity: Number(e.target.value) })
+							}
+							className="w-20 accent-indigo-500"
+							aria-label="Reference image opacity"
+							title="Opacity"
+						/>
+						<button
+							type="button"
+							onClick={() => setShowSettings(!showSettings)}
+							className={
+								showSettings
+									? "p-2 rounded-md bg-indigo-600 text-white transition-colors"
+									: buttonClass
+							}
+							title="Calibrate size, rotation and position"
+							aria-pressed={showSettings}
+						>
+							<SlidersHorizontal className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => {
+								onChange(undefined);
+								setShowSettings(false);
+							}}
+							className="p-2 rounded-md text-gray-300 hover:text-red-400 hover:bg-gray-700 transition-colors"
+							title="Remove reference image"
+						>
+							<Trash2 className="w-4 h-4" />
+						</button>
+					</>
+				)}
+			</div>
+
+			{image && showSettings && (
+				<div className="grid grid-cols-2 gap-2 px-1">
+					{field("Width", "width", 0.5)}
+					{field("Rotate°", "rotation", 1)}
+					{field("Centre X", "centerX", 0.5)}
+					{field("Centre Y", "centerY", 0.5)}
+				</div>
+			)}
+		</div>
+	);
+}
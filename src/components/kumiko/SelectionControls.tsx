@@ -0,0 +1,338 @@
+import {
+	BookmarkPlus,
+	ClipboardPaste,
+	Copy,
+	CopyPlus,
+	Eraser,
+	FlipHorizontal2,
+	FlipVertical2,
+	Frame,
+	Grid3x3,
+	MousePointer2,
+	Pencil,
+	RotateCw,
+	Ruler,
+	Stamp,
+	Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import type { FlipDirection } from "../../lib/kumiko/kumiko-selection";
+
+/** Active pointer tool of the grid designer */
+export type DesignerTool = "draw" | "select" | "stamp" | "guide";
+
+/** Selection handlers provided by the design state */
+export interface SelectionActions {
+	selectLines: (ids: string[], additive?: boolean) => void;
+	toggleLineSelection: (id: string) => void;
+	clearSelection: () => void;
+	moveSelection: (dx: number, dy: number) => void;
+	rotateSelection: () => void;
+	flipSelection: (direction: FlipDirection) => void;
+	arraySelection: (
+		countX: number,
+		countY: number,
+		stepX: number,
+		stepY: number,
+	) => void;
+	deleteSelection: () => void;
+	duplicateSelection: () => void;
+	/** Returns clipboard JSON for the selection, or null if nothing is selected */
+	copySelection: () => string | null;
+	/** Returns false if the text is not a copied selection */
+	pasteLines: (text: string) => boolean;
+}
+
+interface SelectionControlsProps {
+	tool: DesignerTool;
+	onToolChange: (tool: DesignerTool) => void;
+	selectionCount: number;
+	/** Bounding box of the selection in grid cells, used as the default array step */
+	selectionSize: { width: number; height: number };
+	actions: SelectionActions;
+	onCopy: () => void;
+	onPaste: () => void;
+	/** Save the selection as a motif; when provided, the stamp tool is available */
+	onSaveMotif?: () => void;
+	/** Number of construction lines in the design */
+	guideCount?: number;
+	/** Remove every guide; when provided, the guide tool is available */
+	onClearGuides?: () => void;
+	/** Make the selection the outer frame of the panel */
+	onMakeFrame?: () => void;
+}
+
+const inputClass =
+	"w-14 px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50";
+
+const buttonClass =
+	"p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+
+/**
+ * Draw/select/stamp/guide tool switch plus buttons that transform the
+ * current selection.
+ */
+export function SelectionControls({
+	tool,
+	onToolChange,
+	selectionCount,
+	selectionSize,
+	actions,
+	onCopy,
+	onPaste,
+	onSaveMotif,
+	guideCount = 0,
+	onClearGuides,
+	onMakeFrame,
+}: SelectionControlsProps) {
+	const [showArray, setShowArray] = useState(false);
+	const toolClass = (active: boolean) =>
+		active
+			? "p-2 rounded-md bg-indigo-600 text-white transition-colors"
+			: buttonClass;
+	const hasSelection = selectionCount > 0;
+
+	return (
+		<div className="space-y-1.5">
+			<div className="flex items-center gap-1">
+				<button
+					type="button"
+					onClick={() => onToolChange("draw")}
+					className={toolClass(tool === "draw")}
+					title="Draw lines (D)"
+					aria-pressed={tool === "draw"}
+				>
+					<Pencil className="w-4 h-4" />
+				</button>
+				<button
+					type="button"
+					onClick={() => onToolChange("select")}
+					className={toolClass(tool === "select")}
+					title="Select lines (S)"
+					aria-pressed={tool === "select"}
+				>
+					<MousePointer2 className="w-4 h-4" />
+				</button>
+				{onSaveMotif && (
+					<button
+						type="button"
+						onClick={() => onToolChange("stamp")}
+						className={toolClass(tool === "stamp")}
+						title="Stamp motifs into grid cells (M)"
+						aria-pressed={tool === "stamp"}
+					>
+						<Stamp className="w-4 h-4" />
+					</button>
+				)}
+				{onClearGuides && (
+					<button
+						type="button"
+						onClick={() => onToolChange("guide")}
+						className={toolClass(tool === "guide")}
+						title="Draw guide lines that do not become strips (G)"
+						aria-pressed={tool === "guide"}
+					>
+						<Ruler className="w-4 h-4" />
+					</button>
+				)}
+
+				{tool === "select" && (
+					<>
+						<div className="w-px h-6 bg-gray-700 mx-1" />
+						<span className="px-1 min-w-[24px] text-center text-sm font-medium text-gray-400">
+							{selectionCount}
+						</span>
+						<button
+							type="button"
+							onClick={actions.rotateSelection}
+							disabled={!hasSelection}
+							className={buttonClass}
+							title="Rotate clockwise (R)"
+						>
+							<RotateCw className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => actions.flipSelection("horizontal")}
+							disabled={!hasSelection}
+							className={buttonClass}
+							title="Mirror left/right (Shift+H)"
+						>
+							<FlipHorizontal2 className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => actions.flipSelection("vertical")}
+							disabled={!hasSelection}
+							className={buttonClass}
+							title="Mirror top/bottom (Shift+V)"
+						>
+							<FlipVertical2 className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => setShowArray(!showArray)}
+							disabled={!hasSelection}
+							className={toolClass(showArray && hasSelection)}
+							title="Array: repeat the selection in rows and columns"
+							aria-pressed={showArray}
+						>
+							<Grid3x3 className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={actions.duplicateSelection}
+							disabled={!hasSelection}
+							className={buttonClass}
+							title="Duplicate (Ctrl+D)"
+						>
+							<CopyPlus className="w-4 h-4" />
+						</button>
+						{onSaveMotif && (
+							<button
+								type="button"
+								onClick={onSaveMotif}
+								disabled={!hasSelection}
+								className={buttonClass}
+								title="Save selection as a motif"
+							>
+								<BookmarkPlus className="w-4 h-4" />
+							</button>
+						)}
+						{onMakeFrame && (
+							<button
+								type="button"
+								onClick={onMakeFrame}
+								disabled={!hasSelection}
+								className={buttonClass}
+								title="Make the selection the panel frame"
+							>
+								<Frame className="w-4 h-4" />
+							</button>
+						)}
+						<button
+							type="button"
+							onClick={onCopy}
+							disabled={!hasSelection}
+							className={buttonClass}
+							title="Copy (Ctrl+C)"
+						>
+							<Copy className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={onPaste}
+							className={buttonClass}
+							title="Paste (Ctrl+V)"
+						>
+							<ClipboardPaste className="w-4 h-4" />
+						</button>
+						<button
+							type="button"
+							onClick={actions.deleteSelection}
+							disabled={!hasSelection}
+							className={buttonClass}
+							title="Delete (Del)"
+						>
+							<Trash2 className="w-4 h-4" />
+						</button>
+					</>
+				)}
+
+				{tool === "guide" && onClearGuides && (
+					<>
+						<div className="w-px h-6 bg-gray-700 mx-1" />
+						<span className="px-1 min-w-[24px] text-center text-sm font-medium text-gray-400">
+							{guideCount}
+						</span>
+						<button
+							type="button"
+							onClick={onClearGuides}
+							disabled={guideCount === 0}
+							className={buttonClass}
+							title="Remove all guides"
+						>
+							<Eraser className="w-4 h-4" />
+						</button>
+					</>
+				)}
+			</div>
+
+			{tool === "select" && showArray && hasSelection && (
+				<ArrayForm
+					defaultStepX={Math.max(1, selectionSize.width)}
+					defaultStepY={Math.max(1, selectionSize.height)}
+					onApply={(countX, countY, stepX, stepY) => {
+						actions.arraySelection(countX, countY, stepX, stepY);
+						setShowArray(false);
+					}}
+				/>
+			)}
+		</div>
+	);
+}
+
+interface ArrayFormProps {
+	defaultStepX: number;
+	defaultStepY: number;
+	onApply: (
+		countX: number,
+		countY: number,
+		stepX: number,
+		stepY: number,
+	) => void;
+}
+
+/**
+ * Column/row counts and steps for the array tool. Steps default to the
+ * selection size so neighbouring tiles just touch.
+ */
+function ArrayForm({ defaultStepX, defaultStepY, onApply }: ArrayFormProps) {
+	const [countX, setCountX] = useState(3);
+	const [countY, setCountY] = useState(1);
+	const [stepX, setStepX] = useState(defaultStepX);
+	const [stepY, setStepY] = useState(defaultStepY);
+
+	const field = (
+		label: string,
+		value: number,
+		onChange: (value: number) => void,
+		min: number,
+	) => (
+		<label className="flex items-center gap-1 text-xs text-gray-400">
+			{label}
+			<input
+				type="number"
+				min={min}
+				step={1}
+				value={value}
+				onChange={(e) => {
+					const next = Number.parseInt(e.target.value, 10);
+					if (Number.isFinite(next)) onChange(Math.max(min, next));
+				}}
+				className={inputClass}
+			/>
+		</label>
+	);
+
+	return (
+		<form
+			className="flex flex-wrap items-center gap-2 px-1"
+			onSubmit={(e) => {
+				e.preventDefault();
+				onApply(countX, countY, stepX, stepY);
+			}}
+		>
+			{field("Columns", countX, setCountX, 1)}
+			{field("Rows", countY, setCountY, 1)}
+			{field("Step X", stepX, setStepX, -100)}
+			{field("Step Y", stepY, setStepY, -100)}
+			<button
+				type="submit"
+				className="px-3 py-1 text-sm rounded-md bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+			>
+				Apply
+			</button>
+		</form>
+	);
+}
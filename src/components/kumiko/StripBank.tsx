@@ -162,6 +162,14 @@ export function StripBank({
 											>
 												{displayId}
 											</span>
+											{strip.frameMember && (
+												<span
+													className="px-1.5 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-amber-500/15 text-amber-300"
+													title={`Frame ${strip.frameMember}`}
+												>
+													{strip.frameMember}
+												</span>
+											)}
 										</div>
 										<span
 											className={`text-xs ${isSelected ? "text-indigo-200" : "text-gray-400"}`}
@@ -194,7 +202,8 @@ export function StripBank({
 												// (bottom-only strips are flipped to have top notches)
 												const previewHeight = 10;
 												const notchHeight = 4;
-												const x = notch.dist - bitSize / 2;
+												const notchWidth = notch.width ?? bitSize;
+												const x = notch.dist - notchWidth / 2;
 												const y = notch.fromTop
 													? 0
 													: previewHeight - notchHeight;
@@ -203,7 +212,7 @@ export function StripBank({
 														key={notch.id}
 														x={x}
 														y={y}
-														width={bitSize}
+														width={notchWidth}
 														height={notchHeight}
 														fill={isSelected ? "#A5B4FC" : "#7C3AED"}
 														stroke={isSelected ? "#C7D2FE" : "#FBBF24"}
@@ -0,0 +1,68 @@
+import { Crosshair } from "lucide-react";
+import type {
+	SymmetryMode,
+	SymmetrySettings,
+} from "../../lib/kumiko/kumiko-symmetry";
+
+interface SymmetryControlsProps {
+	symmetry: SymmetrySettings;
+	onSymmetryChange: (symmetry: SymmetrySettings) => void;
+	/** Whether the next click on the grid places the symmetry centre */
+	isPlacingCenter: boolean;
+	onPlacingCenterChange: (isPlacing: boolean) => void;
+}
+
+const MODE_LABELS: Record<SymmetryMode, string> = {
+	none: "No symmetry",
+	"mirror-horizontal": "Mirror left/right",
+	"mirror-vertical": "Mirror top/bottom",
+	"mirror-both": "Mirror both axes",
+	"rotate-4": "4-fold rotation",
+	"rotate-8": "8-fold (rotate + mirror)",
+};
+
+/**
+ * Symmetry mode picker with a button to place the centre on the grid.
+ */
+export function SymmetryControls({
+	symmetry,
+	onSymmetryChange,
+	isPlacingCenter,
+	onPlacingCenterChange,
+}: SymmetryControlsProps) {
+	return (
+		<div className="flex items-center gap-1">
+			<select
+				value={symmetry.mode}
+				onChange={(e) =>
+					onSymmetryChange({
+						...symmetry,
+						mode: e.target.value as SymmetryMode,
+					})
+				}
+				className="px-2 py-1.5 text-sm rounded-md bg-gray-800 text-gray-200 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+				aria-label="Symmetry mode"
+			>
+				{(Object.keys(MODE_LABELS) as SymmetryMode[]).map((mode) => (
+					<option key={mode} value={mode}>
+						{MODE_LABELS[mode]}
+					</option>
+				))}
+			</select>
+			<button
+				type="button"
+				onClick={() => onPlacingCenterChange(!isPlacingCenter)}
+				disabled={symmetry.mode === "none"}
+				className={
+					isPlacingCenter
+						? "p-2 rounded-md bg-indigo-600 text-white transition-colors"
+						: "p-2 rounded-md text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+				}
+				title="Place symmetry centre (click a grid point)"
+				aria-pressed={isPlacingCenter}
+			>
+				<Crosshair className="w-4 h-4" />
+			</button>
+		</div>
+	);
+}
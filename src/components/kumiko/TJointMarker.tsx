@@ -0,0 +1,112 @@
+import type { TJointType } from "../../lib/kumiko";
+import {
+	getNotchBadgeDimensions,
+	getNotchClickPadding,
+} from "./NotchToggleMarker";
+
+interface TJointMarkerProps {
+	x: number;
+	y: number;
+	type: TJointType;
+	/** Position of the joint in SVG coordinates */
+	position: { x: number; y: number };
+	zoom: number;
+	onCycle: (x: number, y: number) => void;
+	onHoverStart: () => void;
+	onHoverEnd: () => void;
+}
+
+const LABELS: Record<TJointType, string> = {
+	butt: "Butt joint",
+	tenon: "Stub tenon",
+	"half-lap": "Through half-lap",
+};
+
+/**
+ * Marker at a strip end meeting another strip. Butt joints show as a
+ * hollow square, stub tenons as a filled amber square and half-laps as a
+ * teal diamond; clicking switches to the next joint type.
+ */
+export function TJointMarker({
+	x,
+	y,
+	type,
+	position,
+	zoom,
+	onCycle,
+	onHoverStart,
+	onHoverEnd,
+}: TJointMarkerProps) {
+	const { width } = getNotchBadgeDimensions(zoom);
+	const size = width * 0.6;
+	const half = size / 2;
+	const clickPadding = getNotchClickPadding(zoom);
+	const strokeWidth = Math.max(0.5, 2 / Math.sqrt(zoom));
+	const { x: cx, y: cy } = position;
+
+	return (
+		// biome-ignore lint: SVG group is used as an interactive hit target inside the grid canvas
+		<g
+			data-testid="t-joint-marker"
+			data-joint-type={type}
+			role="button"
+			aria-label={`${LABELS[type]} at ${x},${y}`}
+			className="cursor-pointer"
+			tabIndex={0}
+			onMouseDown={(e) => {
+				e.stopPropagation();
+			}}
+			onClick={(e) => {
+				e.stopPropagation();
+				onCycle(x, y);
+			}}
+			onKeyDown={(e) => {
+				if (e.key === "Enter" || e.key === " ") {
+					e.preventDefault();
+					onCycle(x, y);
+				}
+			}}
+			onMouseEnter={onHoverStart}
+			onMouseLeave={onHoverEnd}
+		>
+			<rect
+				x={cx - half - clickPadding}
+				y={cy - half - clickPadding}
+				width={size + clickPadding * 2}
+				height={size + clickPadding * 2}
+				fill="transparent"
+			/>
+			{type === "butt" && (
+				<rect
+					x={cx - half}
+					y={cy - half}
+					width={size}
+					height={size}
+					fill="#111827"
+					stroke="#9CA3AF"
+					strokeWidth={strokeWidth}
+				/>
+			)}
+			{type === "tenon" && (
+				<rect
+					x={cx - half}
+					y={cy - half}
+					width={size}
+					height={size}
+					fill="#F59E0B"
+					stroke="#92400E"
+					strokeWidth={strokeWidth}
+				/>
+			)}
+			{type === "half-lap" && (
+				<polygon
+					points={`${cx},${cy - half * 1.3} ${cx + half * 1.3},${cy} ${cx},${cy + half * 1.3} ${cx - half * 1.3},${cy}`}
+					fill="#2DD4BF"
+					stroke="#115E59"
+					strokeWidth={strokeWidth}
+				/>
+			)}
+			<title>{LABELS[type]}. Click to change the joint type.</title>
+		</g>
+	);
+}
@@ -0,0 +1,117 @@
+import {
+	AlertTriangle,
+	CheckCircle2,
+	ChevronDown,
+	XCircle,
+} from "lucide-react";
+import { useState } from "react";
+import { formatValue, type ValidationIssue } from "../../lib/kumiko";
+
+export interface ValidationPanelProps {
+	/** Issues reported by validateDesign */
+	issues: ValidationIssue[];
+	/** Display unit for formatting measurements */
+	displayUnit: "mm" | "in";
+	/** Highlight a grid line while its issue is hovered */
+	onHoverLine?: (lineId: string | null) => void;
+}
+
+/**
+ * Human-readable description of a validation issue.
+ */
+function describeIssue(
+	issue: ValidationIssue,
+	displayUnit: "mm" | "in",
+): string {
+	const measured = `${formatValue(issue.measuredMM, displayUnit)} ${displayUnit}`;
+	const limit = `${formatValue(issue.limitMM, displayUnit)} ${displayUnit}`;
+
+	switch (issue.kind) {
+		case "notch-spacing":
+			return `Notches leave only ${measured} between them (bit is ${limit})`;
+		case "notch-near-butt-end":
+			return `Notch leaves only ${measured} before the butted end (bit is ${limit})`;
+		case "strip-exceeds-stock":
+			return `Strip is ${measured} long, longer than the ${limit} stock`;
+	}
+}
+
+/**
+ * ValidationPanel lists problems that would make the design hard or
+ * impossible to cut. Hovering an issue highlights the affected line on the
+ * grid. Errors block SVG export; warnings are reported but allowed.
+ */
+export function ValidationPanel({
+	issues,
+	displayUnit,
+	onHoverLine,
+}: ValidationPanelProps) {
+	const [isOpen, setIsOpen] = useState(true);
+
+	const errorCount = issues.filter((i) => i.severity === "error").length;
+	const warningCount = issues.length - errorCount;
+
+	return (
+		<div
+			data-testid="validation-panel"
+			className="bg-gray-900/95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl w-80 max-w-full"
+		>
+			<button
+				type="button"
+				onClick={() => setIsOpen(!isOpen)}
+				className="w-full flex items-center justify-between gap-2 px-3 py-2 hover:bg-gray-800/50 rounded-lg transition-colors"
+			>
+				<span className="flex items-center gap-2 text-sm font-medium text-gray-200">
+					{issues.length === 0 ? (
+						<CheckCircle2 className="w-4 h-4 text-emerald-400" />
+					) : errorCount > 0 ? (
+						<XCircle className="w-4 h-4 text-red-400" />
+					) : (
+						<AlertTriangle className="w-4 h-4 text-amber-400" />
+					)}
+					Design check
+				</span>
+				<span className="flex items-center gap-2 text-xs text-gray-400">
+					{issues.length === 0
+						? "No issues"
+						: [
+								errorCount > 0 &&
+									`${errorCount} error${errorCount === 1 ? "" : "s"}`,
+								warningCount > 0 &&
+									`${warningCount} warning${warningCount === 1 ? "" : "s"}`,
+							]
+								.filter(Boolean)
+								.join(", ")}
+					<ChevronDown
+						className={`w-4 h-4 transition-transform ${isOpen ? "rotate-180" : ""}`}
+					/>
+				</span>
+			</button>
+
+			{isOpen && issues.length > 0 && (
+				<ul className="max-h-56 overflow-y-auto border-t border-gray-800 py-1">
+					{issues.map((issue) => (
+						<li
+							key={issue.id}
+							className="flex items-start gap-2 px-3 py-1.5 text-xs hover:bg-gray-800/70"
+							onMouseEnter={() => onHoverLine?.(issue.sourceLineId)}
+							onMouseLeave={() => onHoverLine?.(null)}
+						>
+							{issue.severity === "error" ? (
+								<XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-red-400" />
+							) : (
+								<AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-400" />
+							)}
+							<span className="text-gray-300">
+								<span className="font-mono text-gray-100 mr-1">
+									{issue.displayCode}
+								</span>
+								{describeIssue(issue, displayUnit)}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
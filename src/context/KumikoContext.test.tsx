@@ -0,0 +1,61 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	type SavedDesignPayload,
+	saveDesign,
+	saveNamedDesign,
+} from "../lib/kumiko/kumiko-storage";
+import { KumikoProvider, useKumiko } from "./KumikoContext";
+
+const makePayload = (
+	overrides?: Partial<SavedDesignPayload>,
+): SavedDesignPayload => ({
+	version: 1,
+	units: "mm",
+	bitSize: 3,
+	cutDepth: 10,
+	halfCutDepth: 5,
+	gridCellSize: 20,
+	stockLength: 600,
+	lines: [{ id: "a", x1: 0, y1: 0, x2: 4, y2: 0 }],
+	groups: [{ id: "g1", name: "Group 1", pieces: [], fullCuts: [] }],
+	activeGroupId: "g1",
+	...overrides,
+});
+
+describe("KumikoProvider history", () => {
+	afterEach(() => {
+		window.localStorage.clear();
+	});
+
+	it("should not undo into the previous design after loading one", () => {
+		saveDesign(makePayload());
+		saveNamedDesign(
+			"Other",
+			makePayload({
+				gridType: "triangular",
+				lines: [{ id: "b", x1: 0, y1: 0, x2: 0, y2: 3 }],
+			}),
+		);
+		const { result } = renderHook(() => useKumiko(), {
+			wrapper: KumikoProvider,
+		});
+
+		// An edit to the first design can be undone
+		act(() => {
+			result.current.designActions.setLines(new Map());
+		});
+		expect(result.current.historyState.canUndo).toBe(true);
+
+		act(() => {
+			result.current.persistenceActions.handleLoadNamed("Other");
+		});
+		expect(result.current.historyState.canUndo).toBe(false);
+
+		act(() => {
+			result.current.historyActions.undo();
+		});
+		expect(Array.from(result.current.designState.lines.keys())).toEqual(["b"]);
+		expect(result.current.params.gridType).toBe("triangular");
+	});
+});
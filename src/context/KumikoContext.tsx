@@ -9,6 +9,11 @@ import {
 } from "react";
 import type { ExportPassType } from "../components/kumiko/GroupToolbar";
 import { useDesignPersistence } from "../hooks/useDesignPersistence";
+import {
+	type EditHistoryActions,
+	type EditHistoryState,
+	useEditHistory,
+} from "../hooks/useEditHistory";
 import {
 	type GridViewSettings,
 	useGridViewSettings,
@@ -16,15 +21,35 @@ import {
 import { useKumikoDesign } from "../hooks/useKumikoDesign";
 import { useKumikoLayout } from "../hooks/useKumikoLayout";
 import { useKumikoParams } from "../hooks/useKumikoParams";
+import {
+	type MotifLibraryActions,
+	type MotifLibraryState,
+	useMotifLibrary,
+} from "../hooks/useMotifLibrary";
 import type { NotificationType } from "../lib/errors";
 import type {
+	AssemblyPlan,
+	Cut,
 	DesignStrip,
+	FlipDirection,
+	FrameSettings,
+	GridType,
 	Group,
 	Intersection,
 	Line,
+	Motif,
+	PatternApplyMode,
+	Piece,
 	Point,
+	ReferenceImage,
+	SymmetrySettings,
+	TJoint,
+	TJointType,
+	ValidationIssue,
+	WeaveStrategy,
 	ZoomPanState,
 } from "../lib/kumiko";
+import { planAssembly } from "../lib/kumiko/kumiko-assembly";
 import {
 	createDesignPayload,
 	type NamedDesignSummary,
@@ -34,6 +59,7 @@ import {
 	analyzeGroupPasses,
 	generateGroupSVG,
 } from "../lib/kumiko/kumiko-svg-export";
+import { validateDesign } from "../lib/kumiko/kumiko-validation";
 import { downloadSVG } from "../lib/utils/download";
 import { useToastOptional } from "./ToastContext";
 
@@ -52,16 +78,27 @@ export interface ParamsContextValue {
 		bitSize: number;
 		cutDepth: number;
 		halfCutDepth: number;
+		stripThickness: number;
+		/** Grid cell width in mm */
 		gridCellSize: number;
+		/** Grid cell height in mm (equal to the width for square cells) */
+		gridCellSizeY: number;
+		gridType: GridType;
 		stockLength: number;
+		/** Joint made where a strip ends on another, unless overridden */
+		tJointType: TJointType;
 	};
 	paramActions: {
 		setUnits: (units: "mm" | "in") => void;
 		setBitSize: (size: number) => void;
 		setCutDepth: (depth: number) => void;
 		setHalfCutDepth: (depth: number) => void;
+		setStripThickness: (thickness: number) => void;
 		setGridCellSize: (size: number) => void;
+		setGridCellSizeY: (size: number) => void;
+		setGridType: (gridType: GridType) => void;
 		setStockLength: (length: number) => void;
+		setTJointType: (type: TJointType) => void;
 		toggleUnits: () => void;
 		handleParamChange: (
 			setter: (value: number) => void,
@@ -78,13 +115,23 @@ export interface ParamsContextValue {
 export interface DesignContextValue {
 	designState: {
 		lines: Map<string, Line>;
+		/** Construction lines, excluded from strips, notches and layout */
+		guides: Map<string, Line>;
 		drawingLine: Point | null;
 		isDeleting: boolean;
 		intersectionStates: Map<string, boolean>;
+		/** T-joint types chosen for single joints, keyed by grid point */
+		tJointTypes: Map<string, TJointType>;
 		zoomPanState: ZoomPanState | undefined;
+		referenceImage: ReferenceImage | undefined;
+		/** Outer frame of the panel, if one has been marked */
+		frame: FrameSettings | undefined;
 		intersections: Map<string, Intersection>;
+		tJoints: TJoint[];
 		designStrips: DesignStrip[];
 		lineLabelById: Map<string, string>;
+		selectedLineIds: Set<string>;
+		symmetry: SymmetrySettings;
 	};
 	designActions: {
 		setLines: (
@@ -92,16 +139,46 @@ export interface DesignContextValue {
 				| Map<string, Line>
 				| ((lines: Map<string, Line>) => Map<string, Line>),
 		) => void;
+		setGuides: (guides: Map<string, Line>) => void;
 		setIntersectionStates: (
 			updater:
 				| Map<string, boolean>
 				| ((states: Map<string, boolean>) => Map<string, boolean>),
 		) => void;
+		setTJointTypes: (types: Map<string, TJointType>) => void;
 		setZoomPanState: (state: ZoomPanState | undefined) => void;
+		setReferenceImage: (image: ReferenceImage | undefined) => void;
+		setFrame: (frame: FrameSettings | undefined) => void;
+		setSymmetry: (symmetry: SymmetrySettings) => void;
 		handleGridClick: (point: Point) => void;
 		handleDragUpdate: (start: Point, end: Point, isDeleting: boolean) => void;
 		handleCreateLine: (start: Point, end: Point) => void;
 		toggleIntersection: (id: string) => void;
+		/** Switch the T-joint at a grid point to the next joint type */
+		cycleTJointType: (x: number, y: number) => void;
+		setIntersectionStack: (id: string, stack: string[]) => void;
+		applyWeave: (strategy: WeaveStrategy) => void;
+		selectLines: (ids: string[], additive?: boolean) => void;
+		toggleLineSelection: (id: string) => void;
+		clearSelection: () => void;
+		moveSelection: (dx: number, dy: number) => void;
+		rotateSelection: () => void;
+		flipSelection: (direction: FlipDirection) => void;
+		arraySelection: (
+			countX: number,
+			countY: number,
+			stepX: number,
+			stepY: number,
+		) => void;
+		stampMotifInRange: (motif: Motif, start: Point, end: Point) => void;
+		toggleGuide: (start: Point, end: Point) => void;
+		clearGuides: () => void;
+		/** Returns false if the selection does not span a rectangle */
+		frameSelection: () => boolean;
+		deleteSelection: () => void;
+		duplicateSelection: () => void;
+		copySelection: () => string | null;
+		pasteLines: (text: string) => boolean;
 		clearDesignState: () => void;
 	};
 }
@@ -130,7 +207,11 @@ export interface LayoutContextValue {
 		deleteGroup: (id: string) => void;
 		renameGroup: (id: string, newName: string) => void;
 		handleLayoutClick: (point: Point, rowIndex: number) => void;
-		deleteLayoutItem: (type: "piece", id: string) => void;
+		addPieces: (pieces: Piece[]) => void;
+		setActiveGroupPieces: (pieces: Map<string, Piece>) => void;
+		movePieceToGroup: (pieceId: string, groupId: string, placed: Piece) => void;
+		addFullCut: (cut: Omit<Cut, "id">) => void;
+		deleteLayoutItem: (type: "piece" | "cut", id: string) => void;
 		clearLayoutState: () => void;
 	};
 }
@@ -157,6 +238,11 @@ export interface PersistenceContextValue {
 		handleLoadNamed: (name: string) => void;
 		handleDeleteNamed: (name: string) => void;
 		handleLoadTemplate: (templateId: string) => void;
+		handleApplyPattern: (
+			lines: Map<string, Line>,
+			gridType: GridType,
+			mode: PatternApplyMode,
+		) => void;
 		handleClear: () => void;
 	};
 }
@@ -176,6 +262,23 @@ export interface ViewSettingsContextValue {
 	};
 }
 
+/**
+ * History context value - undo/redo over lines, over/under choices and
+ * layout groups.
+ */
+export interface HistoryContextValue {
+	historyState: EditHistoryState;
+	historyActions: EditHistoryActions;
+}
+
+/**
+ * Motif context value - the stamp library of built-in and saved motifs.
+ */
+export interface MotifContextValue {
+	motifState: MotifLibraryState;
+	motifActions: MotifLibraryActions;
+}
+
 // ============================================================================
 // Combined Context Value Interface
 // ============================================================================
@@ -189,11 +292,19 @@ export interface KumikoContextValue
 		DesignContextValue,
 		LayoutContextValue,
 		ViewSettingsContextValue,
-		PersistenceContextValue {
+		PersistenceContextValue,
+		HistoryContextValue,
+		MotifContextValue {
 	// Current workflow step
 	step: AppStep;
 	setStep: (step: AppStep) => void;
 
+	// Issues that make the current design hard or impossible to cut
+	validationIssues: ValidationIssue[];
+
+	// Insertion order for the strips, or the stacking conflict preventing one
+	assemblyPlan: AssemblyPlan;
+
 	// UI helpers
 	openLoadDialog: () => void;
 	openTemplateDialog: () => void;
@@ -234,13 +345,44 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 
 	// Core hooks
 	const { params, actions: paramActions } = useKumikoParams();
+	const designStripOptions = useMemo(
+		() => ({
+			stripThickness: params.stripThickness,
+			gridType: params.gridType,
+			cutDepth: params.cutDepth,
+			gridCellSizeY: params.gridCellSizeY,
+			tJointType: params.tJointType,
+		}),
+		[
+			params.stripThickness,
+			params.gridType,
+			params.cutDepth,
+			params.gridCellSizeY,
+			params.tJointType,
+		],
+	);
 	const { state: designState, actions: designActions } = useKumikoDesign(
 		params.gridCellSize,
 		params.bitSize,
+		designStripOptions,
 	);
 	const { state: layoutState, actions: layoutActions } = useKumikoLayout({
 		onNotify,
 	});
+	const { state: motifState, actions: motifActions } = useMotifLibrary();
+
+	const validationIssues = useMemo(
+		() =>
+			validateDesign(designState.designStrips, {
+				bitSize: params.bitSize,
+				stockLength: params.stockLength,
+			}),
+		[designState.designStrips, params.bitSize, params.stockLength],
+	);
+	const assemblyPlan = useMemo(
+		() => planAssembly(designState.intersections, designState.designStrips),
+		[designState.intersections, designState.designStrips],
+	);
 	// View settings hook - handles UI toggles with independent localStorage persistence
 	const { state: viewSettingsState, actions: viewSettingsActions } =
 		useGridViewSettings();
@@ -252,26 +394,42 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 			bitSize: params.bitSize,
 			cutDepth: params.cutDepth,
 			halfCutDepth: params.halfCutDepth,
+			stripThickness: params.stripThickness,
 			gridCellSize: params.gridCellSize,
+			gridCellSizeY: params.gridCellSizeY,
+			gridType: params.gridType,
 			stockLength: params.stockLength,
+			tJointType: params.tJointType,
 			lines: designState.lines,
+			guides: designState.guides,
 			groups: layoutState.groups,
 			activeGroupId: layoutState.activeGroupId,
 			intersectionStates: designState.intersectionStates,
+			tJointTypes: designState.tJointTypes,
 			zoomPanState: designState.zoomPanState,
+			referenceImage: designState.referenceImage,
+			frame: designState.frame,
 		}),
 		[
 			params.units,
 			params.bitSize,
 			params.cutDepth,
 			params.halfCutDepth,
+			params.stripThickness,
 			params.gridCellSize,
+			params.gridCellSizeY,
+			params.gridType,
 			params.stockLength,
+			params.tJointType,
 			designState.lines,
+			designState.guides,
 			layoutState.groups,
 			layoutState.activeGroupId,
 			designState.intersectionStates,
+			designState.tJointTypes,
 			designState.zoomPanState,
+			designState.referenceImage,
+			designState.frame,
 		],
 	);
 
@@ -282,32 +440,48 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 			setBitSize: paramActions.setBitSize,
 			setCutDepth: paramActions.setCutDepth,
 			setHalfCutDepth: paramActions.setHalfCutDepth,
+			setStripThickness: paramActions.setStripThickness,
 			setGridCellSize: paramActions.setGridCellSize,
+			setGridCellSizeY: paramActions.setGridCellSizeY,
+			setGridType: paramActions.setGridType,
 			setStockLength: paramActions.setStockLength,
+			setTJointType: paramActions.setTJointType,
 		}),
 		[
 			paramActions.setUnits,
 			paramActions.setBitSize,
 			paramActions.setCutDepth,
 			paramActions.setHalfCutDepth,
+			paramActions.setStripThickness,
 			paramActions.setGridCellSize,
+			paramActions.setGridCellSizeY,
+			paramActions.setGridType,
 			paramActions.setStockLength,
+			paramActions.setTJointType,
 		],
 	);
 
 	const persistenceDesignActions = useMemo(
 		() => ({
 			setZoomPanState: designActions.setZoomPanState,
+			setReferenceImage: designActions.setReferenceImage,
+			setFrame: designActions.setFrame,
 			setLines: designActions.setLines as (
 				updater: (lines: Map<string, Line>) => Map<string, Line>,
 			) => void,
+			setGuides: designActions.setGuides,
 			setIntersectionStates: designActions.setIntersectionStates,
+			setTJointTypes: designActions.setTJointTypes,
 			clearDesignState: designActions.clearDesignState,
 		}),
 		[
 			designActions.setZoomPanState,
+			designActions.setReferenceImage,
+			designActions.setFrame,
 			designActions.setLines,
+			designActions.setGuides,
 			designActions.setIntersectionStates,
+			designActions.setTJointTypes,
 			designActions.clearDesignState,
 		],
 	);
@@ -337,6 +511,78 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 			onNotify,
 		});
 
+	// Edit history - one undo step per user edit to the design or layout
+	const historySnapshot = useMemo(
+		() => ({
+			lines: designState.lines,
+			guides: designState.guides,
+			frame: designState.frame,
+			intersectionStates: designState.intersectionStates,
+			tJointTypes: designState.tJointTypes,
+			groups: layoutState.groups,
+		}),
+		[
+			designState.lines,
+			designState.guides,
+			designState.frame,
+			designState.intersectionStates,
+			designState.tJointTypes,
+			layoutState.groups,
+		],
+	);
+	const restoreHistorySnapshot = useCallback(
+		(snapshot: typeof historySnapshot) => {
+			designActions.setLines(snapshot.lines);
+			designActions.setGuides(snapshot.guides);
+			designActions.setFrame(snapshot.frame);
+			designActions.setIntersectionStates(snapshot.intersectionStates);
+			designActions.setTJointTypes(snapshot.tJointTypes);
+			layoutActions.setGroups(snapshot.groups);
+			// Undoing "add group" may remove the active group
+			if (!snapshot.groups.has(layoutState.activeGroupId)) {
+				const first = snapshot.groups.keys().next().value;
+				if (first) layoutActions.setActiveGroupId(first);
+			}
+		},
+		[designActions, layoutActions, layoutState.activeGroupId],
+	);
+	const { state: historyState, actions: historyActions } = useEditHistory({
+		snapshot: historySnapshot,
+		restore: restoreHistorySnapshot,
+	});
+
+	// Swapping in a whole design is not an undoable edit. This runs after
+	// the history has recorded the load, so that step is dropped too.
+	useEffect(() => {
+		if (persistenceState.loadCount > 0) historyActions.clearHistory();
+	}, [persistenceState.loadCount, historyActions]);
+
+	// Undo/redo shortcuts, except while typing in a form field
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (!(event.ctrlKey || event.metaKey)) return;
+			if (
+				event.target instanceof Element &&
+				event.target.closest("input, textarea, select, [contenteditable]")
+			) {
+				return;
+			}
+
+			const key = event.key.toLowerCase();
+			if (key === "z") {
+				event.preventDefault();
+				if (event.shiftKey) historyActions.redo();
+				else historyActions.undo();
+			} else if (key === "y") {
+				event.preventDefault();
+				historyActions.redo();
+			}
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [historyActions]);
+
 	// Autosave effect - triggers whenever design data changes
 	useEffect(() => {
 		if (!persistenceState.isInitialized) return;
@@ -363,10 +609,52 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 		[designState.designStrips, params.bitSize, params.stockLength],
 	);
 
+	/**
+	 * Check the strips placed in the given groups before export. Errors block
+	 * the export; warnings are reported but the export goes ahead.
+	 * Returns whether the export may proceed.
+	 */
+	const confirmExportValidation = useCallback(
+		(groups: Group[]) => {
+			const stripIds = new Set(
+				groups.flatMap((group) =>
+					Array.from(group.pieces.values(), (piece) => piece.lineId),
+				),
+			);
+			const issues = validationIssues.filter((issue) =>
+				stripIds.has(issue.stripId),
+			);
+			const errorCodes = new Set(
+				issues
+					.filter((issue) => issue.severity === "error")
+					.map((issue) => issue.displayCode),
+			);
+
+			if (errorCodes.size > 0) {
+				onNotify(
+					"error",
+					`Export blocked: strips ${Array.from(errorCodes).join(", ")} cannot be cut. See the design check panel.`,
+				);
+				return false;
+			}
+
+			if (issues.length > 0) {
+				const warningCodes = new Set(issues.map((issue) => issue.displayCode));
+				onNotify(
+					"warning",
+					`Strips ${Array.from(warningCodes).join(", ")} have fragile notches. Check the design before cutting.`,
+				);
+			}
+			return true;
+		},
+		[validationIssues, onNotify],
+	);
+
 	const handleDownloadSVG = useCallback(
 		(passType?: ExportPassType) => {
 			const group = layoutState.activeGroup;
 			if (!group) return;
+			if (!confirmExportValidation([group])) return;
 
 			const baseName = group.name || "kumiko-group";
 			const baseOptions = createSvgOptions(group);
@@ -440,11 +728,16 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 			layoutState.activeGroup,
 			designState.designStrips,
 			createSvgOptions,
+			confirmExportValidation,
 			onNotify,
 		],
 	);
 
 	const handleDownloadAllGroupsSVG = useCallback(() => {
+		if (!confirmExportValidation(Array.from(layoutState.groups.values()))) {
+			return;
+		}
+
 		const files: { filename: string; svg: string }[] = [];
 
 		for (const group of layoutState.groups.values()) {
@@ -499,6 +792,7 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 		layoutState.groups,
 		designState.designStrips,
 		createSvgOptions,
+		confirmExportValidation,
 		onNotify,
 	]);
 
@@ -527,6 +821,12 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 			viewSettingsActions,
 			persistenceState,
 			persistenceActions,
+			historyState,
+			historyActions,
+			motifState,
+			motifActions,
+			validationIssues,
+			assemblyPlan,
 			openLoadDialog,
 			openTemplateDialog,
 			handleDownloadSVG,
@@ -545,6 +845,12 @@ export function KumikoProvider({ children }: KumikoProviderProps) {
 			viewSettingsActions,
 			persistenceState,
 			persistenceActions,
+			historyState,
+			historyActions,
+			motifState,
+			motifActions,
+			validationIssues,
+			assemblyPlan,
 			openLoadDialog,
 			openTemplateDialog,
 			handleDownloadSVG,
@@ -4,9 +4,14 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { NotifyCallback } from "../lib/errors";
 import type {
+	FrameSettings,
+	GridType,
 	Group,
 	Line,
+	PatternApplyMode,
+	ReferenceImage,
 	SavedDesignPayload,
+	TJointType,
 	ZoomPanState,
 } from "../lib/kumiko";
 import {
@@ -18,6 +23,8 @@ import {
 	loadDesign,
 	loadNamedDesign,
 	loadTemplate,
+	migrateIntersectionStates,
+	normalizeLines,
 	saveNamedDesign,
 } from "../lib/kumiko";
 import { downloadJSON } from "../lib/utils/download";
@@ -27,6 +34,11 @@ export interface DesignPersistenceState {
 	designName: string;
 	namedDesigns: { name: string; savedAt: string }[];
 	isInitialized: boolean;
+	/**
+	 * Bumped whenever a whole design is swapped in (loaded, imported, from a
+	 * template or generated), which is not an undoable edit
+	 */
+	loadCount: number;
 	showLoadDialog: boolean;
 	showTemplateDialog: boolean;
 }
@@ -37,15 +49,23 @@ export interface ApplyDesignParams {
 		setBitSize: (size: number) => void;
 		setCutDepth: (depth: number) => void;
 		setHalfCutDepth: (depth: number) => void;
+		setStripThickness: (thickness: number) => void;
 		setGridCellSize: (size: number) => void;
+		setGridCellSizeY: (size: number) => void;
+		setGridType: (gridType: GridType) => void;
 		setStockLength: (length: number) => void;
+		setTJointType: (type: TJointType) => void;
 	};
 	designActions: {
 		setZoomPanState: (state: ZoomPanState | undefined) => void;
+		setReferenceImage: (image: ReferenceImage | undefined) => void;
+		setFrame: (frame: FrameSettings | undefined) => void;
 		setLines: (
 			updater: (lines: Map<string, Line>) => Map<string, Line>,
 		) => void;
+		setGuides: (guides: Map<string, Line>) => void;
 		setIntersectionStates: (states: Map<string, boolean>) => void;
+		setTJointTypes: (types: Map<string, TJointType>) => void;
 		clearDesignState: () => void;
 	};
 	layoutActions: {
@@ -63,13 +83,21 @@ export interface DesignPayloadData {
 	bitSize: number;
 	cutDepth: number;
 	halfCutDepth: number;
+	stripThickness: number;
 	gridCellSize: number;
+	gridCellSizeY: number;
+	gridType: GridType;
 	stockLength: number;
+	tJointType: TJointType;
 	lines: Map<string, Line>;
+	guides: Map<string, Line>;
 	groups: Map<string, Group>;
 	activeGroupId: string;
 	intersectionStates: Map<string, boolean>;
+	tJointTypes: Map<string, TJointType>;
 	zoomPanState?: ZoomPanState;
+	referenceImage?: ReferenceImage;
+	frame?: FrameSettings;
 }
 
 export interface UseDesignPersistenceOptions extends ApplyDesignParams {
@@ -88,6 +116,11 @@ export interface DesignPersistenceActions {
 	handleLoadNamed: (name: string) => void;
 	handleDeleteNamed: (name: string) => void;
 	handleLoadTemplate: (templateId: string) => Promise<void>;
+	handleApplyPattern: (
+		lines: Map<string, Line>,
+		gridType: GridType,
+		mode: PatternApplyMode,
+	) => void;
 	handleExportJSON: () => void;
 	handleImportJSON: (event: React.ChangeEvent<HTMLInputElement>) => void;
 	refreshNamedDesigns: () => void;
@@ -108,6 +141,7 @@ export function useDesignPersistence({
 		{ name: string; savedAt: string }[]
 	>([]);
 	const [isInitialized, setIsInitialized] = useState(false);
+	const [loadCount, setLoadCount] = useState(0);
 	const [showLoadDialog, setShowLoadDialog] = useState(false);
 	const [showTemplateDialog, setShowTemplateDialog] = useState(false);
 
@@ -132,10 +166,18 @@ export function useDesignPersistence({
 			paramActions.setBitSize(loaded.bitSize);
 			paramActions.setCutDepth(loaded.cutDepth);
 			paramActions.setHalfCutDepth(loaded.halfCutDepth);
+			// Older designs assumed strips exactly as thick as the bit
+			paramActions.setStripThickness(loaded.stripThickness ?? loaded.bitSize);
 			paramActions.setGridCellSize(loaded.gridCellSize);
+			// Older designs only had square cells
+			paramActions.setGridCellSizeY(
+				loaded.gridCellSizeY ?? loaded.gridCellSize,
+			);
+			paramActions.setGridType(loaded.gridType ?? "square");
 			paramActions.setStockLength(
 				typeof loaded.stockLength === "number" ? loaded.stockLength : 600,
 			);
+			paramActions.setTJointType(loaded.tJointType ?? "butt");
 
 			// Extract zoom/pan state from gridViewState (for backward compatibility)
 			// View settings (showNotchPositions, etc.) are now stored separately
@@ -145,6 +187,8 @@ export function useDesignPersistence({
 			} else {
 				designActions.setZoomPanState(undefined);
 			}
+			designActions.setReferenceImage(loaded.referenceImage);
+			designActions.setFrame(loaded.frame);
 
 			designActions.setLines(() => {
 				const next = new Map<string, Line>();
@@ -153,6 +197,9 @@ export function useDesignPersistence({
 				}
 				return next;
 			});
+			designActions.setGuides(
+				new Map((loaded.guides ?? []).map((guide) => [guide.id, { ...guide }])),
+			);
 
 			layoutActions.setGroups(() => {
 				const next = new Map<string, Group>();
@@ -180,13 +227,24 @@ export function useDesignPersistence({
 			layoutActions.setActiveGroupId(loaded.activeGroupId);
 			setDesignName(loaded.designName ?? "");
 
-			// Load intersection states if available
+			// Load intersection states if available. Older designs keyed them by
+			// line ids, which are converted to geometry keys using the saved lines.
 			if (loaded.intersectionStates) {
-				designActions.setIntersectionStates(new Map(loaded.intersectionStates));
+				const savedLines = new Map(
+					loaded.lines.map((line) => [line.id, { ...line }]),
+				);
+				designActions.setIntersectionStates(
+					migrateIntersectionStates(
+						savedLines,
+						new Map(loaded.intersectionStates),
+					),
+				);
 			} else {
 				designActions.setIntersectionStates(new Map());
 			}
+			designActions.setTJointTypes(new Map(loaded.tJointTypes ?? []));
 			setIsInitialized(true);
+			setLoadCount((count) => count + 1);
 		},
 		[paramActions, designActions, layoutActions],
 	);
@@ -308,6 +366,28 @@ export function useDesignPersistence({
 		[applyLoadedDesign, notify],
 	);
 
+	/**
+	 * Use generated pattern lines, either as a new design on the generator's
+	 * lattice or merged into the current lines.
+	 */
+	const handleApplyPattern = useCallback(
+		(lines: Map<string, Line>, gridType: GridType, mode: PatternApplyMode) => {
+			if (mode === "merge") {
+				designActions.setLines((prev) =>
+					normalizeLines(new Map([...prev, ...lines])),
+				);
+				return;
+			}
+
+			designActions.clearDesignState();
+			layoutActions.clearLayoutState();
+			paramActions.setGridType(gridType);
+			designActions.setLines(() => new Map(lines));
+			setLoadCount((count) => count + 1);
+		},
+		[designActions, layoutActions, paramActions],
+	);
+
 	const handleExportJSON = useCallback(() => {
 		const data = getCurrentPayloadDataRef.current();
 		const currentName = designNameRef.current;
@@ -376,6 +456,7 @@ export function useDesignPersistence({
 			designName,
 			namedDesigns,
 			isInitialized,
+			loadCount,
 			showLoadDialog,
 			showTemplateDialog,
 		},
@@ -388,6 +469,7 @@ export function useDesignPersistence({
 			handleLoadNamed,
 			handleDeleteNamed,
 			handleLoadTemplate,
+			handleApplyPattern,
 			handleExportJSON,
 			handleImportJSON,
 			refreshNamedDesigns,
@@ -0,0 +1,101 @@
+import { act, renderHook } from "@testing-library/react";
+import { useMemo, useState } from "react";
+import { describe, expect, it } from "vitest";
+import { useEditHistory } from "./useEditHistory";
+
+/** Two independent pieces of state tracked by one history, like lines and groups */
+function useTrackedState(limit?: number) {
+	const [a, setA] = useState(0);
+	const [b, setB] = useState("x");
+	const snapshot = useMemo(() => ({ a, b }), [a, b]);
+	const history = useEditHistory({
+		snapshot,
+		restore: (s) => {
+			setA(s.a);
+			setB(s.b);
+		},
+		limit,
+	});
+	return { a, b, setA, setB, ...history };
+}
+
+describe("useEditHistory", () => {
+	it("should start with nothing to undo or redo", () => {
+		const { result } = renderHook(() => useTrackedState());
+
+		expect(result.current.state.canUndo).toBe(false);
+		expect(result.current.state.canRedo).toBe(false);
+	});
+
+	it("should undo and redo edits", () => {
+		const { result } = renderHook(() => useTrackedState());
+
+		act(() => result.current.setA(1));
+		act(() => result.current.setB("y"));
+		expect(result.current.state.canUndo).toBe(true);
+
+		act(() => result.current.actions.undo());
+		expect(result.current.a).toBe(1);
+		expect(result.current.b).toBe("x");
+		expect(result.current.state.canRedo).toBe(true);
+
+		act(() => result.current.actions.undo());
+		expect(result.current.a).toBe(0);
+		expect(result.current.state.canUndo).toBe(false);
+
+		act(() => result.current.actions.redo());
+		act(() => result.current.actions.redo());
+		expect(result.current.a).toBe(1);
+		expect(result.current.b).toBe("y");
+		expect(result.current.state.canRedo).toBe(false);
+	});
+
+	it("should record updates made together as a single step", () => {
+		const { result } = renderHook(() => useTrackedState());
+
+		act(() => {
+			result.current.setA(5);
+			result.current.setB("z");
+		});
+		act(() => result.current.actions.undo());
+
+		expect(result.current.a).toBe(0);
+		expect(result.current.b).toBe("x");
+		expect(result.current.state.canUndo).toBe(false);
+	});
+
+	it("should drop the redo stack after a new edit", () => {
+		const { result } = renderHook(() => useTrackedState());
+
+		act(() => result.current.setA(1));
+		act(() => result.current.actions.undo());
+		act(() => result.current.setB("new"));
+
+		expect(result.current.state.canRedo).toBe(false);
+	});
+
+	it("should keep at most `limit` undo steps", () => {
+		const { result } = renderHook(() => useTrackedState(2));
+
+		for (let i = 1; i <= 4; i++) {
+			act(() => result.current.setA(i));
+		}
+		act(() => result.current.actions.undo());
+		act(() => result.current.actions.undo());
+		act(() => result.current.actions.undo());
+
+		expect(result.current.a).toBe(2);
+		expect(result.current.state.canUndo).toBe(false);
+	});
+
+	it("should forget all steps when the history is cleared", () => {
+		const { result } = renderHook(() => useTrackedState());
+
+		act(() => result.current.setA(1));
+		act(() => result.current.actions.clearHistory());
+
+		expect(result.current.state.canUndo).toBe(false);
+		act(() => result.current.actions.undo());
+		expect(result.current.a).toBe(1);
+	});
+});
@@ -0,0 +1,116 @@
+/**
+ * Hook for undo/redo over snapshots of editable state.
+ *
+ * The hook watches a snapshot object whose fields are immutable values (new
+ * Maps on every edit). Whenever a field changes identity the previous
+ * snapshot is pushed onto the undo stack, so every state update that lands
+ * in one render becomes a single undo step.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { MAX_HISTORY_DEPTH } from "../lib/kumiko/config";
+
+export interface UseEditHistoryOptions<T extends object> {
+	/** Current state; memoize it so it only changes when a field changes */
+	snapshot: T;
+	/** Apply a snapshot from the history back to the live state */
+	restore: (snapshot: T) => void;
+	/** Maximum number of undo steps to keep */
+	limit?: number;
+}
+
+export interface EditHistoryState {
+	canUndo: boolean;
+	canRedo: boolean;
+}
+
+export interface EditHistoryActions {
+	undo: () => void;
+	redo: () => void;
+	/** Forget all undo and redo steps (e.g. after loading a design) */
+	clearHistory: () => void;
+}
+
+/** Whether two snapshots hold the same value in every field */
+function isSameSnapshot<T extends object>(a: T, b: T): boolean {
+	const keys = Object.keys(a) as (keyof T)[];
+	return (
+		keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+	);
+}
+
+export function useEditHistory<T extends object>({
+	snapshot,
+	restore,
+	limit = MAX_HISTORY_DEPTH,
+}: UseEditHistoryOptions<T>): {
+	state: EditHistoryState;
+	actions: EditHistoryActions;
+} {
+	const pastRef = useRef<T[]>([]);
+	const futureRef = useRef<T[]>([]);
+	const currentRef = useRef(snapshot);
+	// Snapshot being restored by undo/redo, which must not be recorded again
+	const restoringRef = useRef<T | null>(null);
+	const restoreRef = useRef(restore);
+	restoreRef.current = restore;
+
+	const [sizes, setSizes] = useState({ past: 0, future: 0 });
+	const syncSizes = useCallback(() => {
+		setSizes({
+			past: pastRef.current.length,
+			future: futureRef.current.length,
+		});
+	}, []);
+
+	useEffect(() => {
+		const previous = currentRef.current;
+		if (isSameSnapshot(previous, snapshot)) return;
+		currentRef.current = snapshot;
+
+		const restoring = restoringRef.current;
+		restoringRef.current = null;
+		if (restoring && isSameSnapshot(restoring, snapshot)) return;
+
+		pastRef.current = [...pastRef.current, previous].slice(-limit);
+		futureRef.current = [];
+		syncSizes();
+	}, [snapshot, limit, syncSizes]);
+
+	const undo = useCallback(() => {
+		const target = pastRef.current.at(-1);
+		if (!target) return;
+		pastRef.current = pastRef.current.slice(0, -1);
+		futureRef.current = [currentRef.current, ...futureRef.current];
+		restoringRef.current = target;
+		restoreRef.current(target);
+		syncSizes();
+	}, [syncSizes]);
+
+	const redo = useCallback(() => {
+		const [target, ...rest] = futureRef.current;
+		if (!target) return;
+		futureRef.current = rest;
+		pastRef.current = [...pastRef.current, currentRef.current].slice(-limit);
+		restoringRef.current = target;
+		restoreRef.current(target);
+		syncSizes();
+	}, [limit, syncSizes]);
+
+	const clearHistory = useCallback(() => {
+		pastRef.current = [];
+		futureRef.current = [];
+		syncSizes();
+	}, [syncSizes]);
+
+	const state = useMemo(
+		() => ({ canUndo: sizes.past > 0, canRedo: sizes.future > 0 }),
+		[sizes],
+	);
+
+	const actions = useMemo(
+		() => ({ undo, redo, clearHistory }),
+		[undo, redo, clearHistory],
+	);
+
+	return { state, actions };
+}
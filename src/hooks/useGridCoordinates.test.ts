@@ -52,6 +52,25 @@ describe("useGridCoordinates", () => {
 		expect(svgPoint).toEqual({ x: 50, y: 50 });
 	});
 
+	it("should place triangular lattice points on 60° rows", () => {
+		const svgRef = { current: null };
+		const contentGroupRef = { current: null };
+
+		const { result } = renderHook(() =>
+			useGridCoordinates({
+				svgRef,
+				contentGroupRef,
+				cellSize,
+				gridExtentCells,
+				gridType: "triangular",
+			}),
+		);
+
+		const svgPoint = result.current.gridToSvg({ x: 2, y: 2 });
+		expect(svgPoint.x).toBeCloseTo(30, 10);
+		expect(svgPoint.y).toBeCloseTo(10 * Math.sqrt(3), 10);
+	});
+
 	it("should convert screen coordinates to grid coordinates", () => {
 		// Mock result: 50px -> 5 grid units
 		const mockSvg = createMockSvg({ x: 50, y: 50 });
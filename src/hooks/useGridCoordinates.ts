@@ -1,11 +1,18 @@
 import { useCallback } from "react";
-import type { Point } from "../lib/kumiko";
+import {
+	type GridType,
+	latticeToCartesian,
+	type Point,
+	snapToLattice,
+} from "../lib/kumiko";
 
 interface UseGridCoordinatesProps {
 	svgRef: React.RefObject<SVGSVGElement | null>;
 	contentGroupRef: React.RefObject<SVGGElement | null>;
 	cellSize: number;
 	gridExtentCells: number;
+	/** Lattice to snap to (defaults to a square grid) */
+	gridType?: GridType;
 }
 
 export function useGridCoordinates({
@@ -13,6 +20,7 @@ export function useGridCoordinates({
 	contentGroupRef,
 	cellSize,
 	gridExtentCells,
+	gridType = "square",
 }: UseGridCoordinatesProps) {
 	/**
 	 * Convert screen coordinates to grid coordinates using proper SVG transformation
@@ -38,42 +46,43 @@ export function useGridCoordinates({
 				// Transform screen coordinates to SVG coordinates
 				const svgPt = pt.matrixTransform(matrix.inverse());
 
-				// Convert SVG coordinates to grid coordinates using uniform cell size
-				const gridX = svgPt.x / cellSize;
-				const gridY = svgPt.y / cellSize;
+				// Convert SVG coordinates to Cartesian cell units
+				const cellX = svgPt.x / cellSize;
+				const cellY = svgPt.y / cellSize;
 
-				// Clamp to grid bounds (treat grid as a large fixed extent)
+				// Clamp to the visible design area (treat grid as a large fixed extent)
+				const maxCellY = latticeToCartesian(0, gridExtentCells, gridType).y;
 				if (
-					gridX < 0 ||
-					gridX > gridExtentCells ||
-					gridY < 0 ||
-					gridY > gridExtentCells
+					cellX < 0 ||
+					cellX > gridExtentCells ||
+					cellY < 0 ||
+					cellY > maxCellY
 				) {
 					return null;
 				}
 
-				// Snap to nearest grid point
-				return {
-					x: Math.round(gridX),
-					y: Math.round(gridY),
-				};
+				// Snap to nearest lattice point
+				return snapToLattice(cellX, cellY, gridType);
 			} catch (error) {
 				console.error("Error converting coordinates:", error);
 				return null;
 			}
 		},
-		[cellSize, gridExtentCells, svgRef, contentGroupRef],
+		[cellSize, gridExtentCells, gridType, svgRef, contentGroupRef],
 	);
 
 	/**
 	 * Convert grid coordinates to SVG viewBox coordinates
 	 */
 	const gridToSvg = useCallback(
-		(point: Point): { x: number; y: number } => ({
-			x: point.x * cellSize,
-			y: point.y * cellSize,
-		}),
-		[cellSize],
+		(point: Point): { x: number; y: number } => {
+			const cartesian = latticeToCartesian(point.x, point.y, gridType);
+			return {
+				x: cartesian.x * cellSize,
+				y: cartesian.y * cellSize,
+			};
+		},
+		[cellSize, gridType],
 	);
 
 	return { screenToGrid, gridToSvg };
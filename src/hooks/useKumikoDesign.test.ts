@@ -1,5 +1,6 @@
 import { act, renderHook } from "@testing-library/react";
 import { describe, expect, it } from "vitest";
+import { BUILT_IN_MOTIFS } from "../lib/kumiko";
 import { useKumikoDesign } from "./useKumikoDesign";
 
 describe("useKumikoDesign", () => {
@@ -86,4 +87,380 @@ describe("useKumikoDesign", () => {
 			result.current.state.intersections.get(intersectionId)?.line1Over;
 		expect(toggledOver).toBe(!initialOver);
 	});
+
+	it("should keep over/under choices when other lines are drawn", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 5 }, { x: 10, y: 5 });
+			result.current.actions.handleCreateLine({ x: 5, y: 0 }, { x: 5, y: 10 });
+		});
+
+		const [int] = Array.from(result.current.state.intersections.values());
+		act(() => {
+			result.current.actions.toggleIntersection(int.id);
+		});
+		const toggledOver = !int.line1Over;
+
+		// An unrelated line plus an extension that re-normalizes the horizontal line
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 8 }, { x: 4, y: 8 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 10, y: 5 }, { x: 12, y: 5 });
+		});
+
+		const after = Array.from(result.current.state.intersections.values()).find(
+			(i) => i.x === 5 && i.y === 5,
+		);
+		if (!after) throw new Error("Intersection not found");
+		const horizontalOver =
+			result.current.state.lines.get(after.line1Id)?.y1 ===
+			result.current.state.lines.get(after.line1Id)?.y2
+				? after.line1Over
+				: !after.line1Over;
+		expect(horizontalOver).toBe(toggledOver);
+	});
+
+	it("should reorder and cycle multi-way joint stacks", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 5 }, { x: 10, y: 5 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 5, y: 0 }, { x: 5, y: 10 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 10, y: 10 });
+		});
+
+		const [int] = Array.from(result.current.state.intersections.values());
+		const stack = int.stack ?? [];
+		expect(stack).toHaveLength(3);
+
+		const reversed = [...stack].reverse();
+		act(() => {
+			result.current.actions.setIntersectionStack(int.id, reversed);
+		});
+		expect(result.current.state.intersections.get(int.id)?.stack).toEqual(
+			reversed,
+		);
+
+		act(() => {
+			result.current.actions.toggleIntersection(int.id);
+		});
+		expect(result.current.state.intersections.get(int.id)?.stack).toEqual([
+			reversed[1],
+			reversed[2],
+			reversed[0],
+		]);
+	});
+
+	it("should apply a weave strategy to every crossing", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 1 }, { x: 4, y: 1 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 1, y: 0 }, { x: 1, y: 4 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 2, y: 0 }, { x: 2, y: 4 });
+		});
+
+		act(() => {
+			result.current.actions.applyWeave("alternating");
+		});
+
+		const overs = Array.from(result.current.state.intersections.values())
+			.sort((a, b) => a.x - b.x)
+			.map((i) => i.line1Over);
+		expect(overs).toEqual([true, false]);
+	});
+
+	it("should move a selection and keep its over/under choices", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 1 }, { x: 2, y: 1 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 1, y: 0 }, { x: 1, y: 2 });
+		});
+		const [int] = Array.from(result.current.state.intersections.values());
+		act(() => {
+			result.current.actions.toggleIntersection(int.id);
+		});
+		const topBefore = result.current.state.intersections.get(int.id)?.line1Over
+			? int.line1Id
+			: int.line2Id;
+		const topIsVertical = (() => {
+			const top = result.current.state.lines.get(topBefore);
+			return top?.x1 === top?.x2;
+		})();
+
+		act(() => {
+			result.current.actions.selectLines(
+				Array.from(result.current.state.lines.keys()),
+			);
+		});
+		act(() => {
+			result.current.actions.moveSelection(3, 2);
+		});
+
+		const [moved] = Array.from(result.current.state.intersections.values());
+		expect(moved).toMatchObject({ x: 4, y: 3 });
+		const top = result.current.state.lines.get(
+			moved.line1Over ? moved.line1Id : moved.line2Id,
+		);
+		expect(top?.x1 === top?.x2).toBe(topIsVertical);
+		expect(result.current.state.selectedLineIds.size).toBe(2);
+	});
+
+	it("should paste copied lines next to the originals", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 2, y: 0 });
+		});
+		act(() => {
+			result.current.actions.selectLines(
+				Array.from(result.current.state.lines.keys()),
+			);
+		});
+		const text = result.current.actions.copySelection();
+		expect(text).not.toBeNull();
+
+		let pasted = false;
+		act(() => {
+			pasted = result.current.actions.pasteLines(text ?? "");
+		});
+
+		expect(pasted).toBe(true);
+		expect(result.current.state.lines.size).toBe(2);
+		const [selectedId] = Array.from(result.current.state.selectedLineIds);
+		expect(result.current.state.lines.get(selectedId)).toMatchObject({
+			x1: 1,
+			y1: 1,
+			x2: 3,
+			y2: 1,
+		});
+	});
+
+	it("should delete the selected lines", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 2, y: 0 });
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 3 }, { x: 2, y: 3 });
+		});
+		const [first] = Array.from(result.current.state.lines.keys());
+		act(() => {
+			result.current.actions.selectLines([first]);
+		});
+		act(() => {
+			result.current.actions.deleteSelection();
+		});
+
+		expect(result.current.state.lines.size).toBe(1);
+		expect(result.current.state.lines.has(first)).toBe(false);
+		expect(result.current.state.selectedLineIds.size).toBe(0);
+	});
+
+	it("should draw and erase symmetric copies of a stroke", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.setSymmetry({
+				mode: "mirror-horizontal",
+				center: { x: 5, y: 0 },
+			});
+		});
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 6, y: 1 }, { x: 8, y: 1 });
+		});
+
+		const segments = Array.from(result.current.state.lines.values())
+			.map((l) => [Math.min(l.x1, l.x2), Math.max(l.x1, l.x2)])
+			.sort((a, b) => a[0] - b[0]);
+		expect(segments).toEqual([
+			[2, 4],
+			[6, 8],
+		]);
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 6, y: 1 }, { x: 8, y: 1 });
+		});
+		expect(result.current.state.lines.size).toBe(0);
+	});
+
+	it("should repeat a selection over an array", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 2, y: 0 });
+		});
+		act(() => {
+			result.current.actions.selectLines(
+				Array.from(result.current.state.lines.keys()),
+			);
+		});
+		act(() => {
+			result.current.actions.arraySelection(3, 2, 2, 4);
+		});
+
+		// Each row merges into one line from x = 0 to x = 6
+		const rows = Array.from(result.current.state.lines.values())
+			.map((l) => ({ y: l.y1, length: Math.abs(l.x2 - l.x1) }))
+			.sort((a, b) => a.y - b.y);
+		expect(rows).toEqual([
+			{ y: 0, length: 6 },
+			{ y: 4, length: 6 },
+		]);
+		expect(result.current.state.selectedLineIds.size).toBe(2);
+	});
+
+	it("should stamp a motif into a range of cells", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+		const cross = BUILT_IN_MOTIFS.find((motif) => motif.id === "cross");
+		if (!cross) throw new Error("Missing cross motif");
+
+		act(() => {
+			result.current.actions.stampMotifInRange(
+				cross,
+				{ x: 0, y: 0 },
+				{ x: 5, y: 1 },
+			);
+		});
+
+		// Three cells in a row: the horizontal arms join into one strip
+		const lines = Array.from(result.current.state.lines.values());
+		const horizontal = lines.filter((l) => l.y1 === l.y2);
+		expect(horizontal).toHaveLength(1);
+		expect(Math.abs(horizontal[0].x2 - horizontal[0].x1)).toBe(6);
+		expect(lines.length - horizontal.length).toBe(3);
+	});
+
+	it("should keep guides out of strips and intersections", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 2 }, { x: 4, y: 2 });
+			result.current.actions.toggleGuide({ x: 2, y: 0 }, { x: 2, y: 4 });
+		});
+		expect(result.current.state.guides.size).toBe(1);
+		expect(result.current.state.lines.size).toBe(1);
+		expect(result.current.state.designStrips).toHaveLength(1);
+		expect(result.current.state.intersections.size).toBe(0);
+
+		// Dragging the same guide again (in either direction) removes it
+		act(() => {
+			result.current.actions.toggleGuide({ x: 2, y: 4 }, { x: 2, y: 0 });
+		});
+		expect(result.current.state.guides.size).toBe(0);
+	});
+
+	it("should drop the reference image when the design is cleared", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.setReferenceImage({
+				dataUrl: "data:image/png;base64,",
+				width: 20,
+				aspectRatio: 0.5,
+				centerX: 10,
+				centerY: 5,
+				rotation: 0,
+				opacity: 0.5,
+				visible: true,
+			});
+		});
+		expect(result.current.state.referenceImage?.width).toBe(20);
+
+		act(() => {
+			result.current.actions.clearDesignState();
+		});
+		expect(result.current.state.referenceImage).toBeUndefined();
+	});
+
+	it("should cycle a T-joint through the joint types", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 4, y: 0 });
+			result.current.actions.handleCreateLine({ x: 2, y: 0 }, { x: 2, y: 3 });
+		});
+		expect(result.current.state.tJoints).toHaveLength(1);
+		expect(result.current.state.tJoints[0].type).toBe("butt");
+
+		const types: string[] = [];
+		for (let i = 0; i < 3; i++) {
+			act(() => {
+				result.current.actions.cycleTJointType(2, 0);
+			});
+			types.push(result.current.state.tJoints[0].type);
+		}
+		expect(types).toEqual(["tenon", "half-lap", "butt"]);
+		// Back at the design default, the override is dropped
+		expect(result.current.state.tJointTypes.size).toBe(0);
+	});
+
+	it("should make the selection the frame and lengthen its members", () => {
+		const { result } = renderHook(() => useKumikoDesign(gridCellSize, bitSize));
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 4, y: 0 });
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 0, y: 3 });
+		});
+		act(() => {
+			result.current.actions.selectLines(
+				Array.from(result.current.state.lines.keys()),
+			);
+		});
+
+		let framed = false;
+		act(() => {
+			framed = result.current.actions.frameSelection();
+		});
+		expect(framed).toBe(true);
+		expect(result.current.state.frame).toMatchObject({
+			x1: 0,
+			y1: 0,
+			x2: 4,
+			y2: 3,
+		});
+
+		const frameWidth = result.current.state.frame?.width ?? 0;
+		const rail = result.current.state.designStrips.find(
+			(strip) => strip.frameMember === "rail",
+		);
+		expect(rail?.lengthMM).toBeCloseTo(4 * gridCellSize + frameWidth, 5);
+	});
+
+	it("should not make a frame on the triangular grid", () => {
+		const { result } = renderHook(() =>
+			useKumikoDesign(gridCellSize, bitSize, { gridType: "triangular" }),
+		);
+
+		act(() => {
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 4, y: 0 });
+			result.current.actions.handleCreateLine({ x: 0, y: 0 }, { x: 0, y: 3 });
+		});
+		act(() => {
+			result.current.actions.selectLines(
+				Array.from(result.current.state.lines.keys()),
+			);
+		});
+
+		let framed = true;
+		act(() => {
+			framed = result.current.actions.frameSelection();
+		});
+		expect(framed).toBe(false);
+		expect(result.current.state.frame).toBeUndefined();
+	});
 });
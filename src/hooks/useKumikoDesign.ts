@@ -1,27 +1,125 @@
 import { useCallback, useMemo, useRef, useState } from "react";
 import {
+	applyCrossingOrder,
+	applyIntersectionStack,
+	arrayLines,
 	computeDesignStrips,
 	computeIntersections,
 	computeLineOverlaps,
+	computeTJoints,
+	crossingsAmong,
 	type DesignStrip,
+	type DesignStripOptions,
+	defaultSymmetryCenter,
+	type FlipDirection,
+	type FrameSettings,
+	flipLines,
+	frameFromLines,
 	type Intersection,
 	type Line,
+	linesCoveredBy,
+	type Motif,
+	motifCellsInRange,
 	newId,
 	normalizeLines,
 	type Point,
+	parseLinesFromClipboard,
+	type ReferenceImage,
+	rotateLinesClockwise,
+	type SymmetrySettings,
+	serializeLinesForClipboard,
+	setIntersectionOrientation,
+	solveWeave,
+	stampMotif,
+	symmetricSegments,
+	type TJoint,
+	type TJointType,
+	tJointKey,
+	translateLines,
+	type WeaveStrategy,
 	type ZoomPanState,
 } from "../lib/kumiko";
 
-export function useKumikoDesign(gridCellSize: number, bitSize: number) {
+/** Offset applied to duplicated and pasted lines so they don't merge in place */
+const COPY_OFFSET = 1;
+
+/** Order in which clicking a T-joint marker switches its joint type */
+const T_JOINT_CYCLE: TJointType[] = ["butt", "tenon", "half-lap"];
+
+/**
+ * Remove the part of every line that the segment runs along, keeping the
+ * pieces before and after the overlap.
+ */
+function eraseSegment(
+	lines: Map<string, Line>,
+	start: Point,
+	end: Point,
+): Map<string, Line> {
+	const next = new Map(lines);
+	for (const { line, tStart, tEnd } of computeLineOverlaps(lines, start, end)) {
+		next.delete(line.id);
+
+		// Keep segment before overlap (if exists)
+		if (tStart > 0.001) {
+			const id = newId();
+			const before: Line = {
+				id,
+				x1: line.x1,
+				y1: line.y1,
+				x2: Math.round(line.x1 + tStart * (line.x2 - line.x1)),
+				y2: Math.round(line.y1 + tStart * (line.y2 - line.y1)),
+			};
+			next.set(id, before);
+		}
+
+		// Keep segment after overlap (if exists)
+		if (tEnd < 0.999) {
+			const id = newId();
+			const after: Line = {
+				id,
+				x1: Math.round(line.x1 + tEnd * (line.x2 - line.x1)),
+				y1: Math.round(line.y1 + tEnd * (line.y2 - line.y1)),
+				x2: line.x2,
+				y2: line.y2,
+			};
+			next.set(id, after);
+		}
+	}
+	return next;
+}
+
+export function useKumikoDesign(
+	gridCellSize: number,
+	bitSize: number,
+	options: DesignStripOptions = {},
+) {
+	const { stripThickness, gridType, cutDepth, gridCellSizeY, tJointType } =
+		options;
+
 	const [lines, setLines] = useState<Map<string, Line>>(new Map());
+	// Construction lines: drawn on the lattice but never turned into strips
+	const [guides, setGuides] = useState<Map<string, Line>>(new Map());
 	const [drawingLine, setDrawingLine] = useState<Point | null>(null);
 	const [isDeleting, setIsDeleting] = useState<boolean>(false);
 	const [intersectionStates, setIntersectionStates] = useState<
 		Map<string, boolean>
 	>(new Map());
+	// Joint types chosen for single T-joints, overriding tJointType
+	const [tJointTypes, setTJointTypes] = useState<Map<string, TJointType>>(
+		new Map(),
+	);
 	const [zoomPanState, setZoomPanState] = useState<ZoomPanState | undefined>(
 		undefined,
 	);
+	const [referenceImage, setReferenceImage] = useState<
+		ReferenceImage | undefined
+	>(undefined);
+	const [frame, setFrame] = useState<FrameSettings | undefined>(undefined);
+	const [selection, setSelection] = useState<Set<string>>(new Set());
+	const [symmetry, setSymmetry] = useState<SymmetrySettings>(() => ({
+		mode: "none",
+		center: defaultSymmetryCenter(gridType),
+	}));
 
 	// Derived intersections - ensures only one notch per coordinate
 	const intersections = useMemo<Map<string, Intersection>>(
@@ -29,15 +127,53 @@ export function useKumikoDesign(gridCellSize: number, bitSize: number) {
 		[lines, intersectionStates],
 	);
 
-	// Keep a ref to intersections so we can use it in callbacks without breaking stability
+	// Keep refs to lines and intersections so we can use them in callbacks without breaking stability
+	const linesRef = useRef(lines);
+	linesRef.current = lines;
 	const intersectionsRef = useRef(intersections);
 	intersectionsRef.current = intersections;
+	const frameRef = useRef(frame);
+	frameRef.current = frame;
+
+	const tJoints = useMemo<TJoint[]>(
+		() => computeTJoints(lines, { frame, tJointType, tJointTypes }),
+		[lines, frame, tJointType, tJointTypes],
+	);
 
 	// Derived design strips for layout
 	const designStrips = useMemo<DesignStrip[]>(
-		() => computeDesignStrips(lines, intersections, gridCellSize, bitSize),
-		[lines, intersections, gridCellSize, bitSize],
+		() =>
+			computeDesignStrips(lines, intersections, gridCellSize, bitSize, {
+				stripThickness,
+				gridType,
+				cutDepth,
+				gridCellSizeY,
+				frame,
+				tJointType,
+				tJointTypes,
+			}),
+		[
+			lines,
+			intersections,
+			gridCellSize,
+			bitSize,
+			stripThickness,
+			gridType,
+			cutDepth,
+			gridCellSizeY,
+			frame,
+			tJointType,
+			tJointTypes,
+		],
+	);
+
+	// Drop selected ids whose lines were redrawn or deleted
+	const selectedLineIds = useMemo(
+		() => new Set(Array.from(selection).filter((id) => lines.has(id))),
+		[selection, lines],
 	);
+	const selectedLineIdsRef = useRef(selectedLineIds);
+	selectedLineIdsRef.current = selectedLineIds;
 
 	/**
 	 * Map from grid Line.id to a stable, user-facing strip label.
@@ -52,72 +188,50 @@ export function useKumikoDesign(gridCellSize: number, bitSize: number) {
 
 	/**
 	 * Core segment application logic used by both click-click and drag-based
-	 * drawing.
+	 * drawing. With a symmetry mode active, the symmetric copies of the
+	 * segment are drawn (or erased) along with it.
 	 */
-	const applySegment = useCallback((start: Point, end: Point) => {
-		// Ignore degenerate segments
-		if (start.x === end.x && start.y === end.y) {
-			setDrawingLine(null);
-			setIsDeleting(false);
-			return;
-		}
-
-		setLines((prev) => {
-			const overlaps = computeLineOverlaps(prev, start, end);
-			const next = new Map(prev);
-
-			if (overlaps.length > 0) {
-				// Deletion behaviour
-				for (const { line, tStart, tEnd } of overlaps) {
-					next.delete(line.id);
+	const applySegment = useCallback(
+		(start: Point, end: Point) => {
+			// Ignore degenerate segments
+			if (start.x === end.x && start.y === end.y) {
+				setDrawingLine(null);
+				setIsDeleting(false);
+				return;
+			}
 
-					// Keep segment before overlap (if exists)
-					if (tStart > 0.001) {
-						const id = newId();
-						const before: Line = {
-							id,
-							x1: line.x1,
-							y1: line.y1,
-							x2: Math.round(line.x1 + tStart * (line.x2 - line.x1)),
-							y2: Math.round(line.y1 + tStart * (line.y2 - line.y1)),
-						};
-						next.set(id, before);
-					}
+			const segments = symmetricSegments(start, end, symmetry, gridType);
 
-					// Keep segment after overlap (if exists)
-					if (tEnd < 0.999) {
+			setLines((prev) => {
+				// The drawn segment decides whether all copies erase or create
+				const isErasing = computeLineOverlaps(prev, start, end).length > 0;
+				let next = prev;
+				for (const [a, b] of segments) {
+					if (isErasing) {
+						next = eraseSegment(next, a, b);
+					} else {
+						// Creation behaviour
 						const id = newId();
-						const after: Line = {
+						next = new Map(next).set(id, {
 							id,
-							x1: Math.round(line.x1 + tEnd * (line.x2 - line.x1)),
-							y1: Math.round(line.y1 + tEnd * (line.y2 - line.y1)),
-							x2: line.x2,
-							y2: line.y2,
-						};
-						next.set(id, after);
+							x1: a.x,
+							y1: a.y,
+							x2: b.x,
+							y2: b.y,
+						});
 					}
 				}
-			} else {
-				// Creation behaviour
-				const id = newId();
-				const newLine: Line = {
-					id,
-					x1: start.x,
-					y1: start.y,
-					x2: end.x,
-					y2: end.y,
-				};
-				next.set(id, newLine);
-			}
 
-			return normalizeLines(next);
-		});
+				return normalizeLines(next);
+			});
 
-		// Any structural change to lines should reset intersection orientation
-		setIntersectionStates(new Map());
-		setDrawingLine(null);
-		setIsDeleting(false);
-	}, []);
+			// Intersection states are keyed by geometry, so over/under choices
+			// survive the edit and line normalization
+			setDrawingLine(null);
+			setIsDeleting(false);
+		},
+		[symmetry, gridType],
+	);
 
 	const handleGridClick = useCallback(
 		(point: Point) => {
@@ -155,55 +269,372 @@ export function useKumikoDesign(gridCellSize: number, bitSize: number) {
 		[applySegment],
 	);
 
+	const setIntersectionStack = useCallback((id: string, stack: string[]) => {
+		const int = intersectionsRef.current.get(id);
+		if (!int?.stack) return;
+		setIntersectionStates((prev) =>
+			applyIntersectionStack(prev, linesRef.current, int, stack),
+		);
+	}, []);
+
 	const toggleIntersection = useCallback((id: string) => {
 		const int = intersectionsRef.current.get(id);
 		if (!int) return;
-		setIntersectionStates((prev) => {
-			const next = new Map(prev);
-			next.set(id, !int.line1Over);
+
+		// Multi-way joints cycle the top strip to the bottom of the stack
+		if (int.stack) {
+			const [top, ...rest] = int.stack;
+			setIntersectionStates((prev) =>
+				applyIntersectionStack(prev, linesRef.current, int, [...rest, top]),
+			);
+			return;
+		}
+
+		setIntersectionStates((prev) =>
+			setIntersectionOrientation(prev, linesRef.current, int, !int.line1Over),
+		);
+	}, []);
+
+	/**
+	 * Switch the T-joint at a grid point to the next joint type. Choosing the
+	 * design's default type removes the override.
+	 */
+	const cycleTJointType = useCallback(
+		(x: number, y: number) => {
+			const key = tJointKey(x, y);
+			const fallback = tJointType ?? "butt";
+			setTJointTypes((prev) => {
+				const current = prev.get(key) ?? fallback;
+				const nextType =
+					T_JOINT_CYCLE[
+						(T_JOINT_CYCLE.indexOf(current) + 1) % T_JOINT_CYCLE.length
+					];
+				const next = new Map(prev);
+				if (nextType === fallback) {
+					next.delete(key);
+				} else {
+					next.set(key, nextType);
+				}
+				return next;
+			});
+		},
+		[tJointType],
+	);
+
+	/**
+	 * Assign over/under at every crossing in one go using a weave strategy.
+	 */
+	const applyWeave = useCallback((strategy: WeaveStrategy) => {
+		setIntersectionStates((prev) =>
+			solveWeave(linesRef.current, intersectionsRef.current, prev, strategy),
+		);
+	}, []);
+
+	const selectLines = useCallback((ids: string[], additive = false) => {
+		setSelection((prev) => new Set(additive ? [...prev, ...ids] : ids));
+	}, []);
+
+	const toggleLineSelection = useCallback((id: string) => {
+		setSelection((prev) => {
+			const next = new Set(prev);
+			if (!next.delete(id)) next.add(id);
 			return next;
 		});
 	}, []);
 
+	const clearSelection = useCallback(() => {
+		setSelection(new Set());
+	}, []);
+
+	/**
+	 * Replace the lines in `removeIds` with `added`, re-merge collinear
+	 * segments and select what was added. Over/under choices listed in
+	 * `crossings` (by id within `added`) move along with the lines; crossings
+	 * whose geometry is unchanged keep their state automatically.
+	 */
+	const placeLines = useCallback(
+		(
+			added: Line[],
+			crossings: Array<[string, string]>,
+			removeIds: Set<string>,
+		) => {
+			const next = new Map(linesRef.current);
+			for (const id of removeIds) next.delete(id);
+			for (const line of added) next.set(line.id, line);
+			const normalized = normalizeLines(next);
+
+			const addedById = new Map(added.map((line) => [line.id, line]));
+			const crossingLines = crossings
+				.map(([over, under]) => [addedById.get(over), addedById.get(under)])
+				.filter((pair): pair is [Line, Line] => !!pair[0] && !!pair[1]);
+
+			setLines(normalized);
+			setIntersectionStates((prev) => applyCrossingOrder(prev, crossingLines));
+			setSelection(new Set(linesCoveredBy(normalized.values(), added)));
+		},
+		[],
+	);
+
+	/**
+	 * Replace the selected lines with a transformed copy of themselves.
+	 */
+	const transformSelection = useCallback(
+		(transform: (selected: Line[]) => Line[]) => {
+			const ids = selectedLineIdsRef.current;
+			if (ids.size === 0) return;
+			const selected = Array.from(ids)
+				.map((id) => linesRef.current.get(id))
+				.filter((line): line is Line => line !== undefined);
+			placeLines(
+				transform(selected),
+				crossingsAmong(intersectionsRef.current, ids),
+				ids,
+			);
+		},
+		[placeLines],
+	);
+
+	const moveSelection = useCallback(
+		(dx: number, dy: number) => {
+			transformSelection((selected) => translateLines(selected, dx, dy));
+		},
+		[transformSelection],
+	);
+
+	const rotateSelection = useCallback(() => {
+		transformSelection((selected) => rotateLinesClockwise(selected, gridType));
+	}, [transformSelection, gridType]);
+
+	const flipSelection = useCallback(
+		(direction: FlipDirection) => {
+			transformSelection((selected) =>
+				flipLines(selected, direction, gridType),
+			);
+		},
+		[transformSelection, gridType],
+	);
+
+	/**
+	 * Repeat the selection over a countX × countY array of tiles, stepping by
+	 * whole grid cells. Tiles that touch merge into continuous lines.
+	 */
+	const arraySelection = useCallback(
+		(countX: number, countY: number, stepX: number, stepY: number) => {
+			const ids = selectedLineIdsRef.current;
+			if (ids.size === 0 || countX < 1 || countY < 1) return;
+			const selected = Array.from(ids)
+				.map((id) => linesRef.current.get(id))
+				.filter((line): line is Line => line !== undefined);
+			const crossings = crossingsAmong(intersectionsRef.current, ids);
+
+			const tiles = arrayLines(selected, countX, countY, stepX, stepY);
+			const tileCrossings = tiles.flatMap((tile) => {
+				const tileId = new Map(
+					selected.map((line, i) => [line.id, tile[i].id]),
+				);
+				return crossings.map(([over, under]): [string, string] => [
+					tileId.get(over) ?? over,
+					tileId.get(under) ?? under,
+				]);
+			});
+			placeLines(tiles.flat(), tileCrossings, ids);
+		},
+		[placeLines],
+	);
+
+	/**
+	 * Stamp a motif into every cell of the range between two grid points.
+	 */
+	const stampMotifInRange = useCallback(
+		(motif: Motif, start: Point, end: Point) => {
+			const stamped = stampMotif(motif, motifCellsInRange(motif, start, end));
+			if (stamped.length === 0) return;
+			setLines((prev) => {
+				const next = new Map(prev);
+				for (const line of stamped) next.set(line.id, line);
+				return normalizeLines(next);
+			});
+		},
+		[],
+	);
+
+	/**
+	 * Add a guide between two grid points, or remove the guide that already
+	 * runs exactly between them.
+	 */
+	const toggleGuide = useCallback((start: Point, end: Point) => {
+		if (start.x === end.x && start.y === end.y) return;
+		setGuides((prev) => {
+			const next = new Map(prev);
+			for (const guide of prev.values()) {
+				const sameDirection =
+					guide.x1 === start.x &&
+					guide.y1 === start.y &&
+					guide.x2 === end.x &&
+					guide.y2 === end.y;
+				const reversed =
+					guide.x1 === end.x &&
+					guide.y1 === end.y &&
+					guide.x2 === start.x &&
+					guide.y2 === start.y;
+				if (sameDirection || reversed) {
+					next.delete(guide.id);
+					return next;
+				}
+			}
+			const id = newId();
+			return next.set(id, {
+				id,
+				x1: start.x,
+				y1: start.y,
+				x2: end.x,
+				y2: end.y,
+			});
+		});
+	}, []);
+
+	const clearGuides = useCallback(() => {
+		setGuides(new Map());
+	}, []);
+
+	const deleteSelection = useCallback(() => {
+		transformSelection(() => []);
+	}, [transformSelection]);
+
+	/**
+	 * Serialize the selected lines (and their over/under choices) as JSON for
+	 * the clipboard. Returns null when nothing is selected.
+	 */
+	const copySelection = useCallback((): string | null => {
+		const ids = selectedLineIdsRef.current;
+		if (ids.size === 0) return null;
+		const selected = Array.from(ids)
+			.map((id) => linesRef.current.get(id))
+			.filter((line): line is Line => line !== undefined);
+		return serializeLinesForClipboard(
+			selected,
+			crossingsAmong(intersectionsRef.current, ids),
+		);
+	}, []);
+
+	/**
+	 * Add lines from clipboard JSON, offset from where they were copied.
+	 * Returns false when the text is not a copied selection.
+	 */
+	const pasteLines = useCallback(
+		(text: string): boolean => {
+			const parsed = parseLinesFromClipboard(text);
+			if (!parsed) return false;
+			placeLines(
+				translateLines(parsed.lines, COPY_OFFSET, COPY_OFFSET),
+				parsed.crossings,
+				new Set(),
+			);
+			return true;
+		},
+		[placeLines],
+	);
+
+	const duplicateSelection = useCallback(() => {
+		const text = copySelection();
+		if (text) pasteLines(text);
+	}, [copySelection, pasteLines]);
+
+	/**
+	 * Make the bounding box of the selection the frame of the panel, keeping
+	 * the joinery of any existing frame. Returns false when the selection
+	 * does not span a rectangle.
+	 */
+	const frameSelection = useCallback((): boolean => {
+		const selected = Array.from(selectedLineIdsRef.current)
+			.map((id) => linesRef.current.get(id))
+			.filter((line): line is Line => line !== undefined);
+		const next = frameFromLines(selected, frameRef.current, gridType);
+		if (!next) return false;
+		setFrame(next);
+		return true;
+	}, [gridType]);
+
 	const clearDesignState = useCallback(() => {
 		setLines(new Map());
+		setGuides(new Map());
 		setDrawingLine(null);
 		setIntersectionStates(new Map());
+		setTJointTypes(new Map());
 		setZoomPanState(undefined);
+		setReferenceImage(undefined);
+		setFrame(undefined);
 	}, []);
 
 	const state = useMemo(
 		() => ({
 			lines,
+			guides,
 			drawingLine,
 			isDeleting,
 			intersectionStates,
+			tJointTypes,
 			zoomPanState,
+			referenceImage,
+			frame,
 			intersections,
+			tJoints,
 			designStrips,
 			lineLabelById,
+			selectedLineIds,
+			symmetry,
 		}),
 		[
 			lines,
+			guides,
 			drawingLine,
 			isDeleting,
 			intersectionStates,
+			tJointTypes,
 			zoomPanState,
+			referenceImage,
+			frame,
 			intersections,
+			tJoints,
 			designStrips,
 			lineLabelById,
+			selectedLineIds,
+			symmetry,
 		],
 	);
 
 	const actions = useMemo(
 		() => ({
 			setLines,
+			setGuides,
 			setIntersectionStates,
+			setTJointTypes,
 			setZoomPanState,
+			setReferenceImage,
+			setFrame,
+			setSymmetry,
 			handleGridClick,
 			handleDragUpdate,
 			handleCreateLine,
 			toggleIntersection,
+			cycleTJointType,
+			setIntersectionStack,
+			applyWeave,
+			selectLines,
+			toggleLineSelection,
+			clearSelection,
+			moveSelection,
+			rotateSelection,
+			flipSelection,
+			arraySelection,
+			stampMotifInRange,
+			toggleGuide,
+			clearGuides,
+			frameSelection,
+			deleteSelection,
+			duplicateSelection,
+			copySelection,
+			pasteLines,
 			clearDesignState,
 		}),
 		[
@@ -211,6 +642,24 @@ export function useKumikoDesign(gridCellSize: number, bitSize: number) {
 			handleDragUpdate,
 			handleCreateLine,
 			toggleIntersection,
+			cycleTJointType,
+			setIntersectionStack,
+			applyWeave,
+			selectLines,
+			toggleLineSelection,
+			clearSelection,
+			moveSelection,
+			rotateSelection,
+			flipSelection,
+			arraySelection,
+			stampMotifInRange,
+			toggleGuide,
+			clearGuides,
+			frameSelection,
+			deleteSelection,
+			duplicateSelection,
+			copySelection,
+			pasteLines,
 			clearDesignState,
 		],
 	);
@@ -104,4 +104,67 @@ describe("useKumikoLayout", () => {
 
 		expect(result.current.state.activeGroup?.pieces.size).toBe(0);
 	});
+
+	it("should add and delete full cuts", () => {
+		const { result } = renderHook(() => useKumikoLayout());
+
+		act(() => {
+			result.current.actions.addFullCut({ x1: 0, y1: 20, x2: 300, y2: 20 });
+		});
+
+		const cuts = Array.from(
+			result.current.state.activeGroup?.fullCuts.values() ?? [],
+		);
+		expect(cuts).toHaveLength(1);
+		expect(cuts[0]).toMatchObject({ x1: 0, y1: 20, x2: 300, y2: 20 });
+
+		act(() => {
+			result.current.actions.deleteLayoutItem("cut", cuts[0].id);
+		});
+
+		expect(result.current.state.activeGroup?.fullCuts.size).toBe(0);
+	});
+
+	it("should add several pieces to the active group at once", () => {
+		const { result } = renderHook(() => useKumikoLayout());
+
+		act(() => {
+			result.current.actions.addPieces([
+				{ id: "p1", lineId: "a", x: 0, y: 0, rowIndex: 0 },
+				{ id: "p2", lineId: "b", x: 0, y: 20, rowIndex: 1 },
+			]);
+		});
+
+		const pieces = result.current.state.activeGroup?.pieces;
+		expect(pieces?.size).toBe(2);
+		expect(pieces?.get("p2")?.rowIndex).toBe(1);
+	});
+
+	it("should move a piece to another group", () => {
+		const { result } = renderHook(() => useKumikoLayout());
+		act(() => {
+			result.current.actions.addPieces([
+				{ id: "p1", lineId: "a", x: 0, y: 0, rowIndex: 0 },
+			]);
+			result.current.actions.addNewGroup();
+		});
+		const targetId = result.current.state.activeGroupId;
+		act(() => {
+			result.current.actions.setActiveGroupId("group1");
+		});
+
+		act(() => {
+			result.current.actions.movePieceToGroup("p1", targetId, {
+				id: "p1",
+				lineId: "a",
+				x: 0,
+				y: 20,
+				rowIndex: 1,
+			});
+		});
+
+		const { groups } = result.current.state;
+		expect(groups.get("group1")?.pieces.size).toBe(0);
+		expect(groups.get(targetId)?.pieces.get("p1")?.rowIndex).toBe(1);
+	});
 });
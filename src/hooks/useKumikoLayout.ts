@@ -118,12 +118,80 @@ export function useKumikoLayout(options: UseKumikoLayoutOptions = {}) {
 		[selectedPieceId, activeGroup, activeGroupId],
 	);
 
-	const deleteLayoutItem = useCallback(
-		(_type: "piece", id: string) => {
+	/** Add pieces to the active group in one update (auto layout) */
+	const addPieces = useCallback(
+		(pieces: Piece[]) => {
 			setGroups((prev) => {
 				const next = new Map(prev);
 				const group = next.get(activeGroupId);
 				if (group) {
+					const newPieces = new Map(group.pieces);
+					for (const piece of pieces) {
+						newPieces.set(piece.id, piece);
+					}
+					next.set(activeGroupId, { ...group, pieces: newPieces });
+				}
+				return next;
+			});
+		},
+		[activeGroupId],
+	);
+
+	/** Replace every piece of the active group (gang-cut optimizing) */
+	const setActiveGroupPieces = useCallback(
+		(pieces: Map<string, Piece>) => {
+			setGroups((prev) => {
+				const group = prev.get(activeGroupId);
+				if (!group) return prev;
+				return new Map(prev).set(activeGroupId, { ...group, pieces });
+			});
+		},
+		[activeGroupId],
+	);
+
+	/** Move a piece of the active group into another group, placed as given */
+	const movePieceToGroup = useCallback(
+		(pieceId: string, groupId: string, placed: Piece) => {
+			setGroups((prev) => {
+				const source = prev.get(activeGroupId);
+				const target = prev.get(groupId);
+				if (!source || !target || groupId === activeGroupId) return prev;
+
+				const sourcePieces = new Map(source.pieces);
+				sourcePieces.delete(pieceId);
+				const targetPieces = new Map(target.pieces).set(placed.id, placed);
+				return new Map(prev)
+					.set(activeGroupId, { ...source, pieces: sourcePieces })
+					.set(groupId, { ...target, pieces: targetPieces });
+			});
+		},
+		[activeGroupId],
+	);
+
+	/** Add a full-depth cut through the stock of the active group */
+	const addFullCut = useCallback(
+		(cut: Omit<Cut, "id">) => {
+			setGroups((prev) => {
+				const group = prev.get(activeGroupId);
+				if (!group) return prev;
+				const id = newId();
+				const fullCuts = new Map(group.fullCuts).set(id, { id, ...cut });
+				return new Map(prev).set(activeGroupId, { ...group, fullCuts });
+			});
+		},
+		[activeGroupId],
+	);
+
+	const deleteLayoutItem = useCallback(
+		(type: "piece" | "cut", id: string) => {
+			setGroups((prev) => {
+				const next = new Map(prev);
+				const group = next.get(activeGroupId);
+				if (group && type === "cut") {
+					const newCuts = new Map(group.fullCuts);
+					newCuts.delete(id);
+					next.set(activeGroupId, { ...group, fullCuts: newCuts });
+				} else if (group) {
 					const newPieces = new Map(group.pieces);
 					newPieces.delete(id);
 					next.set(activeGroupId, { ...group, pieces: newPieces });
@@ -163,6 +231,10 @@ export function useKumikoLayout(options: UseKumikoLayoutOptions = {}) {
 			deleteGroup,
 			renameGroup,
 			handleLayoutClick,
+			addPieces,
+			setActiveGroupPieces,
+			movePieceToGroup,
+			addFullCut,
 			deleteLayoutItem,
 			clearLayoutState,
 		}),
@@ -171,6 +243,10 @@ export function useKumikoLayout(options: UseKumikoLayoutOptions = {}) {
 			deleteGroup,
 			renameGroup,
 			handleLayoutClick,
+			addPieces,
+			setActiveGroupPieces,
+			movePieceToGroup,
+			addFullCut,
 			deleteLayoutItem,
 			clearLayoutState,
 		],
@@ -10,7 +10,9 @@ describe("useKumikoParams", () => {
 		expect(result.current.params.bitSize).toBe(6.35);
 		expect(result.current.params.cutDepth).toBe(19);
 		expect(result.current.params.halfCutDepth).toBe(9.5);
+		expect(result.current.params.stripThickness).toBe(6.35);
 		expect(result.current.params.gridCellSize).toBe(10);
+		expect(result.current.params.gridType).toBe("square");
 		expect(result.current.params.stockLength).toBe(600);
 	});
 
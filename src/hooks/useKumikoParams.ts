@@ -3,9 +3,14 @@ import {
 	DEFAULT_BIT_SIZE,
 	DEFAULT_CUT_DEPTH,
 	DEFAULT_GRID_CELL_SIZE,
+	DEFAULT_GRID_TYPE,
 	DEFAULT_HALF_CUT_DEPTH,
 	DEFAULT_STOCK_LENGTH,
+	DEFAULT_STRIP_THICKNESS,
+	DEFAULT_T_JOINT_TYPE,
 	DEFAULT_UNITS,
+	type GridType,
+	type TJointType,
 } from "../lib/kumiko";
 
 export function useKumikoParams() {
@@ -14,10 +19,19 @@ export function useKumikoParams() {
 	const [bitSize, setBitSize] = useState(DEFAULT_BIT_SIZE);
 	const [cutDepth, setCutDepth] = useState(DEFAULT_CUT_DEPTH);
 	const [halfCutDepth, setHalfCutDepth] = useState(DEFAULT_HALF_CUT_DEPTH);
-	// Physical size of one grid cell in mm (determines design scale)
+	// Thickness of the strips themselves; notches wider than the bit need several passes
+	const [stripThickness, setStripThickness] = useState(DEFAULT_STRIP_THICKNESS);
+	// Physical size of one grid cell in mm (determines design scale). The
+	// cell width is gridCellSize; rectangular cells get their own height.
 	const [gridCellSize, setGridCellSize] = useState(DEFAULT_GRID_CELL_SIZE);
+	const [gridCellSizeY, setGridCellSizeY] = useState(DEFAULT_GRID_CELL_SIZE);
+	// Lattice the design is drawn on (square or 60° triangular)
+	const [gridType, setGridType] = useState<GridType>(DEFAULT_GRID_TYPE);
 	// stockLength is the physical board/stock length used in layout & SVG
 	const [stockLength, setStockLength] = useState(DEFAULT_STOCK_LENGTH);
+	// Joint made where a strip ends on another; single joints can override it
+	const [tJointType, setTJointType] =
+		useState<TJointType>(DEFAULT_T_JOINT_TYPE);
 
 	const toggleUnits = useCallback(() => {
 		setUnits((prev) => (prev === "mm" ? "in" : "mm"));
@@ -46,10 +60,25 @@ export function useKumikoParams() {
 			bitSize,
 			cutDepth,
 			halfCutDepth,
+			stripThickness,
 			gridCellSize,
+			gridCellSizeY,
+			gridType,
 			stockLength,
+			tJointType,
 		}),
-		[units, bitSize, cutDepth, halfCutDepth, gridCellSize, stockLength],
+		[
+			units,
+			bitSize,
+			cutDepth,
+			halfCutDepth,
+			stripThickness,
+			gridCellSize,
+			gridCellSizeY,
+			gridType,
+			stockLength,
+			tJointType,
+		],
 	);
 
 	const actions = useMemo(
@@ -58,8 +87,12 @@ export function useKumikoParams() {
 			setBitSize,
 			setCutDepth,
 			setHalfCutDepth,
+			setStripThickness,
 			setGridCellSize,
+			setGridCellSizeY,
+			setGridType,
 			setStockLength,
+			setTJointType,
 			toggleUnits,
 			handleParamChange,
 			handleHalfCutParamChange,
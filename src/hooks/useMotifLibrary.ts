@@ -0,0 +1,67 @@
+/**
+ * Hook for the motif stamp library: built-in motifs plus the user's own,
+ * which are persisted next to named designs.
+ */
+import { useCallback, useMemo, useState } from "react";
+import {
+	BUILT_IN_MOTIFS,
+	deleteMotif as deleteStoredMotif,
+	type Line,
+	listSavedMotifs,
+	type Motif,
+	motifFromLines,
+	saveMotif,
+} from "../lib/kumiko";
+
+export interface MotifLibraryState {
+	/** Built-in motifs followed by saved ones */
+	motifs: Motif[];
+	activeMotif: Motif;
+}
+
+export interface MotifLibraryActions {
+	setActiveMotifId: (id: string) => void;
+	/** Save lines as a new motif and make it active. Returns false if empty. */
+	addMotifFromLines: (name: string, lines: Line[]) => boolean;
+	deleteMotif: (id: string) => void;
+}
+
+export function useMotifLibrary(): {
+	state: MotifLibraryState;
+	actions: MotifLibraryActions;
+} {
+	const [savedMotifs, setSavedMotifs] = useState<Motif[]>(() =>
+		listSavedMotifs(),
+	);
+	const [activeMotifId, setActiveMotifId] = useState(BUILT_IN_MOTIFS[0].id);
+
+	const motifs = useMemo(
+		() => [...BUILT_IN_MOTIFS, ...savedMotifs],
+		[savedMotifs],
+	);
+	const activeMotif =
+		motifs.find((motif) => motif.id === activeMotifId) ?? motifs[0];
+
+	const addMotifFromLines = useCallback((name: string, lines: Line[]) => {
+		const motif = motifFromLines(name.trim() || "Motif", lines);
+		if (!motif) return false;
+		saveMotif(motif);
+		setSavedMotifs(listSavedMotifs());
+		setActiveMotifId(motif.id);
+		return true;
+	}, []);
+
+	const deleteMotif = useCallback((id: string) => {
+		deleteStoredMotif(id);
+		setSavedMotifs(listSavedMotifs());
+	}, []);
+
+	const state = useMemo(() => ({ motifs, activeMotif }), [motifs, activeMotif]);
+
+	const actions = useMemo(
+		() => ({ setActiveMotifId, addMotifFromLines, deleteMotif }),
+		[addMotifFromLines, deleteMotif],
+	);
+
+	return { state, actions };
+}
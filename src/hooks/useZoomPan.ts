@@ -17,7 +17,9 @@ import {
 } from "../lib/d3-types";
 import {
 	DEFAULT_ZOOM,
+	type GridType,
 	type Line,
+	latticeToCartesian,
 	MAX_ZOOM,
 	MIN_ZOOM,
 	type ZoomPanState,
@@ -30,6 +32,8 @@ interface UseZoomPanProps {
 	cellSize: number;
 	designWidth: number;
 	designHeight: number;
+	/** Lattice used to place line endpoints (defaults to square). */
+	gridType?: GridType;
 	/** Optional externally-controlled zoom/pan state (for persistence). */
 	zoomPanState?: ZoomPanState;
 	/** Notify parent when zoom/pan state changes so it can be persisted. */
@@ -43,6 +47,7 @@ export function useZoomPan({
 	cellSize,
 	designWidth,
 	designHeight,
+	gridType = "square",
 	zoomPanState,
 	onZoomPanChange,
 }: UseZoomPanProps) {
@@ -103,10 +108,12 @@ export function useZoomPan({
 		let maxY = -Infinity;
 
 		for (const line of lineArray) {
-			minX = Math.min(minX, line.x1, line.x2);
-			maxX = Math.max(maxX, line.x1, line.x2);
-			minY = Math.min(minY, line.y1, line.y2);
-			maxY = Math.max(maxY, line.y1, line.y2);
+			const start = latticeToCartesian(line.x1, line.y1, gridType);
+			const end = latticeToCartesian(line.x2, line.y2, gridType);
+			minX = Math.min(minX, start.x, end.x);
+			maxX = Math.max(maxX, start.x, end.x);
+			minY = Math.min(minY, start.y, end.y);
+			maxY = Math.max(maxY, start.y, end.y);
 		}
 
 		if (
@@ -147,7 +154,7 @@ export function useZoomPan({
 			.translate(-centerX, -centerY);
 
 		applyZoomTransform(selection, behavior, t);
-	}, [lines, cellSize, designWidth, designHeight, svgRef]);
+	}, [lines, cellSize, designWidth, designHeight, gridType, svgRef]);
 
 	const zoomBy = useCallback(
 		(factor: number) => {
@@ -5,6 +5,8 @@
  * All values are in millimeters unless otherwise specified.
  */
 
+import type { GridType, TJointType } from "./types";
+
 // =============================================================================
 // Grid Constants
 // =============================================================================
@@ -62,6 +64,12 @@ export const MM_TO_INCH = 1 / INCH_TO_MM;
 /** Default cut depth in mm */
 export const DEFAULT_CUT_DEPTH = 19;
 
+/**
+ * Default strip thickness in mm. Matches the default bit size so each notch
+ * is cut in a single pass.
+ */
+export const DEFAULT_STRIP_THICKNESS = 6.35;
+
 /** Default half cut depth in mm */
 export const DEFAULT_HALF_CUT_DEPTH = 9.5;
 
@@ -73,3 +81,16 @@ export const DEFAULT_STOCK_LENGTH = 600;
 
 /** Default display unit */
 export const DEFAULT_UNITS: "mm" | "in" = "mm";
+
+/** Default design grid lattice */
+export const DEFAULT_GRID_TYPE: GridType = "square";
+
+/** Default joint where a strip ends on another strip */
+export const DEFAULT_T_JOINT_TYPE: TJointType = "butt";
+
+// =============================================================================
+// History Constants
+// =============================================================================
+
+/** Maximum number of undo steps kept in the edit history */
+export const MAX_HISTORY_DEPTH = 100;
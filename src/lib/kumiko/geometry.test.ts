@@ -1,10 +1,13 @@
 import { describe, expect, it } from "vitest";
 import {
 	computeLineOverlapForSingleLine,
+	crossingAngleDegrees,
 	distancePointToSegment,
 	findIntersection,
 	gcd,
 	isPointOnLineInterior,
+	latticeToCartesian,
+	snapToLattice,
 } from "./geometry";
 import { makeLine } from "./test-fixtures";
 
@@ -248,3 +251,73 @@ describe("isPointOnLineInterior()", () => {
 		expect(isPointOnLineInterior(5, 5, line)).toBe(false);
 	});
 });
+
+describe("crossingAngleDegrees()", () => {
+	it("returns 90 for perpendicular lines", () => {
+		const h = makeLine("h", 0, 0, 10, 0);
+		const v = makeLine("v", 5, -5, 5, 5);
+		expect(crossingAngleDegrees(h, v)).toBeCloseTo(90, 5);
+	});
+
+	it("returns the acute angle regardless of line direction", () => {
+		const h = makeLine("h", 10, 0, 0, 0);
+		const d = makeLine("d", 0, 0, 10, 10);
+		const reversed = makeLine("r", 10, 0, 0, 10);
+		expect(crossingAngleDegrees(h, d)).toBeCloseTo(45, 5);
+		expect(crossingAngleDegrees(h, reversed)).toBeCloseTo(45, 5);
+	});
+
+	it("returns 0 for parallel lines", () => {
+		const a = makeLine("a", 0, 0, 10, 0);
+		const b = makeLine("b", 0, 1, 10, 1);
+		expect(crossingAngleDegrees(a, b)).toBe(0);
+	});
+
+	it("stretches the lattice vertically by the cell aspect ratio", () => {
+		const h = makeLine("h", 0, 0, 10, 0);
+		const d = makeLine("d", 0, 0, 10, 10);
+		const v = makeLine("v", 5, -5, 5, 5);
+		expect(crossingAngleDegrees(h, d, "square", 2)).toBeCloseTo(
+			(Math.atan(2) * 180) / Math.PI,
+			5,
+		);
+		expect(crossingAngleDegrees(h, v, "square", 2)).toBeCloseTo(90, 5);
+	});
+});
+
+describe("latticeToCartesian()", () => {
+	it("is the identity on a square grid", () => {
+		expect(latticeToCartesian(3, 4)).toEqual({ x: 3, y: 4 });
+	});
+
+	it("shears and compresses rows on a triangular grid", () => {
+		const p = latticeToCartesian(1, 2, "triangular");
+		expect(p.x).toBeCloseTo(2, 10);
+		expect(p.y).toBeCloseTo(Math.sqrt(3), 10);
+	});
+
+	it("keeps neighbouring triangular lattice points one unit apart", () => {
+		const origin = latticeToCartesian(0, 0, "triangular");
+		for (const [x, y] of [
+			[1, 0],
+			[0, 1],
+			[-1, 1],
+		]) {
+			const p = latticeToCartesian(x, y, "triangular");
+			expect(Math.hypot(p.x - origin.x, p.y - origin.y)).toBeCloseTo(1, 10);
+		}
+	});
+});
+
+describe("snapToLattice()", () => {
+	it("rounds to the nearest integer point on a square grid", () => {
+		expect(snapToLattice(2.4, 3.6)).toEqual({ x: 2, y: 4 });
+	});
+
+	it("snaps Cartesian points to the nearest triangular lattice point", () => {
+		const target = latticeToCartesian(3, 2, "triangular");
+		expect(snapToLattice(target.x + 0.2, target.y - 0.1, "triangular")).toEqual(
+			{ x: 3, y: 2 },
+		);
+	});
+});
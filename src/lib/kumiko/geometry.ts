@@ -1,5 +1,69 @@
 import { EPSILON } from "./config";
-import type { Line, Point } from "./types";
+import type { GridType, Line, Point } from "./types";
+
+/** Height of one triangular lattice row relative to the cell side length */
+const TRIANGULAR_ROW_HEIGHT = Math.sqrt(3) / 2;
+
+/**
+ * Map lattice coordinates (or a lattice delta) to Cartesian coordinates in
+ * cell units. Square grids are the identity. Triangular grids shift each row
+ * by half a cell and compress rows to √3/2, so lattice lines run at 0°, 60°
+ * and 120°. The mapping is linear, which means collinearity and
+ * intersections computed in lattice coordinates remain valid.
+ */
+export function latticeToCartesian(
+	x: number,
+	y: number,
+	gridType: GridType = "square",
+): Point {
+	if (gridType === "square") return { x, y };
+	return { x: x + y / 2, y: y * TRIANGULAR_ROW_HEIGHT };
+}
+
+/**
+ * Inverse of latticeToCartesian. Returns continuous (unrounded) lattice
+ * coordinates for a Cartesian point in cell units.
+ */
+export function cartesianToLattice(
+	x: number,
+	y: number,
+	gridType: GridType = "square",
+): Point {
+	if (gridType === "square") return { x, y };
+	const row = y / TRIANGULAR_ROW_HEIGHT;
+	return { x: x - row / 2, y: row };
+}
+
+/**
+ * Snap a Cartesian point (cell units) to the nearest lattice point.
+ * For triangular grids the four surrounding lattice points are compared in
+ * Cartesian space, since rounding each lattice axis independently does not
+ * always give the closest point.
+ */
+export function snapToLattice(
+	x: number,
+	y: number,
+	gridType: GridType = "square",
+): Point {
+	if (gridType === "square") return { x: Math.round(x), y: Math.round(y) };
+
+	const lattice = cartesianToLattice(x, y, gridType);
+	let best: Point = { x: Math.round(lattice.x), y: Math.round(lattice.y) };
+	let bestDist = Infinity;
+
+	for (const lx of [Math.floor(lattice.x), Math.ceil(lattice.x)]) {
+		for (const ly of [Math.floor(lattice.y), Math.ceil(lattice.y)]) {
+			const c = latticeToCartesian(lx, ly, gridType);
+			const d = Math.hypot(c.x - x, c.y - y);
+			if (d < bestDist) {
+				bestDist = d;
+				best = { x: lx, y: ly };
+			}
+		}
+	}
+
+	return best;
+}
 
 /**
  * Check if a point lies on the interior of a line segment (not at endpoints).
@@ -236,3 +300,36 @@ export function computeLineOverlaps(
 	}
 	return results;
 }
+
+/**
+ * Compute the acute crossing angle between two lines in degrees.
+ * Returns a value in (0, 90], where 90 means the lines are perpendicular.
+ * Parallel or degenerate lines return 0. `cellAspect` is the height/width
+ * ratio of a physical grid cell; rectangular cells stretch the lattice
+ * vertically and change the angles between diagonals.
+ */
+export function crossingAngleDegrees(
+	a: Line,
+	b: Line,
+	gridType: GridType = "square",
+	cellAspect = 1,
+): number {
+	const { x: ax, y: ayLattice } = latticeToCartesian(
+		a.x2 - a.x1,
+		a.y2 - a.y1,
+		gridType,
+	);
+	const { x: bx, y: byLattice } = latticeToCartesian(
+		b.x2 - b.x1,
+		b.y2 - b.y1,
+		gridType,
+	);
+	const ay = ayLattice * cellAspect;
+	const by = byLattice * cellAspect;
+
+	const cross = Math.abs(ax * by - ay * bx);
+	const dot = Math.abs(ax * bx + ay * by);
+	if (cross === 0) return 0;
+
+	return (Math.atan2(cross, dot) * 180) / Math.PI;
+}
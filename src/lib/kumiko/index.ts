@@ -16,21 +16,75 @@ export {
 	DEFAULT_BIT_SIZE,
 	DEFAULT_CUT_DEPTH,
 	DEFAULT_GRID_CELL_SIZE,
+	DEFAULT_GRID_TYPE,
 	DEFAULT_HALF_CUT_DEPTH,
 	DEFAULT_STOCK_LENGTH,
+	DEFAULT_STRIP_THICKNESS,
+	DEFAULT_T_JOINT_TYPE,
 	DEFAULT_UNITS,
 	DEFAULT_ZOOM,
 	MAX_ZOOM,
 	MIN_ZOOM,
 } from "./config";
 // Geometry utilities
-export { computeLineOverlaps, distancePointToSegment } from "./geometry";
+export {
+	computeLineOverlaps,
+	distancePointToSegment,
+	latticeToCartesian,
+	snapToLattice,
+} from "./geometry";
+// Assembly planning
+export type {
+	AssemblyOrientation,
+	AssemblyPlacement,
+	AssemblyPlan,
+	AssemblyStep,
+} from "./kumiko-assembly";
 // Design logic
+export type { DesignStripOptions } from "./kumiko-design-logic";
 export {
+	applyCrossingOrder,
+	applyIntersectionStack,
 	computeDesignStrips,
 	computeIntersections,
+	computeTJoints,
+	migrateIntersectionStates,
 	normalizeLines,
+	setIntersectionOrientation,
+	tJointKey,
 } from "./kumiko-design-logic";
+// Frame (kamachi)
+export { frameFromLines } from "./kumiko-frame";
+// Parametric pattern generators
+export type {
+	GeneratorParam,
+	PatternApplyMode,
+	PatternGenerator,
+} from "./kumiko-generators";
+export {
+	defaultGeneratorValues,
+	GENERATORS,
+	generatePattern,
+} from "./kumiko-generators";
+// Motif stamps
+export {
+	BUILT_IN_MOTIFS,
+	motifCellsInRange,
+	motifFromLines,
+	stampMotif,
+} from "./kumiko-motifs";
+// Selection transforms and clipboard
+export type { FlipDirection } from "./kumiko-selection";
+export {
+	arrayLines,
+	crossingsAmong,
+	flipLines,
+	linesCoveredBy,
+	parseLinesFromClipboard,
+	rotateLinesClockwise,
+	serializeLinesForClipboard,
+	translateLines,
+} from "./kumiko-selection";
 // Storage
 export type {
 	CreateDesignPayloadOptions,
@@ -40,33 +94,63 @@ export type {
 export {
 	clearDesign,
 	createDesignPayload,
+	deleteMotif,
 	deleteNamedDesign,
 	listNamedDesigns,
+	listSavedMotifs,
 	loadDesign,
 	loadNamedDesign,
+	saveMotif,
 	saveNamedDesign,
 } from "./kumiko-storage";
 // SVG Export
 export type { GenerateGroupSVGOptions } from "./kumiko-svg-export";
+// Symmetry drawing
+export type {
+	Segment,
+	SymmetryMode,
+	SymmetrySettings,
+} from "./kumiko-symmetry";
+export {
+	defaultSymmetryCenter,
+	symmetricSegments,
+} from "./kumiko-symmetry";
 // Templates
 export {
 	getDefaultTemplateId,
 	loadTemplate,
 	TEMPLATES,
 } from "./kumiko-templates";
+// Validation
+export type {
+	ValidationIssue,
+	ValidationIssueKind,
+	ValidationSeverity,
+} from "./kumiko-validation";
+// Weave solver
+export type { WeaveStrategy } from "./kumiko-weave";
+export { solveWeave } from "./kumiko-weave";
 // Layout helpers
 export { getStripConfigKey } from "./layout-helpers";
 // Core types
 export type {
 	Cut,
 	DesignStrip,
+	FrameMemberRole,
+	FrameSettings,
+	GridType,
 	GridViewState,
 	Group,
 	Intersection,
 	Line,
+	Motif,
 	Notch,
 	Piece,
 	Point,
+	ReferenceImage,
+	StripEndJoint,
+	TJoint,
+	TJointType,
 	ZoomPanState,
 } from "./types";
 // Utilities
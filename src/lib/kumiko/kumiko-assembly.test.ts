@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { planAssembly } from "./kumiko-assembly";
+import {
+	computeDesignStrips,
+	computeIntersections,
+} from "./kumiko-design-logic";
+import { makeLine, makeStrip } from "./test-fixtures";
+import type { Intersection, Line } from "./types";
+
+const makeIntersection = (
+	line1Id: string,
+	line2Id: string,
+	line1Over: boolean,
+): Intersection => ({
+	id: `int_${line1Id}_${line2Id}`,
+	x: 0,
+	y: 0,
+	line1Id,
+	line2Id,
+	line1Over,
+});
+
+const toMap = (intersections: Intersection[]) =>
+	new Map(intersections.map((i) => [i.id, i]));
+
+const stepCodes = (plan: ReturnType<typeof planAssembly>) =>
+	plan.steps.map((step) => step.placements.map((p) => p.displayCode));
+
+describe("planAssembly()", () => {
+	it("inserts under strips before the strips that sit on them", () => {
+		const strips = ["a", "b", "c"].map((id) =>
+			makeStrip({ id, displayCode: id.toUpperCase() }),
+		);
+		// a and c both sit on b
+		const plan = planAssembly(
+			toMap([
+				makeIntersection("a", "b", true),
+				makeIntersection("b", "c", false),
+			]),
+			strips,
+		);
+
+		expect(plan.feasible).toBe(true);
+		expect(stepCodes(plan)).toEqual([["B"], ["A", "C"]]);
+		expect(plan.steps[0].placements[0].orientation).toBe("notches-up");
+		expect(plan.steps[1].placements[0]).toMatchObject({
+			orientation: "notches-down",
+			restsOnLineIds: ["b"],
+		});
+	});
+
+	it("reports strips that sit both over and under as notches-both", () => {
+		const strips = ["a", "b", "c"].map((id) =>
+			makeStrip({ id, displayCode: id.toUpperCase() }),
+		);
+		// a on b, b on c
+		const plan = planAssembly(
+			toMap([
+				makeIntersection("a", "b", true),
+				makeIntersection("b", "c", true),
+			]),
+			strips,
+		);
+
+		expect(stepCodes(plan)).toEqual([["C"], ["B"], ["A"]]);
+		expect(plan.steps[1].placements[0].orientation).toBe("notches-both");
+	});
+
+	it("keeps identical strips from different lines apart", () => {
+		// Geometry-derived strip ids are shared by identical strips
+		const strips = ["a", "b"].map((id) =>
+			makeStrip({ id: "same", sourceLineId: id, displayCode: "S" }),
+		);
+		const plan = planAssembly(
+			toMap([makeIntersection("a", "b", true)]),
+			strips,
+		);
+
+		expect(
+			plan.steps.map((s) => s.placements.map((p) => p.sourceLineId)),
+		).toEqual([["b"], ["a"]]);
+	});
+
+	it("places strips without crossings in the first step", () => {
+		const plan = planAssembly(new Map(), [
+			makeStrip({ id: "lone", displayCode: "L1" }),
+		]);
+
+		expect(plan.feasible).toBe(true);
+		expect(plan.steps).toHaveLength(1);
+		expect(plan.steps[0].placements[0].orientation).toBe("no-notches");
+	});
+
+	it("detects strips that would have to go in before themselves", () => {
+		const strips = ["a", "b", "c", "d"].map((id) =>
+			makeStrip({ id, displayCode: id.toUpperCase() }),
+		);
+		// a on b, b on c, c on a; d sits on a and is blocked too
+		const plan = planAssembly(
+			toMap([
+				makeIntersection("a", "b", true),
+				makeIntersection("b", "c", true),
+				makeIntersection("c", "a", true),
+				makeIntersection("d", "a", true),
+			]),
+			strips,
+		);
+
+		expect(plan.feasible).toBe(false);
+		expect(plan.steps).toEqual([]);
+		expect(plan.blocked.map((p) => p.displayCode)).toEqual([
+			"A",
+			"B",
+			"C",
+			"D",
+		]);
+		expect([...plan.cycleLineIds].sort()).toEqual(["a", "b", "c"]);
+		// Each strip in the loop sits under the next one
+		const [first, second] = plan.cycleLineIds;
+		const overSecond = plan.blocked.find((p) => p.sourceLineId === second);
+		expect(overSecond?.restsOnLineIds).toContain(first);
+	});
+
+	it("follows the stacking order of multi-way joints", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 5, 10, 5));
+		lines.set("v", makeLine("v", 5, 0, 5, 10));
+		lines.set("d", makeLine("d", 0, 0, 10, 10));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 5, 3);
+		const [stack] = Array.from(intersections.values()).map((i) => i.stack);
+
+		const plan = planAssembly(intersections, strips);
+		const order = plan.steps.map((step) =>
+			step.placements.map((p) => p.sourceLineId),
+		);
+
+		expect(plan.feasible).toBe(true);
+		expect(order).toEqual(
+			[...(stack ?? [])].reverse().map((lineId) => [lineId]),
+		);
+		expect(plan.steps[1].placements[0].orientation).toBe("notches-both");
+	});
+});
@@ -0,0 +1,204 @@
+import type { DesignStrip, Intersection } from "./types";
+
+/**
+ * Which way up a strip is inserted, derived from the faces its notches are
+ * cut into:
+ * - "notches-up": the strip only sits under others; its notches face up to
+ *   receive the strips dropped on later
+ * - "notches-down": the strip only sits over others; it is lowered onto the
+ *   strips already in place with its notches facing down
+ * - "notches-both": the strip is over some strips and under others (always
+ *   the case for middle layers of multi-way joints)
+ * - "no-notches": the strip crosses nothing
+ */
+export type AssemblyOrientation =
+	| "notches-up"
+	| "notches-down"
+	| "notches-both"
+	| "no-notches";
+
+export interface AssemblyPlacement {
+	/** Geometry-derived strip id (DesignStrip.id) */
+	stripId: string;
+	/** Grid line the strip was derived from */
+	sourceLineId: string;
+	/** Short strip code shown to the user */
+	displayCode: string;
+	orientation: AssemblyOrientation;
+	/**
+	 * Source lines of the strips this one is lowered onto, i.e. that must
+	 * already be in place
+	 */
+	restsOnLineIds: string[];
+}
+
+export interface AssemblyStep {
+	/** 1-based step number */
+	index: number;
+	/** Strips that can be inserted in this step, in any order */
+	placements: AssemblyPlacement[];
+}
+
+export interface AssemblyPlan {
+	/** Whether every strip can be inserted without forcing one through another */
+	feasible: boolean;
+	steps: AssemblyStep[];
+	/** Strips that can never be inserted because of a stacking conflict */
+	blocked: AssemblyPlacement[];
+	/**
+	 * One conflicting loop of source line ids, each under the next and the
+	 * last under the first. Empty when the plan is feasible.
+	 */
+	cycleLineIds: string[];
+}
+
+function compareByDisplayCode(a: AssemblyPlacement, b: AssemblyPlacement) {
+	return a.displayCode.localeCompare(b.displayCode);
+}
+
+function orientationFor(
+	hasTop: boolean,
+	hasBottom: boolean,
+): AssemblyOrientation {
+	if (hasTop && hasBottom) return "notches-both";
+	if (hasTop) return "notches-up";
+	if (hasBottom) return "notches-down";
+	return "no-notches";
+}
+
+/**
+ * Plan the order in which strips are inserted into the lattice.
+ *
+ * Every crossing forces the under strip in before the over strip, so the
+ * stacking forms a directed graph. Strips are grouped into steps by
+ * repeatedly taking every strip whose under-neighbours are all in place. If
+ * the graph has a loop (A under B under ... under A) the remaining strips
+ * are reported as blocked, together with one offending loop.
+ *
+ * The graph is keyed by source line, since identical strips share a
+ * geometry-derived id.
+ */
+export function planAssembly(
+	intersections: Map<string, Intersection>,
+	strips: DesignStrip[],
+): AssemblyPlan {
+	// Edges point from the under strip to the over strip
+	const above = new Map<string, Set<string>>();
+	const below = new Map<string, Set<string>>();
+	const hasTopNotch = new Set<string>();
+	const hasBottomNotch = new Set<string>();
+	for (const strip of strips) {
+		above.set(strip.sourceLineId, new Set());
+		below.set(strip.sourceLineId, new Set());
+	}
+
+	const addCrossing = (overLineId: string, underLineId: string) => {
+		const overAbove = above.get(overLineId);
+		const underAbove = above.get(underLineId);
+		if (!overAbove || !underAbove || overLineId === underLineId) return;
+		underAbove.add(overLineId);
+		below.get(overLineId)?.add(underLineId);
+		hasBottomNotch.add(overLineId);
+		hasTopNotch.add(underLineId);
+	};
+
+	for (const intersection of intersections.values()) {
+		// Multi-way stacks are listed top to bottom; each layer rests on the
+		// one beneath it
+		const stack = intersection.stack ?? [
+			intersection.line1Over ? intersection.line1Id : intersection.line2Id,
+			intersection.line1Over ? intersection.line2Id : intersection.line1Id,
+		];
+		for (let k = 0; k < stack.length - 1; k++) {
+			addCrossing(stack[k], stack[k + 1]);
+		}
+	}
+
+	const placements = new Map<string, AssemblyPlacement>(
+		strips.map((strip) => [
+			strip.sourceLineId,
+			{
+				stripId: strip.id,
+				sourceLineId: strip.sourceLineId,
+				displayCode: strip.displayCode,
+				orientation: orientationFor(
+					hasTopNotch.has(strip.sourceLineId),
+					hasBottomNotch.has(strip.sourceLineId),
+				),
+				restsOnLineIds: Array.from(below.get(strip.sourceLineId) ?? []),
+			},
+		]),
+	);
+
+	// Layered topological sort (Kahn's algorithm)
+	const remainingBelow = new Map(
+		strips.map((strip) => [
+			strip.sourceLineId,
+			below.get(strip.sourceLineId)?.size ?? 0,
+		]),
+	);
+	const steps: AssemblyStep[] = [];
+	let ready = strips
+		.map((strip) => strip.sourceLineId)
+		.filter((lineId) => remainingBelow.get(lineId) === 0);
+
+	while (ready.length > 0) {
+		const next: string[] = [];
+		for (const id of ready) {
+			remainingBelow.delete(id);
+			for (const overId of above.get(id) ?? []) {
+				const count = (remainingBelow.get(overId) ?? 0) - 1;
+				remainingBelow.set(overId, count);
+				if (count === 0) next.push(overId);
+			}
+		}
+		steps.push({
+			index: steps.length + 1,
+			placements: ready
+				.map((id) => placements.get(id))
+				.filter((p): p is AssemblyPlacement => p !== undefined)
+				.sort(compareByDisplayCode),
+		});
+		ready = next;
+	}
+
+	const blockedIds = Array.from(remainingBelow.keys());
+	const blocked = blockedIds
+		.map((id) => placements.get(id))
+		.filter((p): p is AssemblyPlacement => p !== undefined)
+		.sort(compareByDisplayCode);
+
+	return {
+		feasible: blocked.length === 0,
+		steps,
+		blocked,
+		cycleLineIds: findCycle(new Set(blockedIds), below),
+	};
+}
+
+/**
+ * Find one loop among blocked strips. Every blocked strip has at least one
+ * blocked strip beneath it, so walking downwards must revisit a strip.
+ */
+function findCycle(
+	blockedIds: Set<string>,
+	below: Map<string, Set<string>>,
+): string[] {
+	const [start] = blockedIds;
+	if (start === undefined) return [];
+
+	const path: string[] = [];
+	const seen = new Map<string, number>();
+	let current: string | undefined = start;
+	while (current !== undefined && !seen.has(current)) {
+		seen.set(current, path.length);
+		path.push(current);
+		current = Array.from(below.get(current) ?? []).find((id) =>
+			blockedIds.has(id),
+		);
+	}
+	if (current === undefined) return [];
+
+	// The walk went downwards; report the loop bottom-up
+	return path.slice(seen.get(current)).reverse();
+}
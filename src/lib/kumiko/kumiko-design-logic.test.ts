@@ -1,11 +1,23 @@
 import { describe, expect, it } from "vitest";
 import {
+	applyIntersectionStack,
 	computeDesignStrips,
 	computeIntersections,
+	computeTJoints,
+	type DesignStripOptions,
+	migrateIntersectionStates,
 	normalizeStripNotches,
+	setIntersectionOrientation,
+	tJointKey,
 } from "./kumiko-design-logic";
 import { makeLine } from "./test-fixtures";
-import type { Intersection, Line, Notch } from "./types";
+import type {
+	DesignStrip,
+	FrameSettings,
+	Intersection,
+	Line,
+	Notch,
+} from "./types";
 
 describe("computeIntersections()", () => {
 	it("detects a single intersection with horizontal-over-vertical heuristic", () => {
@@ -33,8 +45,9 @@ describe("computeIntersections()", () => {
 		lines.set("h", makeLine("h", 0, 0, 10, 0));
 		lines.set("v", makeLine("v", 5, -5, 5, 5));
 
+		// Keyed by coordinate plus both line directions, horizontal first
 		const intersectionStates = new Map<string, boolean>();
-		intersectionStates.set("int_h_v", false);
+		intersectionStates.set("5,0:1,0:0,1", false);
 
 		const intersections = computeIntersections(lines, intersectionStates);
 		const int = Array.from(intersections.values())[0];
@@ -80,6 +93,78 @@ describe("computeIntersections()", () => {
 		// (no notch is needed - the vertical strip just ends at the horizontal strip)
 		expect(intersections.size).toBe(0);
 	});
+
+	it("models three lines crossing at one point as a stacked joint", () => {
+		const lines = new Map<string, Line>();
+		lines.set("d", makeLine("d", 0, 0, 10, 10));
+		lines.set("h", makeLine("h", 0, 5, 10, 5));
+		lines.set("v", makeLine("v", 5, 0, 5, 10));
+
+		const intersections = computeIntersections(lines, new Map());
+
+		expect(intersections.size).toBe(1);
+		const int = Array.from(intersections.values())[0];
+		expect(int.x).toBe(5);
+		expect(int.y).toBe(5);
+		// Horizontal over vertical, otherwise drawing order
+		expect(int.stack).toEqual(["d", "h", "v"]);
+	});
+
+	it("reorders a stacked joint from pairwise states", () => {
+		const lines = new Map<string, Line>();
+		lines.set("d", makeLine("d", 0, 0, 10, 10));
+		lines.set("h", makeLine("h", 0, 5, 10, 5));
+		lines.set("v", makeLine("v", 5, 0, 5, 10));
+
+		const [initial] = computeIntersections(lines, new Map()).values();
+		const states = applyIntersectionStack(new Map(), lines, initial, [
+			"v",
+			"d",
+			"h",
+		]);
+		const int = Array.from(computeIntersections(lines, states).values())[0];
+
+		expect(int.stack).toEqual(["v", "d", "h"]);
+		expect(states.get("5,5:1,0:0,1")).toBe(false);
+	});
+
+	it("keeps over/under choices when line ids change", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 0, 10, 0));
+		lines.set("v", makeLine("v", 5, -5, 5, 5));
+
+		const [int] = computeIntersections(lines, new Map()).values();
+		const states = setIntersectionOrientation(new Map(), lines, int, false);
+
+		// Same geometry, new ids and reversed drawing direction
+		const redrawn = new Map<string, Line>();
+		redrawn.set("v2", makeLine("v2", 5, 5, 5, -8));
+		redrawn.set("h2", makeLine("h2", 10, 0, -2, 0));
+
+		const [after] = computeIntersections(redrawn, states).values();
+		expect(after.line1Id).toBe("v2");
+		expect(after.line1Over).toBe(true);
+	});
+});
+
+describe("migrateIntersectionStates()", () => {
+	it("converts line-id keys to geometry keys using the saved lines", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 0, 10, 0));
+		lines.set("v", makeLine("v", 5, -5, 5, 5));
+
+		const migrated = migrateIntersectionStates(
+			lines,
+			new Map([
+				["int_h_v", false],
+				["int_gone_line", true],
+			]),
+		);
+
+		expect(Array.from(migrated.entries())).toEqual([["5,0:1,0:0,1", false]]);
+		const [int] = computeIntersections(lines, migrated).values();
+		expect(int.line1Over).toBe(false);
+	});
 });
 
 describe("computeDesignStrips()", () => {
@@ -336,6 +421,456 @@ describe("computeDesignStrips()", () => {
 		expect(vertical.notches).toHaveLength(1);
 		expect(vertical.notches[0].fromTop).toBe(true);
 	});
+
+	it("uses bit width for notches on perpendicular crossings", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 0, 10, 0));
+		lines.set("v", makeLine("v", 5, -5, 5, 5));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 1, 3);
+
+		for (const strip of strips) {
+			expect(strip.notches[0].angle).toBeCloseTo(90, 5);
+			expect(strip.notches[0].width).toBeCloseTo(3, 5);
+		}
+	});
+
+	it("widens notches on diagonal crossings by 1/sin(angle)", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 5, 10, 5));
+		lines.set("d", makeLine("d", 0, 0, 10, 10));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 1, 3);
+
+		expect(strips).toHaveLength(2);
+		for (const strip of strips) {
+			expect(strip.notches).toHaveLength(1);
+			expect(strip.notches[0].angle).toBeCloseTo(45, 5);
+			expect(strip.notches[0].width).toBeCloseTo(3 * Math.SQRT2, 5);
+		}
+	});
+
+	it("sizes notches and butt trims from the strip thickness", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 0, 20, 0));
+		lines.set("d", makeLine("d", 0, -5, 10, 5));
+		// T-joint: vertical butts against the horizontal strip
+		lines.set("v", makeLine("v", 15, 0, 15, 20));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 1, 3, {
+			stripThickness: 19,
+		});
+
+		const horizontal = strips.find((s) => s.sourceLineId === "h");
+		const vertical = strips.find((s) => s.sourceLineId === "v");
+		if (!horizontal || !vertical) throw new Error("Strip not found");
+
+		expect(horizontal.notches[0].width).toBeCloseTo(19 * Math.SQRT2, 5);
+		expect(vertical.lengthMM).toBeCloseTo(20 - 19 / 2, 5);
+	});
+
+	it("gives diagonal strips a different id than square strips with the same notch positions", () => {
+		const square = new Map<string, Line>();
+		square.set("h", makeLine("h", 0, 0, 10, 0));
+		square.set("v", makeLine("v", 5, -5, 5, 5));
+
+		const diagonal = new Map<string, Line>();
+		diagonal.set("h", makeLine("h", 0, 0, 10, 0));
+		diagonal.set("d", makeLine("d", 0, -5, 10, 5));
+
+		const squareStrips = computeDesignStrips(
+			square,
+			computeIntersections(square, new Map()),
+			1,
+			3,
+		);
+		const diagonalStrips = computeDesignStrips(
+			diagonal,
+			computeIntersections(diagonal, new Map()),
+			1,
+			3,
+		);
+
+		const squareH = squareStrips.find((s) => s.sourceLineId === "h");
+		const diagonalH = diagonalStrips.find((s) => s.sourceLineId === "h");
+		if (!squareH || !diagonalH) throw new Error("Horizontal strip not found");
+
+		expect(squareH.notches[0].dist).toBeCloseTo(diagonalH.notches[0].dist, 5);
+		expect(squareH.id).not.toBe(diagonalH.id);
+	});
+
+	it("cuts thirds of the full depth at three-way joints", () => {
+		const lines = new Map<string, Line>();
+		lines.set("a", makeLine("a", 0, 2, 4, 2));
+		lines.set("b", makeLine("b", 2, 0, 2, 4));
+		lines.set("c", makeLine("c", 4, 0, 0, 4));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 10, 3, {
+			gridType: "triangular",
+			cutDepth: 18,
+		});
+
+		const top = strips.find((s) => s.sourceLineId === "a");
+		const middle = strips.find((s) => s.sourceLineId === "b");
+		const bottom = strips.find((s) => s.sourceLineId === "c");
+		if (!top || !middle || !bottom) throw new Error("Strip not found");
+
+		// Top strip keeps its upper third: two-thirds notch from below
+		// (normalized to the top face since it is the strip's only notch)
+		expect(top.notches).toHaveLength(1);
+		expect(top.notches[0].depth).toBeCloseTo(12, 5);
+
+		// Middle strip: one-third notches from both faces
+		expect(middle.notches).toHaveLength(2);
+		expect(middle.notches.map((n) => n.fromTop).sort()).toEqual([false, true]);
+		for (const notch of middle.notches) {
+			expect(notch.depth).toBeCloseTo(6, 5);
+			expect(notch.angle).toBeCloseTo(60, 5);
+			expect(notch.width).toBeCloseTo(3 / Math.sin(Math.PI / 3), 5);
+		}
+
+		expect(bottom.notches).toHaveLength(1);
+		expect(bottom.notches[0].fromTop).toBe(true);
+		expect(bottom.notches[0].depth).toBeCloseTo(12, 5);
+	});
+
+	it("measures lengths and 60° notches on a triangular grid", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 2, 6, 2));
+		lines.set("s", makeLine("s", 2, 0, 2, 4));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 10, 3, {
+			gridType: "triangular",
+		});
+
+		const horizontal = strips.find((s) => s.sourceLineId === "h");
+		const slanted = strips.find((s) => s.sourceLineId === "s");
+		if (!horizontal || !slanted) throw new Error("Strip not found");
+
+		expect(horizontal.lengthMM).toBeCloseTo(60, 5);
+		expect(slanted.lengthMM).toBeCloseTo(40, 5);
+		expect(horizontal.notches[0].dist).toBeCloseTo(20, 5);
+		expect(slanted.notches[0].dist).toBeCloseTo(20, 5);
+		expect(horizontal.notches[0].angle).toBeCloseTo(60, 5);
+		expect(horizontal.notches[0].width).toBeCloseTo(
+			3 / Math.sin(Math.PI / 3),
+			5,
+		);
+	});
+
+	it("uses separate cell width and height for rectangular cells", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 2, 3, 2));
+		lines.set("v", makeLine("v", 1, 0, 1, 3));
+		lines.set("d", makeLine("d", 0, 0, 3, 3));
+
+		const intersections = computeIntersections(lines, new Map());
+		const strips = computeDesignStrips(lines, intersections, 40, 3, {
+			gridCellSizeY: 60,
+		});
+
+		const horizontal = strips.find((s) => s.sourceLineId === "h");
+		const vertical = strips.find((s) => s.sourceLineId === "v");
+		const diagonal = strips.find((s) => s.sourceLineId === "d");
+		if (!horizontal || !vertical || !diagonal) {
+			throw new Error("Strip not found");
+		}
+
+		expect(horizontal.lengthMM).toBeCloseTo(120, 5);
+		expect(vertical.lengthMM).toBeCloseTo(180, 5);
+		expect(diagonal.lengthMM).toBeCloseTo(Math.hypot(120, 180), 5);
+
+		const notchDists = (strip: typeof vertical) =>
+			strip.notches.map((n) => n.dist).sort((a, b) => a - b);
+		expect(notchDists(vertical)[0]).toBeCloseTo(60, 5);
+		expect(notchDists(vertical)[1]).toBeCloseTo(120, 5);
+		expect(notchDists(horizontal)[0]).toBeCloseTo(40, 5);
+		expect(notchDists(horizontal)[1]).toBeCloseTo(80, 5);
+
+		// The diagonal of a 40 × 60 cell meets the horizontal at atan(60/40)
+		const diagonalNotch = horizontal.notches.find(
+			(n) => Math.abs(n.dist - 80) < 1e-6,
+		);
+		expect(diagonalNotch?.angle).toBeCloseTo(
+			(Math.atan2(60, 40) * 180) / Math.PI,
+			5,
+		);
+	});
+
+	describe("with T-joint types", () => {
+		const teeLines = () => {
+			const lines = new Map<string, Line>();
+			lines.set("h", makeLine("h", 0, 0, 10, 0));
+			lines.set("v", makeLine("v", 5, 0, 5, 5));
+			return lines;
+		};
+		const stripsFor = (options: DesignStripOptions) => {
+			const lines = teeLines();
+			const strips = computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				4,
+				options,
+			);
+			const receiving = strips.find((s) => s.sourceLineId === "h");
+			const butting = strips.find((s) => s.sourceLineId === "v");
+			if (!receiving || !butting) throw new Error("Strip not found");
+			return { receiving, butting };
+		};
+
+		it("trims plain butt joints by default", () => {
+			const { receiving, butting } = stripsFor({});
+			expect(butting.lengthMM).toBeCloseTo(48, 5);
+			expect(butting.startJoint).toBe("butt");
+			expect(butting.notches).toHaveLength(0);
+			expect(receiving.notches).toHaveLength(0);
+		});
+
+		it("runs a stub tenon to the centreline and mortises the other strip", () => {
+			const { receiving, butting } = stripsFor({ tJointType: "tenon" });
+			expect(butting.lengthMM).toBeCloseTo(50, 5);
+			expect(butting.startJoint).toBe("tenon");
+			expect(butting.notches).toHaveLength(1);
+			expect(butting.notches[0].dist).toBeCloseTo(1, 5);
+			expect(butting.notches[0].width).toBeCloseTo(2, 5);
+
+			expect(receiving.notches).toHaveLength(1);
+			expect(receiving.notches[0].dist).toBeCloseTo(50, 5);
+			expect(receiving.notches[0].width).toBeCloseTo(4, 5);
+			expect(receiving.notches[0].otherLineId).toBe("v");
+		});
+
+		it("runs a half-lap through the other strip", () => {
+			const { receiving, butting } = stripsFor({ tJointType: "half-lap" });
+			expect(butting.lengthMM).toBeCloseTo(52, 5);
+			expect(butting.startJoint).toBe("half-lap");
+			expect(butting.notches[0].dist).toBeCloseTo(2, 5);
+			expect(butting.notches[0].width).toBeCloseTo(4, 5);
+			expect(receiving.notches.map((n) => n.dist)).toEqual([50]);
+		});
+
+		it("uses the joint type chosen for a single joint", () => {
+			const { butting } = stripsFor({
+				tJointTypes: new Map([[tJointKey(5, 0), "half-lap"]]),
+			});
+			expect(butting.lengthMM).toBeCloseTo(52, 5);
+		});
+
+		it("lists each T-joint with its type", () => {
+			expect(
+				computeTJoints(teeLines(), {
+					tJointType: "tenon",
+					tJointTypes: new Map([[tJointKey(9, 9), "half-lap"]]),
+				}),
+			).toEqual([
+				{
+					x: 5,
+					y: 0,
+					lineId: "v",
+					end: "start",
+					otherLineId: "h",
+					type: "tenon",
+				},
+			]);
+		});
+	});
+
+	describe("with bevelled ends", () => {
+		const diagonalTee = (diagonal: Line) => {
+			const lines = new Map<string, Line>();
+			lines.set("h", makeLine("h", 0, 0, 10, 0));
+			lines.set(diagonal.id, diagonal);
+			return lines;
+		};
+		const stripsFor = (lines: Map<string, Line>, options = {}) =>
+			computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				4,
+				options,
+			);
+
+		it("bevels a diagonal strip butting a straight one and trims it to the long point", () => {
+			const strips = stripsFor(diagonalTee(makeLine("d", 5, 0, 10, 5)));
+			const diagonal = strips.find((s) => s.sourceLineId === "d");
+			const straight = strips.find((s) => s.sourceLineId === "h");
+
+			expect(diagonal?.startCutAngle).toBeCloseTo(45, 5);
+			expect(diagonal?.endCutAngle).toBeUndefined();
+			// 2 mm to the face along the square edge, 2√2 mm along the centreline
+			expect(diagonal?.lengthMM).toBeCloseTo(
+				50 * Math.SQRT2 - (2 * Math.SQRT2 - 2),
+				5,
+			);
+			expect(straight?.startCutAngle).toBeUndefined();
+		});
+
+		it("negates the bevel for a strip drawn the other way but keeps its id", () => {
+			const forward = stripsFor(diagonalTee(makeLine("d", 5, 0, 10, 5))).find(
+				(s) => s.sourceLineId === "d",
+			);
+			const reversed = stripsFor(diagonalTee(makeLine("d", 10, 5, 5, 0))).find(
+				(s) => s.sourceLineId === "d",
+			);
+
+			expect(reversed?.endCutAngle).toBeCloseTo(-45, 5);
+			expect(reversed?.id).toBe(forward?.id);
+		});
+
+		it("runs a bevelled stub tenon past the centreline to its long point", () => {
+			const strips = stripsFor(diagonalTee(makeLine("d", 5, 0, 10, 5)), {
+				tJointType: "tenon",
+			});
+			const diagonal = strips.find((s) => s.sourceLineId === "d");
+
+			expect(diagonal?.lengthMM).toBeCloseTo(50 * Math.SQRT2 + 2, 5);
+			expect(diagonal?.notches[0].width).toBeCloseTo(2 * Math.SQRT2 + 2, 5);
+		});
+
+		it("leaves square crossings square", () => {
+			const strips = stripsFor(diagonalTee(makeLine("v", 5, 0, 5, 5)));
+			for (const strip of strips) {
+				expect(strip.startCutAngle).toBeUndefined();
+				expect(strip.endCutAngle).toBeUndefined();
+			}
+		});
+	});
+
+	describe("with a frame", () => {
+		const framedLines = () => {
+			const lines = new Map<string, Line>();
+			lines.set("top", makeLine("top", 0, 0, 10, 0));
+			lines.set("bottom", makeLine("bottom", 0, 10, 10, 10));
+			lines.set("left", makeLine("left", 0, 0, 0, 10));
+			lines.set("right", makeLine("right", 10, 0, 10, 10));
+			lines.set("v", makeLine("v", 5, 0, 5, 10));
+			lines.set("h", makeLine("h", 0, 5, 10, 5));
+			return lines;
+		};
+		const frame: FrameSettings = {
+			x1: 0,
+			y1: 0,
+			x2: 10,
+			y2: 10,
+			width: 30,
+			thickness: 20,
+			corner: "mitre",
+			cornerTenonLength: 20,
+			latticeJoint: "tenon",
+			latticeAllowance: 6,
+		};
+		const stripFor = (strips: DesignStrip[], lineId: string) => {
+			const strip = strips.find((s) => s.sourceLineId === lineId);
+			if (!strip) throw new Error(`Strip for ${lineId} not found`);
+			return strip;
+		};
+
+		it("extends mitred frame members to the outer edge at both corners", () => {
+			const lines = framedLines();
+			const strips = computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				3,
+				{ frame },
+			);
+
+			for (const id of ["top", "bottom", "left", "right"]) {
+				const member = stripFor(strips, id);
+				expect(member.lengthMM).toBeCloseTo(130, 5);
+				expect(member.startJoint).toBe("mitre");
+				expect(member.endJoint).toBe("mitre");
+				expect(member.hasStartButt).toBe(false);
+			}
+			expect(stripFor(strips, "top").frameMember).toBe("rail");
+			expect(stripFor(strips, "left").frameMember).toBe("stile");
+		});
+
+		it("bevels mitred corners with the long point on the outer edge", () => {
+			const lines = framedLines();
+			const strips = computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				3,
+				{ frame },
+			);
+
+			// The top rail runs left to right, so its outer edge is on its left
+			expect(stripFor(strips, "top").startCutAngle).toBe(-45);
+			expect(stripFor(strips, "top").endCutAngle).toBe(-45);
+			expect(stripFor(strips, "bottom").startCutAngle).toBe(45);
+			// The left stile runs downwards, so its outer edge is on its right
+			expect(stripFor(strips, "left").endCutAngle).toBe(45);
+			expect(stripFor(strips, "right").endCutAngle).toBe(-45);
+			expect(stripFor(strips, "v").startCutAngle).toBeUndefined();
+		});
+
+		it("runs stiles through and tenons the rails at tenoned corners", () => {
+			const lines = framedLines();
+			const strips = computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				3,
+				{ frame: { ...frame, corner: "tenon" } },
+			);
+
+			const stile = stripFor(strips, "left");
+			const rail = stripFor(strips, "top");
+			expect(stile.lengthMM).toBeCloseTo(130, 5);
+			expect(stile.startJoint).toBeUndefined();
+			// 100 mm between centrelines, less the stile width, plus two tenons
+			expect(rail.lengthMM).toBeCloseTo(110, 5);
+			expect(rail.startJoint).toBe("tenon");
+			expect(rail.endJoint).toBe("tenon");
+		});
+
+		it("gives lattice strips the frame allowance instead of a butt trim", () => {
+			const lines = framedLines();
+			const strips = computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				3,
+				{ frame: { ...frame, latticeJoint: "housing" } },
+			);
+
+			const lattice = stripFor(strips, "v");
+			// Trimmed back to the inner edge (15 mm) less the 6 mm allowance
+			expect(lattice.lengthMM).toBeCloseTo(82, 5);
+			expect(lattice.startJoint).toBe("housing");
+			expect(lattice.endJoint).toBe("housing");
+			expect(lattice.hasStartButt).toBe(true);
+			expect(lattice.frameMember).toBeUndefined();
+			expect(lattice.notches.map((n) => n.dist)).toEqual([41]);
+		});
+
+		it("never shares an id between a frame member and a lattice strip", () => {
+			const lines = new Map<string, Line>();
+			lines.set("top", makeLine("top", 0, 0, 10, 0));
+			lines.set("bottom", makeLine("bottom", 0, 10, 10, 10));
+			lines.set("loose", makeLine("loose", 20, 0, 30, 0));
+			const strips = computeDesignStrips(
+				lines,
+				computeIntersections(lines, new Map()),
+				10,
+				3,
+				{ frame: { ...frame, width: 0 } },
+			);
+
+			expect(stripFor(strips, "top").lengthMM).toBeCloseTo(100, 5);
+			expect(stripFor(strips, "loose").lengthMM).toBeCloseTo(100, 5);
+			expect(stripFor(strips, "top").id).not.toBe(stripFor(strips, "loose").id);
+		});
+	});
 });
 
 describe("normalizeStripNotches()", () => {
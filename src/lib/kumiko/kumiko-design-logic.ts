@@ -1,5 +1,31 @@
-import { findIntersection, gcd, isPointOnLineInterior } from "./geometry";
-import type { DesignStrip, Intersection, Line, Notch } from "./types";
+import { DEFAULT_CUT_DEPTH } from "./config";
+import {
+	crossingAngleDegrees,
+	findIntersection,
+	gcd,
+	isPointOnLineInterior,
+	latticeToCartesian,
+} from "./geometry";
+import {
+	frameCornerExtension,
+	frameLatticeTrim,
+	frameMemberRole,
+	frameMitreAngle,
+	isFrameCorner,
+} from "./kumiko-frame";
+import type {
+	DesignStrip,
+	FrameMemberRole,
+	FrameSettings,
+	GridType,
+	Intersection,
+	Line,
+	Notch,
+	Point,
+	StripEndJoint,
+	TJoint,
+	TJointType,
+} from "./types";
 import { newId } from "./utils";
 
 // ============================================================================
@@ -12,10 +38,51 @@ const EDGE_EPSILON_MM = 1e-3;
 /** Minimum strip length in mm to be considered valid (filters out degenerate strips) */
 const MIN_STRIP_LENGTH_MM = 1;
 
+/** Tolerance in degrees for treating a crossing as perpendicular */
+const RIGHT_ANGLE_EPSILON_DEG = 1e-6;
+
 // ============================================================================
 // Types
 // ============================================================================
 
+/** Optional physical settings for computeDesignStrips */
+export interface DesignStripOptions {
+	/**
+	 * Thickness of the strips in mm. Determines notch widths and how much a
+	 * butted strip is trimmed. Defaults to the bit size.
+	 */
+	stripThickness?: number;
+	/** Lattice the line coordinates refer to. Defaults to "square". */
+	gridType?: GridType;
+	/**
+	 * Physical height of a grid cell in mm, for rectangular cells. The
+	 * gridCellSize argument is then the cell width. Defaults to
+	 * gridCellSize (square cells).
+	 */
+	gridCellSizeY?: number;
+	/**
+	 * Full depth of the strips in mm. Notches at multi-way joints are cut in
+	 * fractions of this depth. Defaults to DEFAULT_CUT_DEPTH.
+	 */
+	cutDepth?: number;
+	/**
+	 * Outer frame of the panel. Lines on its sides get frame member lengths
+	 * for the chosen corner joint, and lattice strips ending on it get the
+	 * frame's tenon or housing allowance instead of a butt trim.
+	 */
+	frame?: FrameSettings;
+	/** Joint made where a strip ends on another strip. Defaults to "butt". */
+	tJointType?: TJointType;
+	/** Per-joint overrides of tJointType, keyed by tJointKey */
+	tJointTypes?: Map<string, TJointType>;
+}
+
+/** Physical size of one grid cell in mm along each axis */
+interface CellSize {
+	x: number;
+	y: number;
+}
+
 /** Information about a butt joint at a line endpoint */
 interface ButtJointInfo {
 	/** Whether the line's start endpoint butts against another line's interior */
@@ -26,6 +93,16 @@ interface ButtJointInfo {
 	trimStartMM: number;
 	/** Amount to trim from the end (mm) */
 	trimEndMM: number;
+	startJoint?: StripEndJoint;
+	endJoint?: StripEndJoint;
+	/** Length of the halved tongue at the start of a tenon or half-lap (mm) */
+	startTongueMM: number;
+	/** Length of the halved tongue at the end of a tenon or half-lap (mm) */
+	endTongueMM: number;
+	/** Bevel of the start cut in degrees from square (see DesignStrip) */
+	startCutAngle: number;
+	/** Bevel of the end cut in degrees from square (see DesignStrip) */
+	endCutAngle: number;
 }
 
 // ============================================================================
@@ -48,77 +125,434 @@ function distanceFromLineStart(
 	line: Line,
 	px: number,
 	py: number,
-	cellSize: number,
+	cellSize: CellSize,
+	gridType: GridType,
 ): number {
-	const dxMM = (px - line.x1) * cellSize;
-	const dyMM = (py - line.y1) * cellSize;
+	const delta = latticeToCartesian(px - line.x1, py - line.y1, gridType);
+	const dxMM = delta.x * cellSize.x;
+	const dyMM = delta.y * cellSize.y;
 	return Math.sqrt(dxMM * dxMM + dyMM * dyMM);
 }
 
 /**
  * Calculate the geometric length of a line in mm.
  */
-function lineGeometricLengthMM(line: Line, cellSize: number): number {
-	const dxMM = (line.x2 - line.x1) * cellSize;
-	const dyMM = (line.y2 - line.y1) * cellSize;
-	return Math.sqrt(dxMM * dxMM + dyMM * dyMM);
+function lineGeometricLengthMM(
+	line: Line,
+	cellSize: CellSize,
+	gridType: GridType,
+): number {
+	return distanceFromLineStart(line, line.x2, line.y2, cellSize, gridType);
+}
+
+/**
+ * Unit vector along a line in physical space, from its start to its end.
+ */
+function physicalDirection(
+	line: Line,
+	cellSize: CellSize,
+	gridType: GridType,
+): Point {
+	const delta = latticeToCartesian(
+		line.x2 - line.x1,
+		line.y2 - line.y1,
+		gridType,
+	);
+	const x = delta.x * cellSize.x;
+	const y = delta.y * cellSize.y;
+	const length = Math.hypot(x, y);
+	return length > 0 ? { x: x / length, y: y / length } : { x: 0, y: 0 };
+}
+
+/**
+ * Bevel in degrees from square of a strip end cut to sit flat against
+ * another strip, signed as for DesignStrip.startCutAngle. The two faces of
+ * the strip reach the other strip's face at different points along it;
+ * the face that reaches further has the long point.
+ */
+function endCutAngle(
+	line: Line,
+	end: "start" | "end",
+	other: Line,
+	cellSize: CellSize,
+	gridType: GridType,
+): number {
+	const dir = physicalDirection(line, cellSize, gridType);
+	const otherDir = physicalDirection(other, cellSize, gridType);
+	// Normal of the other strip's face, and this strip's right-hand normal
+	const faceNormal = { x: -otherDir.y, y: otherDir.x };
+	const rightNormal = { x: -dir.y, y: dir.x };
+	const sign = end === "end" ? 1 : -1;
+	const along = sign * (dir.x * faceNormal.x + dir.y * faceNormal.y);
+	const across = rightNormal.x * faceNormal.x + rightNormal.y * faceNormal.y;
+	if (Math.abs(along) < EDGE_EPSILON_MM) return 0;
+
+	const angle = (Math.atan(Math.abs(across / along)) * 180) / Math.PI;
+	if (angle < RIGHT_ANGLE_EPSILON_DEG) return 0;
+	return -across / along > 0 ? angle : -angle;
+}
+
+/**
+ * How far the long point of a bevelled end reaches past the strip's
+ * centreline, in mm.
+ */
+function longPointOffset(thicknessMM: number, cutAngle: number): number {
+	return (thicknessMM / 2) * Math.tan((Math.abs(cutAngle) * Math.PI) / 180);
+}
+
+/**
+ * Width in mm of the opening needed for a strip of the given thickness to
+ * pass through another strip at the given crossing angle.
+ */
+function notchWidthForAngle(thicknessMM: number, angleDeg: number): number {
+	if (angleDeg <= 0) return thicknessMM;
+	return thicknessMM / Math.sin((angleDeg * Math.PI) / 180);
+}
+
+/**
+ * Default stacking for a pair of crossing lines: horizontal lines sit on top
+ * of vertical ones, otherwise the first line is on top.
+ */
+function defaultLine1Over(line1: Line, line2: Line): boolean {
+	const isLine1Horizontal = line1.y1 === line1.y2;
+	const isLine2Horizontal = line2.y1 === line2.y2;
+	const isLine1Vertical = line1.x1 === line1.x2;
+	const isLine2Vertical = line2.x1 === line2.x2;
+
+	if (isLine1Horizontal && isLine2Vertical) return true;
+	if (isLine1Vertical && isLine2Horizontal) return false;
+	return true;
+}
+
+/**
+ * Reduced direction of a line in lattice units, oriented so that it points
+ * "down" the grid (dy > 0), or right for horizontal lines (dy = 0, dx > 0).
+ * Collinear lines share a direction regardless of how they were drawn.
+ */
+export function lineDirection(line: Line): Point {
+	let dx = line.x2 - line.x1;
+	let dy = line.y2 - line.y1;
+	const divisor = gcd(Math.abs(dx), Math.abs(dy)) || 1;
+	dx /= divisor;
+	dy /= divisor;
+	if (dy < 0 || (dy === 0 && dx < 0)) {
+		dx = -dx;
+		dy = -dy;
+	}
+	return { x: dx, y: dy };
+}
+
+/**
+ * Geometry-based key for the over/under state of two lines crossing at a
+ * point: the coordinate plus both line directions. Unlike line ids, this
+ * survives line normalization, unrelated edits and reloads.
+ *
+ * The pair is ordered by direction angle (horizontal first), and the stored
+ * boolean says whether that first line is on top. `aFirst` tells whether
+ * line `a` is the first line of the ordered pair.
+ */
+function pairStateKey(
+	x: number,
+	y: number,
+	a: Line,
+	b: Line,
+): { key: string; aFirst: boolean } {
+	const dirA = lineDirection(a);
+	const dirB = lineDirection(b);
+	const angleA = Math.atan2(dirA.y, dirA.x);
+	const angleB = Math.atan2(dirB.y, dirB.x);
+	const aFirst = angleA <= angleB;
+	const [first, second] = aFirst ? [dirA, dirB] : [dirB, dirA];
+	return {
+		key: `${x},${y}:${first.x},${first.y}:${second.x},${second.y}`,
+		aFirst,
+	};
+}
+
+/**
+ * Read whether line `a` is on top of line `b` at the given point, or
+ * undefined when no choice has been stored.
+ */
+function readPairState(
+	intersectionStates: Map<string, boolean>,
+	x: number,
+	y: number,
+	a: Line,
+	b: Line,
+): boolean | undefined {
+	const { key, aFirst } = pairStateKey(x, y, a, b);
+	const firstOver = intersectionStates.get(key);
+	if (firstOver === undefined) return undefined;
+	return aFirst ? firstOver : !firstOver;
+}
+
+/**
+ * Store whether line `a` is on top of line `b` at the given point.
+ */
+function writePairState(
+	intersectionStates: Map<string, boolean>,
+	x: number,
+	y: number,
+	a: Line,
+	b: Line,
+	aOver: boolean,
+): void {
+	const { key, aFirst } = pairStateKey(x, y, a, b);
+	intersectionStates.set(key, aFirst ? aOver : !aOver);
 }
 
 /**
  * Detect butt joints for a line (T-joints where this line ends at another line's interior).
  * Returns trimming information for both endpoints.
+ *
+ * Plain butts are trimmed back to the other strip's face. A stub tenon
+ * runs on to the other strip's centreline and a half-lap through to its
+ * far face; both end in a tongue that is halved to fit the other strip's
+ * notch.
+ *
+ * With a frame, frame members are extended at its corners according to the
+ * corner joint, and lattice strips ending inside a frame member are trimmed
+ * by the frame's allowance rather than half a strip thickness.
+ *
+ * Ends meeting another strip at an angle are bevelled to lie flat against
+ * it. Trims are measured to the long point of the bevel, so lengths are
+ * those of the blanks to cut.
  */
 function detectButtJoints(
 	line: Line,
 	allLines: Map<string, Line>,
-	bitSize: number,
+	tJoints: Map<string, TJoint>,
+	stripThicknessMM: number,
+	cellSize: CellSize,
+	gridType: GridType,
+	frame?: FrameSettings,
 ): ButtJointInfo {
 	const otherLines = Array.from(allLines.values()).filter(
 		(l) => l.id !== line.id,
 	);
+	const role = frame ? frameMemberRole(line, frame) : null;
+
+	const endInfo = (
+		end: "start" | "end",
+	): {
+		butt: boolean;
+		trimMM: number;
+		tongueMM: number;
+		joint?: StripEndJoint;
+		cutAngle: number;
+	} => {
+		const x = end === "start" ? line.x1 : line.x2;
+		const y = end === "start" ? line.y1 : line.y2;
+
+		if (frame && role && isFrameCorner(x, y, frame)) {
+			const mitre = frame.corner === "mitre";
+			return {
+				butt: false,
+				trimMM: -frameCornerExtension(role, frame),
+				tongueMM: 0,
+				joint: mitre ? "mitre" : role === "rail" ? "tenon" : undefined,
+				cutAngle: mitre ? frameMitreAngle(line, frame) : 0,
+			};
+		}
 
-	const hasStartButt = otherLines.some((other) =>
-		isPointOnLineInterior(line.x1, line.y1, other),
-	);
-	const hasEndButt = otherLines.some((other) =>
-		isPointOnLineInterior(line.x2, line.y2, other),
-	);
+		const tJoint = tJoints.get(`${line.id}:${end}`);
+		const target = tJoint
+			? allLines.get(tJoint.otherLineId)
+			: otherLines.find((other) => isPointOnLineInterior(x, y, other));
+		const cutAngle = target
+			? endCutAngle(line, end, target, cellSize, gridType)
+			: 0;
+		// Centreline distances grow as 1/cos of the bevel, and the long point
+		// reaches past the centreline
+		const slope = 1 / Math.cos((cutAngle * Math.PI) / 180);
+		const longPointMM = longPointOffset(stripThicknessMM, cutAngle);
+
+		if (tJoint) {
+			// Length of this strip inside the other one
+			const throughMM = stripThicknessMM * slope;
+			if (tJoint.type === "butt") {
+				return {
+					butt: true,
+					trimMM: throughMM / 2 - longPointMM,
+					tongueMM: 0,
+					joint: "butt",
+					cutAngle,
+				};
+			}
+			return tJoint.type === "tenon"
+				? {
+						butt: true,
+						trimMM: -longPointMM,
+						tongueMM: throughMM / 2 + longPointMM,
+						joint: "tenon",
+						cutAngle,
+					}
+				: {
+						butt: true,
+						trimMM: -throughMM / 2 - longPointMM,
+						tongueMM: throughMM + longPointMM,
+						joint: "half-lap",
+						cutAngle,
+					};
+		}
+
+		if (frame && !role && target && frameMemberRole(target, frame)) {
+			return {
+				butt: true,
+				trimMM: frameLatticeTrim(frame) * slope - longPointMM,
+				tongueMM: 0,
+				joint: frame.latticeJoint,
+				cutAngle,
+			};
+		}
+		return { butt: false, trimMM: 0, tongueMM: 0, cutAngle: 0 };
+	};
+
+	const start = endInfo("start");
+	const end = endInfo("end");
 
 	return {
-		hasStartButt,
-		hasEndButt,
-		trimStartMM: hasStartButt ? bitSize / 2 : 0,
-		trimEndMM: hasEndButt ? bitSize / 2 : 0,
+		hasStartButt: start.butt,
+		hasEndButt: end.butt,
+		trimStartMM: start.trimMM,
+		trimEndMM: end.trimMM,
+		startJoint: start.joint,
+		endJoint: end.joint,
+		startTongueMM: start.tongueMM,
+		endTongueMM: end.tongueMM,
+		startCutAngle: start.cutAngle,
+		endCutAngle: end.cutAngle,
 	};
 }
 
+/**
+ * Notches for the T-joints at the ends of a line and in its interior: the
+ * halved tongue at a tenoned or half-lapped end, cut from the bottom, and
+ * the matching mortise notch, cut from the top, where another strip's
+ * tenon or half-lap meets this one.
+ */
+function computeTJointNotches(
+	line: Line,
+	allLines: Map<string, Line>,
+	tJoints: TJoint[],
+	buttJoints: ButtJointInfo,
+	cellSize: CellSize,
+	finalLengthMM: number,
+	stripThicknessMM: number,
+	gridType: GridType,
+): Notch[] {
+	const notches: Notch[] = [];
+	const angleWith = (otherLineId: string) => {
+		const other = allLines.get(otherLineId);
+		return other
+			? crossingAngleDegrees(line, other, gridType, cellSize.y / cellSize.x)
+			: 90;
+	};
+
+	for (const joint of tJoints) {
+		if (joint.type === "butt") continue;
+
+		if (joint.lineId === line.id) {
+			const tongueMM =
+				joint.end === "start"
+					? buttJoints.startTongueMM
+					: buttJoints.endTongueMM;
+			notches.push({
+				id: `tongue_${line.id}_${joint.end}`,
+				otherLineId: joint.otherLineId,
+				dist:
+					joint.end === "start" ? tongueMM / 2 : finalLengthMM - tongueMM / 2,
+				fromTop: false,
+				width: tongueMM,
+				angle: angleWith(joint.otherLineId),
+			});
+			continue;
+		}
+
+		if (joint.otherLineId !== line.id) continue;
+		const dist =
+			distanceFromLineStart(line, joint.x, joint.y, cellSize, gridType) -
+			buttJoints.trimStartMM;
+		if (
+			dist <= EDGE_EPSILON_MM ||
+			finalLengthMM - dist <= EDGE_EPSILON_MM ||
+			// Strips ending here from both sides share one mortise
+			notches.some((n) => Math.abs(n.dist - dist) <= EDGE_EPSILON_MM)
+		) {
+			continue;
+		}
+		const angle = angleWith(joint.lineId);
+		notches.push({
+			id: `mortise_${joint.lineId}_${joint.end}`,
+			otherLineId: joint.lineId,
+			dist,
+			fromTop: true,
+			width: notchWidthForAngle(stripThicknessMM, angle),
+			angle,
+		});
+	}
+
+	return notches;
+}
+
 /**
  * Compute notches for a line based on its intersections with other lines.
- * Handles trimming adjustments and filters out edge notches.
+ * Handles trimming adjustments and filters out edge notches. Each notch is
+ * widened according to the crossing angle so the other strip fits through.
  */
 function computeNotchesForLine(
 	line: Line,
 	intersections: Map<string, Intersection>,
 	allLines: Map<string, Line>,
-	cellSize: number,
+	cellSize: CellSize,
 	geometricLengthMM: number,
 	trimStartMM: number,
 	finalLengthMM: number,
+	stripThicknessMM: number,
+	gridType: GridType,
+	cutDepthMM: number,
 ): Notch[] {
 	// Find all intersections involving this line
 	const relatedIntersections = Array.from(intersections.values()).filter(
-		(int) => int.line1Id === line.id || int.line2Id === line.id,
+		(int) =>
+			int.line1Id === line.id ||
+			int.line2Id === line.id ||
+			int.stack?.includes(line.id),
 	);
 
 	const notches: Notch[] = [];
 
 	for (const int of relatedIntersections) {
+		if (int.stack) {
+			notches.push(
+				...computeStackNotches(
+					line,
+					int,
+					int.stack,
+					allLines,
+					cellSize,
+					trimStartMM,
+					finalLengthMM,
+					stripThicknessMM,
+					gridType,
+					cutDepthMM,
+				),
+			);
+			continue;
+		}
+
 		const isLine1 = int.line1Id === line.id;
 		const otherLineId = isLine1 ? int.line2Id : int.line1Id;
 		const otherLine = allLines.get(otherLineId);
 
 		// Calculate distance from this line's start to the intersection
-		const distMM = distanceFromLineStart(line, int.x, int.y, cellSize);
+		const distMM = distanceFromLineStart(
+			line,
+			int.x,
+			int.y,
+			cellSize,
+			gridType,
+		);
 
 		// Skip if intersection is at this line's start or end
 		const isAtStart = distMM <= EDGE_EPSILON_MM;
@@ -144,11 +578,17 @@ function computeNotchesForLine(
 		// - fromTop should be opposite of line1Over for line1, same for line2
 		const fromTop = int.line1Over !== isLine1;
 
+		const angle = otherLine
+			? crossingAngleDegrees(line, otherLine, gridType, cellSize.y / cellSize.x)
+			: 90;
+
 		notches.push({
 			id: `${int.id}_${line.id}`,
 			otherLineId,
 			dist: distFromStart,
 			fromTop,
+			width: notchWidthForAngle(stripThicknessMM, angle),
+			angle,
 		});
 	}
 
@@ -156,6 +596,80 @@ function computeNotchesForLine(
 	return notches.sort((a, b) => a.dist - b.dist);
 }
 
+/**
+ * Compute the notches a line needs at a multi-way joint.
+ *
+ * The strip at position k (0 = top) of an n-strip stack keeps the k-th band
+ * of its depth at the joint: it is notched from the top by k/n of the full
+ * depth and from the bottom by (n-1-k)/n. For a three-way mitsukude joint
+ * this gives one-third-depth notches on alternating faces of the middle
+ * strip and two-thirds notches on the outer strips. The notch is widened
+ * to fit the most steeply angled of the other strips.
+ */
+function computeStackNotches(
+	line: Line,
+	int: Intersection,
+	stack: string[],
+	allLines: Map<string, Line>,
+	cellSize: CellSize,
+	trimStartMM: number,
+	finalLengthMM: number,
+	stripThicknessMM: number,
+	gridType: GridType,
+	cutDepthMM: number,
+): Notch[] {
+	const position = stack.indexOf(line.id);
+	if (position === -1) return [];
+
+	const distFromStart =
+		distanceFromLineStart(line, int.x, int.y, cellSize, gridType) - trimStartMM;
+	if (
+		distFromStart <= EDGE_EPSILON_MM ||
+		finalLengthMM - distFromStart <= EDGE_EPSILON_MM
+	) {
+		return [];
+	}
+
+	let angle = 90;
+	for (const otherId of stack) {
+		const otherLine = allLines.get(otherId);
+		if (!otherLine || otherId === line.id) continue;
+		angle = Math.min(
+			angle,
+			crossingAngleDegrees(line, otherLine, gridType, cellSize.y / cellSize.x),
+		);
+	}
+	const width = notchWidthForAngle(stripThicknessMM, angle);
+
+	const layers = stack.length;
+	const notches: Notch[] = [];
+
+	if (position > 0) {
+		notches.push({
+			id: `${int.id}_${line.id}_top`,
+			otherLineId: stack[position - 1],
+			dist: distFromStart,
+			fromTop: true,
+			width,
+			angle,
+			depth: (cutDepthMM * position) / layers,
+		});
+	}
+	if (position < layers - 1) {
+		notches.push({
+			id: `${int.id}_${line.id}_bottom`,
+			otherLineId: stack[position + 1],
+			dist: distFromStart,
+			fromTop: false,
+			width,
+			angle,
+			depth: (cutDepthMM * (layers - 1 - position)) / layers,
+		});
+	}
+
+	return notches;
+}
+
 // ============================================================================
 // Public Functions
 // ============================================================================
@@ -192,6 +706,10 @@ export function normalizeStripNotches(notches: Notch[]): Notch[] {
  * Only creates intersection records where lines actually cross through each other
  * (not at endpoints). Uses a heuristic where horizontal lines default to being
  * on top of vertical lines.
+ *
+ * Each coordinate produces a single intersection. Where three or more lines
+ * cross at the same point the intersection carries a `stack` with the full
+ * stacking order, derived from the pairwise over/under states of its lines.
  */
 export function computeIntersections(
 	lines: Map<string, Line>,
@@ -200,6 +718,7 @@ export function computeIntersections(
 	const newIntersections = new Map<string, Intersection>();
 	const coordinateMap = new Map<string, Intersection>();
 	const lineArray = Array.from(lines.values());
+	const lineIndex = new Map(lineArray.map((line, index) => [line.id, index]));
 
 	for (let i = 0; i < lineArray.length; i++) {
 		for (let j = i + 1; j < lineArray.length; j++) {
@@ -217,32 +736,30 @@ export function computeIntersections(
 				continue;
 			}
 
-			// Only create one intersection per coordinate
+			// Only create one intersection per coordinate; further lines crossing
+			// at the same point turn it into a multi-way joint
 			const coordKey = `${point.x},${point.y}`;
-			if (coordinateMap.has(coordKey)) continue;
+			const existing = coordinateMap.get(coordKey);
+			if (existing) {
+				const stack = existing.stack ?? [existing.line1Id, existing.line2Id];
+				for (const id of [line1.id, line2.id]) {
+					if (!stack.includes(id)) stack.push(id);
+				}
+				existing.stack = stack;
+				continue;
+			}
 
 			const id = `int_${line1.id}_${line2.id}`;
 
-			// Determine default stacking: horizontal lines on top of vertical
-			const isLine1Horizontal = line1.y1 === line1.y2;
-			const isLine2Horizontal = line2.y1 === line2.y2;
-			const isLine1Vertical = line1.x1 === line1.x2;
-			const isLine2Vertical = line2.x1 === line2.x2;
-
-			let line1OverDefault = true;
-			if (isLine1Horizontal && isLine2Vertical) {
-				line1OverDefault = true;
-			} else if (isLine1Vertical && isLine2Horizontal) {
-				line1OverDefault = false;
-			}
-
 			const intersection: Intersection = {
 				id,
 				x: point.x,
 				y: point.y,
 				line1Id: line1.id,
 				line2Id: line2.id,
-				line1Over: intersectionStates.get(id) ?? line1OverDefault,
+				line1Over:
+					readPairState(intersectionStates, point.x, point.y, line1, line2) ??
+					defaultLine1Over(line1, line2),
 			};
 
 			newIntersections.set(id, intersection);
@@ -250,16 +767,207 @@ export function computeIntersections(
 		}
 	}
 
+	// Order multi-way stacks: a line ranks higher the more of the other lines
+	// it sits on top of. Ties (only possible with contradictory pairwise
+	// states) fall back to drawing order.
+	for (const intersection of newIntersections.values()) {
+		if (!intersection.stack) continue;
+
+		const stackLines = intersection.stack
+			.map((id) => lines.get(id))
+			.filter((line): line is Line => line !== undefined)
+			.sort((a, b) => (lineIndex.get(a.id) ?? 0) - (lineIndex.get(b.id) ?? 0));
+
+		const wins = new Map(stackLines.map((line) => [line.id, 0]));
+		for (let i = 0; i < stackLines.length; i++) {
+			for (let j = i + 1; j < stackLines.length; j++) {
+				const a = stackLines[i];
+				const b = stackLines[j];
+				const aOver =
+					readPairState(
+						intersectionStates,
+						intersection.x,
+						intersection.y,
+						a,
+						b,
+					) ?? defaultLine1Over(a, b);
+				const winner = aOver ? a.id : b.id;
+				wins.set(winner, (wins.get(winner) ?? 0) + 1);
+			}
+		}
+
+		intersection.stack = stackLines
+			.map((line) => line.id)
+			.sort((a, b) => (wins.get(b) ?? 0) - (wins.get(a) ?? 0));
+	}
+
 	return newIntersections;
 }
 
+/**
+ * Return new intersection states with line1 of the given intersection on top
+ * (or underneath when `line1Over` is false).
+ */
+export function setIntersectionOrientation(
+	intersectionStates: Map<string, boolean>,
+	lines: Map<string, Line>,
+	intersection: Intersection,
+	line1Over: boolean,
+): Map<string, boolean> {
+	const line1 = lines.get(intersection.line1Id);
+	const line2 = lines.get(intersection.line2Id);
+	if (!line1 || !line2) return intersectionStates;
+
+	const next = new Map(intersectionStates);
+	writePairState(next, intersection.x, intersection.y, line1, line2, line1Over);
+	return next;
+}
+
+/**
+ * Return new intersection states that stack the given lines in order
+ * (first = top) at a multi-way intersection. Every pair of lines in the
+ * stack is written so that computeIntersections reproduces exactly this
+ * order.
+ */
+export function applyIntersectionStack(
+	intersectionStates: Map<string, boolean>,
+	lines: Map<string, Line>,
+	intersection: Intersection,
+	stack: string[],
+): Map<string, boolean> {
+	const stackLines = stack
+		.map((id) => lines.get(id))
+		.filter((line): line is Line => line !== undefined);
+
+	const next = new Map(intersectionStates);
+	for (let i = 0; i < stackLines.length; i++) {
+		for (let j = i + 1; j < stackLines.length; j++) {
+			writePairState(
+				next,
+				intersection.x,
+				intersection.y,
+				stackLines[i],
+				stackLines[j],
+				true,
+			);
+		}
+	}
+	return next;
+}
+
+/**
+ * Return new intersection states that put the first line of each pair on
+ * top of the second wherever the two lines cross. Used to carry over/under
+ * choices along when lines are moved, rotated, duplicated or pasted, since
+ * the crossing points (and so the geometry keys) change. Pairs that do not
+ * cross, or only touch at an endpoint, are ignored.
+ */
+export function applyCrossingOrder(
+	intersectionStates: Map<string, boolean>,
+	crossings: Array<[over: Line, under: Line]>,
+): Map<string, boolean> {
+	const next = new Map(intersectionStates);
+	for (const [over, under] of crossings) {
+		const point = findIntersection(over, under);
+		if (
+			!point ||
+			isPointAtEndpoint(point.x, point.y, over) ||
+			isPointAtEndpoint(point.x, point.y, under)
+		) {
+			continue;
+		}
+		writePairState(next, point.x, point.y, over, under, true);
+	}
+	return next;
+}
+
+/**
+ * Convert intersection states saved with line-id keys
+ * (`int_${line1.id}_${line2.id}`) to geometry-based keys, using the lines
+ * they were saved with. Keys that are already geometry-based are kept and
+ * legacy keys whose lines no longer cross are dropped.
+ */
+export function migrateIntersectionStates(
+	lines: Map<string, Line>,
+	intersectionStates: Map<string, boolean>,
+): Map<string, boolean> {
+	const next = new Map<string, boolean>();
+	for (const [key, value] of intersectionStates) {
+		if (!key.startsWith("int_")) next.set(key, value);
+	}
+
+	// Legacy keys were built from line pairs in map order
+	const lineArray = Array.from(lines.values());
+	for (let i = 0; i < lineArray.length; i++) {
+		for (let j = i + 1; j < lineArray.length; j++) {
+			const line1 = lineArray[i];
+			const line2 = lineArray[j];
+			const line1Over = intersectionStates.get(`int_${line1.id}_${line2.id}`);
+			if (line1Over === undefined) continue;
+
+			const point = findIntersection(line1, line2);
+			if (!point) continue;
+			writePairState(next, point.x, point.y, line1, line2, line1Over);
+		}
+	}
+
+	return next;
+}
+
+/** Key of the grid point of a T-joint, used for per-joint type overrides */
+export function tJointKey(x: number, y: number): string {
+	return `${x},${y}`;
+}
+
+/**
+ * Find every line end that meets the interior of another line, with the
+ * joint type chosen for its point (or the default). Lattice strips ending
+ * on a frame member are left out: the frame's own joinery applies there.
+ */
+export function computeTJoints(
+	lines: Map<string, Line>,
+	options: Pick<
+		DesignStripOptions,
+		"frame" | "tJointType" | "tJointTypes"
+	> = {},
+): TJoint[] {
+	const { frame, tJointType = "butt", tJointTypes } = options;
+	const lineArray = Array.from(lines.values());
+	const joints: TJoint[] = [];
+
+	for (const line of lineArray) {
+		const isFrameMember = !!frame && !!frameMemberRole(line, frame);
+		for (const end of ["start", "end"] as const) {
+			const x = end === "start" ? line.x1 : line.x2;
+			const y = end === "start" ? line.y1 : line.y2;
+			const other = lineArray.find(
+				(o) => o.id !== line.id && isPointOnLineInterior(x, y, o),
+			);
+			if (!other) continue;
+			if (frame && !isFrameMember && frameMemberRole(other, frame)) continue;
+
+			joints.push({
+				x,
+				y,
+				lineId: line.id,
+				end,
+				otherLineId: other.id,
+				type: tJointTypes?.get(tJointKey(x, y)) ?? tJointType,
+			});
+		}
+	}
+
+	return joints;
+}
+
 /**
  * Compute physical design strips from grid lines and intersections.
  *
  * This function:
  * 1. Converts grid lines to physical strips with lengths in mm
- * 2. Detects butt joints (T-joints) and trims strip lengths accordingly
- * 3. Computes notch positions for each strip
+ * 2. Detects butt joints (T-joints) and trims or extends strip lengths for
+ *    the chosen joint type, adding tongue and mortise notches
+ * 3. Computes notch positions and angle-aware notch widths for each strip
  * 4. Assigns stable geometry-based IDs for strip deduplication
  */
 export function computeDesignStrips(
@@ -267,14 +975,39 @@ export function computeDesignStrips(
 	intersections: Map<string, Intersection>,
 	gridCellSize: number,
 	bitSize: number,
+	options: DesignStripOptions = {},
 ): DesignStrip[] {
+	const stripThickness = options.stripThickness ?? bitSize;
+	const gridType = options.gridType ?? "square";
+	const cutDepth = options.cutDepth ?? DEFAULT_CUT_DEPTH;
+	const cellSize: CellSize = {
+		x: gridCellSize,
+		y: options.gridCellSizeY ?? gridCellSize,
+	};
+
+	const tJoints = computeTJoints(lines, options);
+	const tJointsByEnd = new Map(
+		tJoints.map((joint) => [`${joint.lineId}:${joint.end}`, joint]),
+	);
+
 	return Array.from(lines.values())
 		.map((line) => {
 			// Calculate geometric length
-			const geometricLengthMM = lineGeometricLengthMM(line, gridCellSize);
+			const geometricLengthMM = lineGeometricLengthMM(line, cellSize, gridType);
 
 			// Detect and apply butt joint trimming
-			const buttJoints = detectButtJoints(line, lines, bitSize);
+			const frameMember = options.frame
+				? frameMemberRole(line, options.frame)
+				: null;
+			const buttJoints = detectButtJoints(
+				line,
+				lines,
+				tJointsByEnd,
+				stripThickness,
+				cellSize,
+				gridType,
+				options.frame,
+			);
 			const lengthMM = Math.max(
 				0,
 				geometricLengthMM - buttJoints.trimStartMM - buttJoints.trimEndMM,
@@ -285,17 +1018,38 @@ export function computeDesignStrips(
 				line,
 				intersections,
 				lines,
-				gridCellSize,
+				cellSize,
 				geometricLengthMM,
 				buttJoints.trimStartMM,
 				lengthMM,
+				stripThickness,
+				gridType,
+				cutDepth,
+			);
+			notches.push(
+				...computeTJointNotches(
+					line,
+					lines,
+					tJoints,
+					buttJoints,
+					cellSize,
+					lengthMM,
+					stripThickness,
+					gridType,
+				),
 			);
+			notches.sort((a, b) => a.dist - b.dist);
 
 			// Normalize notch orientations for single-pass CNC cutting
 			const normalizedNotches = normalizeStripNotches(notches);
 
 			// Generate stable IDs
-			const stripId = computeStripGeometryId(lengthMM, normalizedNotches);
+			const stripId = computeStripGeometryId(
+				lengthMM,
+				normalizedNotches,
+				frameMember,
+				[buttJoints.startCutAngle, buttJoints.endCutAngle],
+			);
 			const displayCode = computeStripDisplayCode(stripId);
 
 			return {
@@ -305,6 +1059,17 @@ export function computeDesignStrips(
 				notches: normalizedNotches,
 				sourceLineId: line.id,
 				displayCode,
+				hasStartButt: buttJoints.hasStartButt,
+				hasEndButt: buttJoints.hasEndButt,
+				...(frameMember && { frameMember }),
+				...(buttJoints.startJoint && { startJoint: buttJoints.startJoint }),
+				...(buttJoints.endJoint && { endJoint: buttJoints.endJoint }),
+				...(buttJoints.startCutAngle !== 0 && {
+					startCutAngle: buttJoints.startCutAngle,
+				}),
+				...(buttJoints.endCutAngle !== 0 && {
+					endCutAngle: buttJoints.endCutAngle,
+				}),
 			};
 		})
 		.filter((strip) => strip.lengthMM > MIN_STRIP_LENGTH_MM);
@@ -318,6 +1083,10 @@ export function computeDesignStrips(
  *
  * This enforces the invariant that continuous lines are represented as single
  * segments in state, regardless of how they were originally drawn or edited.
+ *
+ * Grouping works on lattice coordinates. Because the triangular lattice is a
+ * linear image of the integer grid, its 60° and 120° lines group as
+ * vertical and diagonal lines and merge exactly like square grid lines.
  */
 export function normalizeLines(lines: Map<string, Line>): Map<string, Line> {
 	type GroupKind = "H" | "V" | "D";
@@ -509,6 +1278,11 @@ export function normalizeLines(lines: Map<string, Line>): Map<string, Line> {
  * - Forward direction with flipped orientation
  * - Reverse direction with flipped orientation
  *
+ * Notches on non-perpendicular crossings also encode their width, so
+ * diagonal strips with wider notches never share an id with square ones.
+ * Bevelled ends are part of the id too. Reversing a strip swaps its ends
+ * and flipping it turns it onto its other face, so both negate the bevels.
+ *
  * We pick the lexicographically smallest representation. This ensures:
  * - Identical physical strips get the same ID regardless of how they're
  *   oriented in the grid (horizontal vs vertical, left-to-right vs right-to-left).
@@ -516,14 +1290,16 @@ export function normalizeLines(lines: Map<string, Line>): Map<string, Line> {
  */
 function computeStripGeometryId(
 	lengthMM: number,
-	notches: { dist: number; fromTop: boolean }[],
+	notches: Pick<Notch, "dist" | "fromTop" | "width" | "angle" | "depth">[],
+	frameMember?: FrameMemberRole | null,
+	cutAngles: [number, number] = [0, 0],
 ): string {
 	const precision = 3;
 	const lengthKey = lengthMM.toFixed(precision);
 
 	// Helper to build a notch pattern string
 	const buildPattern = (
-		notchList: { dist: number; fromTop: boolean }[],
+		notchList: Pick<Notch, "dist" | "fromTop" | "width" | "angle" | "depth">[],
 		flipOrientation: boolean,
 	) =>
 		notchList
@@ -531,7 +1307,16 @@ function computeStripGeometryId(
 				const d = n.dist.toFixed(precision);
 				// XOR: if flipOrientation, invert the fromTop value
 				const orient = n.fromTop !== flipOrientation ? "T" : "B";
-				return `${d}:${orient}`;
+				const isAngled =
+					n.angle !== undefined &&
+					n.width !== undefined &&
+					Math.abs(n.angle - 90) > RIGHT_ANGLE_EPSILON_DEG;
+				const token = isAngled
+					? `${d}:${orient}:${n.width?.toFixed(precision)}`
+					: `${d}:${orient}`;
+				return n.depth !== undefined
+					? `${token}@${n.depth.toFixed(precision)}`
+					: token;
 			})
 			.join("|");
 
@@ -541,8 +1326,8 @@ function computeStripGeometryId(
 
 	// Reverse representation: distances measured from the other end.
 	const reversedNotches = notches.map((n) => ({
+		...n,
 		dist: lengthMM - n.dist,
-		fromTop: n.fromTop,
 	}));
 	// Sort by distance since reversing changes the order
 	reversedNotches.sort((a, b) => a.dist - b.dist);
@@ -550,10 +1335,20 @@ function computeStripGeometryId(
 	const reverse = buildPattern(reversedNotches, false);
 	const reverseFlipped = buildPattern(reversedNotches, true);
 
+	// Square-ended strips keep the notch pattern alone
+	const [startAngle, endAngle] = cutAngles;
+	const endsKey = (start: number, end: number) =>
+		startAngle === 0 && endAngle === 0
+			? ""
+			: `<${start.toFixed(precision)}:${end.toFixed(precision)}>`;
+
 	// Pick the lexicographically smallest of all four variants
-	const candidates = [forward, forwardFlipped, reverse, reverseFlipped].filter(
-		(s) => s.length > 0,
-	);
+	const candidates = [
+		forward + endsKey(startAngle, endAngle),
+		forwardFlipped + endsKey(-startAngle, -endAngle),
+		reverse + endsKey(-endAngle, -startAngle),
+		reverseFlipped + endsKey(endAngle, startAngle),
+	].filter((s) => s.length > 0);
 
 	// If no notches, all variants are empty strings
 	const notchesKey =
@@ -561,7 +1356,11 @@ function computeStripGeometryId(
 			? candidates.reduce((min, cur) => (cur < min ? cur : min))
 			: "";
 
-	return `${lengthKey}|${notchesKey}`;
+	// Frame members are cut from different stock, so they never share an
+	// id with a lattice strip of the same length
+	return frameMember
+		? `frame:${lengthKey}|${notchesKey}`
+		: `${lengthKey}|${notchesKey}`;
 }
 
 /**
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_FRAME_JOINERY,
+	frameCornerExtension,
+	frameFromLines,
+	frameLatticeTrim,
+	frameMemberRole,
+} from "./kumiko-frame";
+import { makeLine } from "./test-fixtures";
+import type { FrameSettings } from "./types";
+
+const frame: FrameSettings = {
+	...DEFAULT_FRAME_JOINERY,
+	x1: 0,
+	y1: 0,
+	x2: 8,
+	y2: 6,
+	width: 30,
+};
+
+describe("frameFromLines()", () => {
+	it("frames the bounding box of the lines with the given joinery", () => {
+		const result = frameFromLines(
+			[makeLine("a", 2, 1, 8, 1), makeLine("b", 4, 0, 4, 5)],
+			{ ...frame, corner: "tenon" },
+		);
+		expect(result).toMatchObject({
+			x1: 2,
+			y1: 0,
+			x2: 8,
+			y2: 5,
+			width: 30,
+			corner: "tenon",
+		});
+	});
+
+	it("returns null when the lines do not span a rectangle", () => {
+		expect(frameFromLines([])).toBeNull();
+		expect(frameFromLines([makeLine("a", 0, 1, 5, 1)])).toBeNull();
+	});
+
+	it("returns null on the triangular grid, where the box is a parallelogram", () => {
+		const lines = [makeLine("a", 2, 1, 8, 1), makeLine("b", 4, 0, 4, 5)];
+		expect(frameFromLines(lines, frame, "square")).not.toBeNull();
+		expect(frameFromLines(lines, frame, "triangular")).toBeNull();
+	});
+});
+
+describe("frameMemberRole()", () => {
+	it("identifies rails, stiles and lattice lines", () => {
+		expect(frameMemberRole(makeLine("a", 0, 0, 8, 0), frame)).toBe("rail");
+		expect(frameMemberRole(makeLine("b", 2, 6, 5, 6), frame)).toBe("rail");
+		expect(frameMemberRole(makeLine("c", 8, 6, 8, 0), frame)).toBe("stile");
+		expect(frameMemberRole(makeLine("d", 4, 0, 4, 6), frame)).toBeNull();
+		// On the line of a side but running past the frame
+		expect(frameMemberRole(makeLine("e", 0, 0, 10, 0), frame)).toBeNull();
+	});
+});
+
+describe("frame joinery", () => {
+	it("extends members at the corners according to the corner joint", () => {
+		expect(frameCornerExtension("rail", frame)).toBe(15);
+		const tenoned: FrameSettings = {
+			...frame,
+			corner: "tenon",
+			cornerTenonLength: 20,
+		};
+		expect(frameCornerExtension("stile", tenoned)).toBe(15);
+		expect(frameCornerExtension("rail", tenoned)).toBe(5);
+	});
+
+	it("trims lattice strips to the inner edge less the allowance", () => {
+		expect(frameLatticeTrim({ ...frame, latticeAllowance: 6 })).toBe(9);
+		expect(frameLatticeTrim({ ...frame, latticeAllowance: -2 })).toBe(15);
+		expect(frameLatticeTrim({ ...frame, latticeAllowance: 50 })).toBe(-15);
+	});
+});
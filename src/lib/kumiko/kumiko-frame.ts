@@ -0,0 +1,130 @@
+import { EPSILON } from "./config";
+import type { FrameMemberRole, FrameSettings, GridType, Line } from "./types";
+
+/** Frame joinery used for a new frame */
+export const DEFAULT_FRAME_JOINERY: Omit<
+	FrameSettings,
+	"x1" | "y1" | "x2" | "y2"
+> = {
+	width: 30,
+	thickness: 20,
+	corner: "mitre",
+	cornerTenonLength: 20,
+	latticeJoint: "tenon",
+	latticeAllowance: 6,
+};
+
+/**
+ * Frame around the bounding box of the given lines, keeping the joinery of
+ * `base`. Returns null when the lines do not span a rectangle, which on
+ * the triangular grid they never do: its lattice x runs at 60°, so a
+ * bounding box there is a parallelogram.
+ */
+export function frameFromLines(
+	lines: Line[],
+	base: Omit<FrameSettings, "x1" | "y1" | "x2" | "y2"> = DEFAULT_FRAME_JOINERY,
+	gridType: GridType = "square",
+): FrameSettings | null {
+	if (gridType === "triangular" || lines.length === 0) return null;
+	const xs = lines.flatMap((line) => [line.x1, line.x2]);
+	const ys = lines.flatMap((line) => [line.y1, line.y2]);
+	const x1 = Math.min(...xs);
+	const x2 = Math.max(...xs);
+	const y1 = Math.min(...ys);
+	const y2 = Math.max(...ys);
+	if (x2 - x1 < EPSILON || y2 - y1 < EPSILON) return null;
+
+	return {
+		width: base.width,
+		thickness: base.thickness,
+		corner: base.corner,
+		cornerTenonLength: base.cornerTenonLength,
+		latticeJoint: base.latticeJoint,
+		latticeAllowance: base.latticeAllowance,
+		x1,
+		y1,
+		x2,
+		y2,
+	};
+}
+
+const near = (a: number, b: number) => Math.abs(a - b) < EPSILON;
+
+/**
+ * Whether a line lies on a side of the frame rectangle, and which member it
+ * is. Lines only partly on a side still count, so a side drawn in pieces
+ * gives several members.
+ */
+export function frameMemberRole(
+	line: Line,
+	frame: FrameSettings,
+): FrameMemberRole | null {
+	const within = (a: number, b: number, lo: number, hi: number) =>
+		Math.min(a, b) > lo - EPSILON && Math.max(a, b) < hi + EPSILON;
+
+	if (
+		near(line.y1, line.y2) &&
+		(near(line.y1, frame.y1) || near(line.y1, frame.y2)) &&
+		within(line.x1, line.x2, frame.x1, frame.x2)
+	) {
+		return "rail";
+	}
+	if (
+		near(line.x1, line.x2) &&
+		(near(line.x1, frame.x1) || near(line.x1, frame.x2)) &&
+		within(line.y1, line.y2, frame.y1, frame.y2)
+	) {
+		return "stile";
+	}
+	return null;
+}
+
+/** Whether a grid point is one of the four corners of the frame */
+export function isFrameCorner(
+	x: number,
+	y: number,
+	frame: FrameSettings,
+): boolean {
+	return (
+		(near(x, frame.x1) || near(x, frame.x2)) &&
+		(near(y, frame.y1) || near(y, frame.y2))
+	);
+}
+
+/**
+ * How far a frame member extends past the corner point at one of its
+ * ends, in mm. Corner points lie on the member centrelines, so mitred
+ * members and through stiles reach the outer edge half a width beyond
+ * them. Tenoned rails stop at the stile's inner edge and add their tenon.
+ */
+export function frameCornerExtension(
+	role: FrameMemberRole,
+	frame: FrameSettings,
+): number {
+	if (frame.corner === "tenon" && role === "rail") {
+		return frame.cornerTenonLength - frame.width / 2;
+	}
+	return frame.width / 2;
+}
+
+/**
+ * Bevel of a mitred end of a frame member, in degrees from square. The
+ * long point is on the outer edge, so the sign depends on which side of
+ * the frame the member is on and which way it was drawn.
+ */
+export function frameMitreAngle(line: Line, frame: FrameSettings): number {
+	const outerOnRight = near(line.y1, line.y2)
+		? (line.x2 - line.x1) * (near(line.y1, frame.y1) ? -1 : 1) > 0
+		: (line.y2 - line.y1) * (near(line.x1, frame.x1) ? -1 : 1) < 0;
+	return outerOnRight ? 45 : -45;
+}
+
+/**
+ * How much a lattice strip ending on a frame centreline is trimmed, in mm:
+ * back to the frame's inner edge, less the part let into the frame. This
+ * is negative when the allowance reaches past the centreline.
+ */
+export function frameLatticeTrim(frame: FrameSettings): number {
+	const allowance = Math.min(frame.width, Math.max(0, frame.latticeAllowance));
+	return frame.width / 2 - allowance;
+}
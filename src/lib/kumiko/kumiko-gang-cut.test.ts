@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { optimizeGangCuts } from "./kumiko-gang-cut";
+import { makePiece, makeStrip } from "./test-fixtures";
+import type { Group, Notch, Piece } from "./types";
+
+const notchAt = (dist: number): Notch => ({
+	id: `n${dist}`,
+	otherLineId: "x",
+	dist,
+	fromTop: true,
+});
+
+const makeGroup = (pieces: Piece[]): Group => ({
+	id: "g1",
+	name: "Group 1",
+	pieces: new Map(pieces.map((piece) => [piece.id, piece])),
+	fullCuts: new Map(),
+});
+
+describe("optimizeGangCuts()", () => {
+	it("reverses a piece so its notch lines up with the row above", () => {
+		const strips = [
+			makeStrip({ id: "a", lengthMM: 50, notches: [notchAt(10)] }),
+			makeStrip({ id: "b", lengthMM: 50, notches: [notchAt(40)] }),
+		];
+		const group = makeGroup([
+			makePiece({ id: "p1", lineId: "a", rowIndex: 0 }),
+			makePiece({ id: "p2", lineId: "b", rowIndex: 1, y: 20 }),
+		]);
+
+		const result = optimizeGangCuts(group, strips, 2);
+
+		// Two shared profile cuts plus one notch line instead of two
+		expect(result.linesBefore).toBe(4);
+		expect(result.linesAfter).toBe(3);
+		expect(result.pieces.get("p1")?.reversed).toBeUndefined();
+		expect(result.pieces.get("p2")?.reversed).toBe(true);
+	});
+
+	it("reorders pieces within a row to match the row above", () => {
+		const strips = [
+			makeStrip({ id: "a", lengthMM: 30, notches: [notchAt(5)] }),
+			makeStrip({ id: "c", lengthMM: 50, notches: [notchAt(20)] }),
+		];
+		const group = makeGroup([
+			makePiece({ id: "p1", lineId: "a", rowIndex: 0, x: 0 }),
+			makePiece({ id: "p2", lineId: "c", rowIndex: 0, x: 32 }),
+			makePiece({ id: "p3", lineId: "c", rowIndex: 1, x: 0, y: 20 }),
+			makePiece({ id: "p4", lineId: "a", rowIndex: 1, x: 52, y: 20 }),
+		]);
+
+		const result = optimizeGangCuts(group, strips, 2);
+
+		expect(result.linesBefore).toBe(8);
+		expect(result.linesAfter).toBe(5);
+		expect(result.pieces.get("p4")).toMatchObject({ x: 0, rowIndex: 1 });
+		expect(result.pieces.get("p3")).toMatchObject({ x: 32, rowIndex: 1 });
+	});
+
+	it("leaves the group unchanged when no lines can be saved", () => {
+		const strips = [
+			makeStrip({ id: "a", lengthMM: 50, notches: [notchAt(10)] }),
+		];
+		const group = makeGroup([makePiece({ id: "p1", lineId: "a" })]);
+
+		const result = optimizeGangCuts(group, strips, 2);
+
+		expect(result.pieces).toBe(group.pieces);
+		expect(result.linesAfter).toBe(result.linesBefore);
+	});
+});
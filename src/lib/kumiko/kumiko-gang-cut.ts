@@ -0,0 +1,124 @@
+import { GRID_CELL_HEIGHT } from "./config";
+import { countGroupCutLines, notchPassOffsets } from "./kumiko-svg-export";
+import { computeKerfedLayoutRows, orientStrip } from "./layout-helpers";
+import type { DesignStrip, Group, Piece } from "./types";
+
+export interface GangCutResult {
+	/** Pieces of the group, reordered and reversed within their rows */
+	pieces: Map<string, Piece>;
+	/** Cut lines of the group as it was */
+	linesBefore: number;
+	/** Cut lines after optimizing; never more than linesBefore */
+	linesAfter: number;
+}
+
+/**
+ * Keys of the lines a piece needs at the given position, matching how
+ * generateGroupSVG merges them: by X, line type and notch depth.
+ */
+function pieceLineKeys(
+	strip: DesignStrip,
+	x: number,
+	bitSize: number,
+): string[] {
+	const keys = [
+		`cut::${x.toFixed(3)}`,
+		`cut::${(x + strip.lengthMM + bitSize).toFixed(3)}`,
+	];
+	const leftFaceX = x + bitSize / 2;
+	for (const notch of strip.notches) {
+		const depth = notch.depth?.toFixed(3) ?? "";
+		for (const offset of notchPassOffsets(notch.width ?? bitSize, bitSize)) {
+			keys.push(
+				`notch:${depth}:${(leftFaceX + notch.dist + offset).toFixed(3)}`,
+			);
+		}
+	}
+	return keys;
+}
+
+/**
+ * Reorder and reverse the pieces of each row so their notches line up
+ * with the row above. Lines at the same X in neighbouring rows are cut as
+ * one, so every notch that lines up saves a pass of the CNC.
+ *
+ * Rows are arranged from the top down. Each position in a row takes the
+ * remaining piece, in either direction, that shares the most lines with
+ * the row above; ties keep the current order. Pieces never move between
+ * rows, and the group is returned unchanged unless lines are saved.
+ */
+export function optimizeGangCuts(
+	group: Group,
+	designStrips: DesignStrip[],
+	bitSize: number,
+): GangCutResult {
+	const linesBefore = countGroupCutLines(group, designStrips, bitSize);
+	const rows = computeKerfedLayoutRows(
+		Array.from(group.pieces.values()),
+		designStrips,
+		bitSize,
+	);
+
+	const pieces = new Map<string, Piece>();
+	let aboveKeys = new Set<string>();
+	let aboveRow = Number.NaN;
+
+	for (const rowIndex of Array.from(rows.keys()).sort((a, b) => a - b)) {
+		// Only touching rows share lines
+		if (rowIndex !== aboveRow + 1) aboveKeys = new Set();
+
+		const remaining = (rows.get(rowIndex) ?? []).flatMap((piece) => {
+			const strip = designStrips.find((s) => s.id === piece.lineId);
+			return strip ? [{ piece, strip }] : [];
+		});
+		const rowKeys = new Set<string>();
+		let x = 0;
+
+		while (remaining.length > 0) {
+			let best = { index: 0, reversed: false, keys: [] as string[] };
+			let bestShared = -1;
+			remaining.forEach(({ piece, strip }, index) => {
+				for (const reversed of [false, true]) {
+					const keys = pieceLineKeys(
+						orientStrip(strip, { reversed, flipped: piece.flipped }),
+						x,
+						bitSize,
+					);
+					const shared = keys.filter((key) => aboveKeys.has(key)).length;
+					if (shared > bestShared) {
+						best = { index, reversed, keys };
+						bestShared = shared;
+					}
+				}
+			});
+
+			const [{ piece, strip }] = remaining.splice(best.index, 1);
+			const { reversed: _, ...unoriented } = piece;
+			pieces.set(piece.id, {
+				...unoriented,
+				x,
+				y: rowIndex * GRID_CELL_HEIGHT,
+				...(best.reversed && { reversed: true }),
+			});
+			for (const key of best.keys) rowKeys.add(key);
+			x += strip.lengthMM + bitSize;
+		}
+
+		aboveKeys = rowKeys;
+		aboveRow = rowIndex;
+	}
+
+	// Pieces whose strip no longer exists stay where they are
+	for (const piece of group.pieces.values()) {
+		if (!pieces.has(piece.id)) pieces.set(piece.id, piece);
+	}
+
+	const linesAfter = countGroupCutLines(
+		{ ...group, pieces },
+		designStrips,
+		bitSize,
+	);
+	return linesAfter < linesBefore
+		? { pieces, linesBefore, linesAfter }
+		: { pieces: group.pieces, linesBefore, linesAfter: linesBefore };
+}
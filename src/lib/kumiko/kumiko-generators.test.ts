@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeDesignStrips,
+	computeIntersections,
+} from "./kumiko-design-logic";
+import {
+	defaultGeneratorValues,
+	GENERATORS,
+	generatePattern,
+} from "./kumiko-generators";
+import { defaultSymmetryCenter } from "./kumiko-symmetry";
+import type { Line } from "./types";
+
+function generator(id: string) {
+	const found = GENERATORS.find((g) => g.id === id);
+	if (!found) throw new Error(`Missing generator ${id}`);
+	return found;
+}
+
+function stripCount(lines: Map<string, Line>): number {
+	return computeDesignStrips(
+		lines,
+		computeIntersections(lines, new Map()),
+		10,
+		3.175,
+	).length;
+}
+
+describe("generatePattern()", () => {
+	it("builds an N×M square lattice from continuous strips", () => {
+		const lines = generatePattern(generator("square-lattice"), {
+			columns: 3,
+			rows: 2,
+			cell: 2,
+		});
+
+		// 4 verticals and 3 horizontals, each one strip
+		expect(lines.size).toBe(7);
+		expect(stripCount(lines)).toBe(7);
+	});
+
+	it("centres the pattern on the middle of the grid", () => {
+		const lines = generatePattern(generator("nested-squares"), {
+			count: 2,
+			spacing: 3,
+		});
+		const xs = Array.from(lines.values()).flatMap((l) => [l.x1, l.x2]);
+		const center = defaultSymmetryCenter("square");
+
+		expect((Math.min(...xs) + Math.max(...xs)) / 2).toBe(center.x);
+		expect(lines.size).toBe(8);
+	});
+
+	it("keeps every generated line on lattice points", () => {
+		for (const g of GENERATORS) {
+			const lines = generatePattern(g, defaultGeneratorValues(g));
+			expect(lines.size).toBeGreaterThan(0);
+			for (const line of lines.values()) {
+				expect(
+					[line.x1, line.y1, line.x2, line.y2].every(Number.isInteger),
+				).toBe(true);
+			}
+		}
+	});
+
+	it("splits every asanoha triangle into three from its centre", () => {
+		const lines = generatePattern(generator("asanoha"), {
+			columns: 1,
+			rows: 1,
+			size: 1,
+		});
+
+		// Rhombus outline (4) + shared diagonal (1) + 3 spokes per triangle
+		expect(lines.size).toBe(11);
+	});
+
+	it("clamps out-of-range values", () => {
+		const lines = generatePattern(generator("frame"), {
+			width: 1000,
+			height: -5,
+			border: 100,
+		});
+		const ys = Array.from(lines.values()).flatMap((l) => [l.y1, l.y2]);
+
+		expect(Math.max(...ys) - Math.min(...ys)).toBe(2);
+		// Too narrow for an inner border, so only the outer frame remains
+		expect(lines.size).toBe(4);
+	});
+});
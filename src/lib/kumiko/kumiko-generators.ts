@@ -0,0 +1,259 @@
+import { normalizeLines } from "./kumiko-design-logic";
+import { translateLines } from "./kumiko-selection";
+import { defaultSymmetryCenter } from "./kumiko-symmetry";
+import type { GridType, Line } from "./types";
+import { newId } from "./utils";
+
+/** A numeric input of a pattern generator, in whole grid cells or counts */
+export interface GeneratorParam {
+	key: string;
+	label: string;
+	min: number;
+	max: number;
+	defaultValue: number;
+}
+
+export interface PatternGenerator {
+	id: string;
+	name: string;
+	description: string;
+	/** Lattice the generated lines are meant for */
+	gridType: GridType;
+	params: GeneratorParam[];
+	/** Build the pattern with its corner at the origin */
+	generate: (values: Record<string, number>) => Line[];
+}
+
+/** How generated lines are combined with the current design */
+export type PatternApplyMode = "replace" | "merge";
+
+function segment(x1: number, y1: number, x2: number, y2: number): Line {
+	return { id: newId(), x1, y1, x2, y2 };
+}
+
+/** Outline of an axis-aligned rectangle */
+function rectangle(x1: number, y1: number, x2: number, y2: number): Line[] {
+	return [
+		segment(x1, y1, x2, y1),
+		segment(x2, y1, x2, y2),
+		segment(x2, y2, x1, y2),
+		segment(x1, y2, x1, y1),
+	];
+}
+
+/**
+ * Parts of the lines x + y = c and x - y = c (for every c that is a
+ * multiple of `spacing`) inside the rectangle [0, width] × [0, height].
+ */
+function clippedDiagonals(
+	width: number,
+	height: number,
+	spacing: number,
+): Line[] {
+	const lines: Line[] = [];
+	for (let c = spacing; c < width + height; c += spacing) {
+		// x + y = c
+		const start = Math.max(0, c - height);
+		const end = Math.min(width, c);
+		if (start < end) lines.push(segment(start, c - start, end, c - end));
+	}
+	for (let c = -height + spacing; c < width; c += spacing) {
+		// x - y = c
+		const start = Math.max(0, c);
+		const end = Math.min(width, height + c);
+		if (start < end) lines.push(segment(start, start - c, end, end - c));
+	}
+	return lines;
+}
+
+export const GENERATORS: PatternGenerator[] = [
+	{
+		id: "square-lattice",
+		name: "Square Lattice",
+		description: "Grid of square cells inside a frame",
+		gridType: "square",
+		params: [
+			{ key: "columns", label: "Columns", min: 1, max: 40, defaultValue: 6 },
+			{ key: "rows", label: "Rows", min: 1, max: 40, defaultValue: 6 },
+			{ key: "cell", label: "Cell size", min: 1, max: 20, defaultValue: 2 },
+		],
+		generate: ({ columns, rows, cell }) => {
+			const width = columns * cell;
+			const height = rows * cell;
+			const lines: Line[] = [];
+			for (let i = 0; i <= columns; i++) {
+				lines.push(segment(i * cell, 0, i * cell, height));
+			}
+			for (let j = 0; j <= rows; j++) {
+				lines.push(segment(0, j * cell, width, j * cell));
+			}
+			return lines;
+		},
+	},
+	{
+		id: "diamond-lattice",
+		name: "Diamond Lattice",
+		description: "Diagonal lattice of diamonds inside a rectangular frame",
+		gridType: "square",
+		params: [
+			{ key: "columns", label: "Columns", min: 1, max: 20, defaultValue: 4 },
+			{ key: "rows", label: "Rows", min: 1, max: 20, defaultValue: 4 },
+			{ key: "size", label: "Diamond size", min: 1, max: 10, defaultValue: 2 },
+		],
+		generate: ({ columns, rows, size }) => {
+			const width = columns * size * 2;
+			const height = rows * size * 2;
+			return [
+				...rectangle(0, 0, width, height),
+				...clippedDiagonals(width, height, size * 2),
+			];
+		},
+	},
+	{
+		id: "asanoha",
+		name: "Asanoha",
+		description:
+			"Hemp leaf pattern: a triangular lattice with every triangle split into three",
+		gridType: "triangular",
+		params: [
+			{ key: "columns", label: "Columns", min: 1, max: 20, defaultValue: 4 },
+			{ key: "rows", label: "Rows", min: 1, max: 20, defaultValue: 4 },
+			{ key: "size", label: "Triangle size", min: 1, max: 5, defaultValue: 1 },
+		],
+		generate: ({ columns, rows, size }) => {
+			// Triangle sides are three grid cells per size step, so the centre of
+			// each triangle lands on a lattice point
+			const side = size * 3;
+			const width = columns * side;
+			const height = rows * side;
+			const lines: Line[] = [];
+
+			for (let i = 0; i <= columns; i++) {
+				lines.push(segment(i * side, 0, i * side, height));
+			}
+			for (let j = 0; j <= rows; j++) {
+				lines.push(segment(0, j * side, width, j * side));
+			}
+			for (let c = side; c < width + height; c += side) {
+				const start = Math.max(0, c - height);
+				const end = Math.min(width, c);
+				lines.push(segment(start, c - start, end, c - end));
+			}
+
+			// Spokes from each triangle's centre to its corners
+			for (let i = 0; i < columns; i++) {
+				for (let j = 0; j < rows; j++) {
+					const x = i * side;
+					const y = j * side;
+					const lower = { x: x + size, y: y + size };
+					const upper = { x: x + 2 * size, y: y + 2 * size };
+					for (const [cx, cy] of [
+						[x, y],
+						[x + side, y],
+						[x, y + side],
+					]) {
+						lines.push(segment(lower.x, lower.y, cx, cy));
+					}
+					for (const [cx, cy] of [
+						[x + side, y],
+						[x, y + side],
+						[x + side, y + side],
+					]) {
+						lines.push(segment(upper.x, upper.y, cx, cy));
+					}
+				}
+			}
+			return lines;
+		},
+	},
+	{
+		id: "nested-squares",
+		name: "Nested Squares",
+		description: "Concentric squares at an even spacing",
+		gridType: "square",
+		params: [
+			{ key: "count", label: "Squares", min: 1, max: 20, defaultValue: 4 },
+			{ key: "spacing", label: "Spacing", min: 1, max: 10, defaultValue: 2 },
+		],
+		generate: ({ count, spacing }) => {
+			const outer = count * spacing;
+			const lines: Line[] = [];
+			for (let k = 0; k < count; k++) {
+				const inset = k * spacing;
+				lines.push(
+					...rectangle(inset, inset, 2 * outer - inset, 2 * outer - inset),
+				);
+			}
+			return lines;
+		},
+	},
+	{
+		id: "frame",
+		name: "Frame with Border",
+		description:
+			"Outer frame with an inner border, ready to fill with a pattern",
+		gridType: "square",
+		params: [
+			{ key: "width", label: "Width", min: 2, max: 200, defaultValue: 24 },
+			{ key: "height", label: "Height", min: 2, max: 200, defaultValue: 16 },
+			{ key: "border", label: "Border", min: 1, max: 50, defaultValue: 2 },
+		],
+		generate: ({ width, height, border }) => {
+			const inset = Math.min(
+				border,
+				Math.floor((Math.min(width, height) - 1) / 2),
+			);
+			return [
+				...rectangle(0, 0, width, height),
+				...(inset > 0
+					? rectangle(inset, inset, width - inset, height - inset)
+					: []),
+			];
+		},
+	},
+];
+
+/** Default parameter values of a generator */
+export function defaultGeneratorValues(
+	generator: PatternGenerator,
+): Record<string, number> {
+	return Object.fromEntries(
+		generator.params.map((param) => [param.key, param.defaultValue]),
+	);
+}
+
+/**
+ * Run a generator and return its lines merged into continuous strips,
+ * centred on the middle of the grid. Missing or out-of-range values are
+ * replaced by the nearest allowed whole number.
+ */
+export function generatePattern(
+	generator: PatternGenerator,
+	values: Record<string, number>,
+): Map<string, Line> {
+	const clamped = Object.fromEntries(
+		generator.params.map((param) => {
+			const value = Math.round(values[param.key] ?? param.defaultValue);
+			return [
+				param.key,
+				Number.isFinite(value)
+					? Math.min(param.max, Math.max(param.min, value))
+					: param.defaultValue,
+			];
+		}),
+	);
+
+	const lines = generator.generate(clamped);
+	if (lines.length === 0) return new Map();
+
+	const xs = lines.flatMap((line) => [line.x1, line.x2]);
+	const ys = lines.flatMap((line) => [line.y1, line.y2]);
+	const center = defaultSymmetryCenter(generator.gridType);
+	const placed = translateLines(
+		lines,
+		center.x - Math.round((Math.min(...xs) + Math.max(...xs)) / 2),
+		center.y - Math.round((Math.min(...ys) + Math.max(...ys)) / 2),
+	);
+
+	return normalizeLines(new Map(placed.map((line) => [line.id, line])));
+}
@@ -3,7 +3,10 @@ import { GRID_CELL_HEIGHT } from "./config";
 import {
 	computeKerfedLayoutRows,
 	computeRowLengths,
+	fullCutAt,
 	getStripConfigKey,
+	movePieceInRows,
+	orientStrip,
 	validateStripPlacement,
 } from "./layout-helpers";
 import { makePiece, makeStrip } from "./test-fixtures";
@@ -71,6 +74,40 @@ describe("getStripConfigKey()", () => {
 
 		expect(getStripConfigKey(a)).not.toBe(getStripConfigKey(b));
 	});
+
+	it("distinguishes strips whose notches differ only in width", () => {
+		const notchOfWidth = (width: number) =>
+			makeStrip({
+				lengthMM: 100,
+				notches: [
+					{ id: "n1", otherLineId: "x", dist: 40, fromTop: true, width },
+				],
+			});
+
+		expect(getStripConfigKey(notchOfWidth(3))).not.toBe(
+			getStripConfigKey(notchOfWidth(4.24)),
+		);
+		expect(getStripConfigKey(notchOfWidth(3))).toBe(
+			getStripConfigKey(notchOfWidth(3)),
+		);
+	});
+
+	it("distinguishes third-depth from half-depth notches", () => {
+		const notchOfDepth = (depth?: number) =>
+			makeStrip({
+				lengthMM: 100,
+				notches: [
+					{ id: "n1", otherLineId: "x", dist: 40, fromTop: true, depth },
+				],
+			});
+
+		expect(getStripConfigKey(notchOfDepth(4))).not.toBe(
+			getStripConfigKey(notchOfDepth()),
+		);
+		expect(getStripConfigKey(notchOfDepth(4))).not.toBe(
+			getStripConfigKey(notchOfDepth(8)),
+		);
+	});
 });
 
 describe("computeKerfedLayoutRows()", () => {
@@ -114,6 +151,131 @@ describe("computeKerfedLayoutRows()", () => {
 	});
 });
 
+describe("movePieceInRows()", () => {
+	const strips = [
+		makeStrip({ id: "s1", lengthMM: 100 }),
+		makeStrip({ id: "s2", lengthMM: 50 }),
+	];
+	const pieces = [
+		makePiece({ id: "a", lineId: "s1", rowIndex: 0, x: 0 }),
+		makePiece({ id: "b", lineId: "s2", rowIndex: 0, x: 103 }),
+		makePiece({ id: "c", lineId: "s2", rowIndex: 1, x: 0, y: 20 }),
+	];
+	const byId = (result: ReturnType<typeof movePieceInRows>, id: string) =>
+		result.find((piece) => piece.id === id);
+
+	it("moves a piece ahead of others in its row and re-packs the row", () => {
+		const result = movePieceInRows(pieces, pieces[1], 0, 0, strips, 3);
+
+		expect(byId(result, "b")).toMatchObject({ rowIndex: 0, x: 0 });
+		expect(byId(result, "a")).toMatchObject({ rowIndex: 0, x: 53 });
+	});
+
+	it("moves a piece to another row", () => {
+		const result = movePieceInRows(pieces, pieces[0], 1, 1, strips, 3);
+
+		expect(byId(result, "b")).toMatchObject({ rowIndex: 0, x: 0 });
+		expect(byId(result, "c")).toMatchObject({ rowIndex: 1, x: 0 });
+		expect(byId(result, "a")).toMatchObject({
+			rowIndex: 1,
+			x: 53,
+			y: GRID_CELL_HEIGHT,
+		});
+	});
+
+	it("adds a piece from elsewhere and keeps pieces without a strip", () => {
+		const orphan = makePiece({ id: "o", lineId: "gone", rowIndex: 2 });
+		const incoming = makePiece({ id: "d", lineId: "s2", rowIndex: 5 });
+		const result = movePieceInRows(
+			[...pieces, orphan],
+			incoming,
+			1,
+			0,
+			strips,
+			3,
+		);
+
+		expect(result).toHaveLength(5);
+		expect(byId(result, "d")).toMatchObject({ rowIndex: 1, x: 0 });
+		expect(byId(result, "c")).toMatchObject({ rowIndex: 1, x: 53 });
+		expect(byId(result, "o")).toBe(orphan);
+	});
+});
+
+describe("fullCutAt()", () => {
+	it("rips along a row boundary for the whole stock length", () => {
+		expect(fullCutAt({ x: 120, y: 21.5 }, 300, 3)).toEqual({
+			x1: 0,
+			y1: 20,
+			x2: 300,
+			y2: 20,
+		});
+	});
+
+	it("cuts across the clicked row, or every row", () => {
+		expect(fullCutAt({ x: 42.04, y: 30 }, 300, 3)).toEqual({
+			x1: 42,
+			y1: 20,
+			x2: 42,
+			y2: 40,
+		});
+		expect(fullCutAt({ x: 42, y: 30 }, 300, 3, true)).toEqual({
+			x1: 42,
+			y1: 0,
+			x2: 42,
+			y2: 60,
+		});
+	});
+
+	it("ignores clicks outside the stock", () => {
+		expect(fullCutAt({ x: 310, y: 30 }, 300, 3)).toBeNull();
+		expect(fullCutAt({ x: 40, y: 70 }, 300, 3)).toBeNull();
+	});
+});
+
+describe("orientStrip()", () => {
+	const strip = makeStrip({
+		id: "s",
+		lengthMM: 100,
+		notches: [
+			{ id: "a", otherLineId: "x", dist: 20, fromTop: true },
+			{ id: "b", otherLineId: "y", dist: 70, fromTop: false },
+		],
+		startCutAngle: 45,
+	});
+	const notchesOf = (oriented: ReturnType<typeof orientStrip>) =>
+		oriented.notches.map(({ id, dist, fromTop }) => ({ id, dist, fromTop }));
+
+	it("returns the strip itself for an unoriented piece", () => {
+		expect(orientStrip(strip, {})).toBe(strip);
+	});
+
+	it("mirrors the notches and swaps the bevels of a reversed piece", () => {
+		const reversed = orientStrip(strip, { reversed: true });
+
+		expect(notchesOf(reversed)).toEqual([
+			{ id: "b", dist: 30, fromTop: false },
+			{ id: "a", dist: 80, fromTop: true },
+		]);
+		expect(reversed.startCutAngle).toBeUndefined();
+		expect(reversed.endCutAngle).toBe(-45);
+	});
+
+	it("turns the notches over on a flipped piece", () => {
+		const flipped = orientStrip(strip, { flipped: true });
+
+		expect(notchesOf(flipped)).toEqual([
+			{ id: "a", dist: 20, fromTop: false },
+			{ id: "b", dist: 70, fromTop: true },
+		]);
+		expect(flipped.startCutAngle).toBe(-45);
+		// Reversing and flipping together keeps the sign of the bevel
+		expect(
+			orientStrip(strip, { reversed: true, flipped: true }).endCutAngle,
+		).toBe(45);
+	});
+});
+
 describe("computeRowLengths()", () => {
 	it("computes per-row physical lengths from layout data", () => {
 		const strips: DesignStrip[] = [
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+	BUILT_IN_MOTIFS,
+	motifCellsInRange,
+	motifFromLines,
+	stampMotif,
+} from "./kumiko-motifs";
+import type { Motif } from "./types";
+
+const square: Motif = {
+	id: "square",
+	name: "Square",
+	width: 2,
+	height: 2,
+	lines: [
+		{ x1: 0, y1: 0, x2: 2, y2: 0 },
+		{ x1: 0, y1: 0, x2: 0, y2: 2 },
+	],
+};
+
+describe("motifCellsInRange()", () => {
+	it("returns the cell containing a single point", () => {
+		expect(motifCellsInRange(square, { x: 3, y: 1 }, { x: 3, y: 1 })).toEqual([
+			{ x: 2, y: 0 },
+		]);
+	});
+
+	it("covers every cell between two points in either drag direction", () => {
+		const cells = motifCellsInRange(square, { x: 5, y: 3 }, { x: 1, y: 0 });
+		expect(cells).toEqual([
+			{ x: 0, y: 0 },
+			{ x: 2, y: 0 },
+			{ x: 4, y: 0 },
+			{ x: 0, y: 2 },
+			{ x: 2, y: 2 },
+			{ x: 4, y: 2 },
+		]);
+	});
+});
+
+describe("stampMotif()", () => {
+	it("offsets the motif lines to each cell with unique ids", () => {
+		const lines = stampMotif(square, [
+			{ x: 0, y: 0 },
+			{ x: 2, y: 4 },
+		]);
+		expect(lines).toHaveLength(4);
+		expect(lines[2]).toMatchObject({ x1: 2, y1: 4, x2: 4, y2: 4 });
+		expect(new Set(lines.map((line) => line.id)).size).toBe(4);
+	});
+
+	it("keeps built-in motifs inside their cell", () => {
+		for (const motif of BUILT_IN_MOTIFS) {
+			for (const line of motif.lines) {
+				for (const x of [line.x1, line.x2]) {
+					expect(x).toBeGreaterThanOrEqual(0);
+					expect(x).toBeLessThanOrEqual(motif.width);
+				}
+				for (const y of [line.y1, line.y2]) {
+					expect(y).toBeGreaterThanOrEqual(0);
+					expect(y).toBeLessThanOrEqual(motif.height);
+				}
+			}
+		}
+	});
+});
+
+describe("motifFromLines()", () => {
+	it("moves the lines to the origin and sizes the cell to fit", () => {
+		const motif = motifFromLines("Corner", [
+			{ id: "a", x1: 10, y1: 20, x2: 13, y2: 20 },
+			{ id: "b", x1: 10, y1: 20, x2: 10, y2: 22 },
+		]);
+		expect(motif).toMatchObject({
+			name: "Corner",
+			width: 3,
+			height: 2,
+			lines: [
+				{ x1: 0, y1: 0, x2: 3, y2: 0 },
+				{ x1: 0, y1: 0, x2: 0, y2: 2 },
+			],
+		});
+	});
+
+	it("gives a straight line a cell one unit deep", () => {
+		const motif = motifFromLines("Bar", [
+			{ id: "a", x1: 4, y1: 4, x2: 8, y2: 4 },
+		]);
+		expect(motif).toMatchObject({ width: 4, height: 1 });
+	});
+
+	it("returns null without lines", () => {
+		expect(motifFromLines("Empty", [])).toBeNull();
+	});
+});
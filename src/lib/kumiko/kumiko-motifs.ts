@@ -0,0 +1,125 @@
+import type { Line, Motif, Point } from "./types";
+import { newId } from "./utils";
+
+/** Motifs that ship with the app */
+export const BUILT_IN_MOTIFS: Motif[] = [
+	{
+		id: "cross",
+		name: "Cross",
+		width: 2,
+		height: 2,
+		lines: [
+			{ x1: 1, y1: 0, x2: 1, y2: 2 },
+			{ x1: 0, y1: 1, x2: 2, y2: 1 },
+		],
+		builtIn: true,
+	},
+	{
+		id: "diagonal-cross",
+		name: "Diagonal Cross",
+		width: 2,
+		height: 2,
+		lines: [
+			{ x1: 0, y1: 0, x2: 2, y2: 2 },
+			{ x1: 2, y1: 0, x2: 0, y2: 2 },
+		],
+		builtIn: true,
+	},
+	{
+		id: "diamond",
+		name: "Diamond",
+		width: 2,
+		height: 2,
+		lines: [
+			{ x1: 1, y1: 0, x2: 2, y2: 1 },
+			{ x1: 2, y1: 1, x2: 1, y2: 2 },
+			{ x1: 1, y1: 2, x2: 0, y2: 1 },
+			{ x1: 0, y1: 1, x2: 1, y2: 0 },
+		],
+		builtIn: true,
+	},
+	{
+		id: "nested-square",
+		name: "Nested Square",
+		width: 4,
+		height: 4,
+		lines: [
+			{ x1: 0, y1: 0, x2: 4, y2: 0 },
+			{ x1: 4, y1: 0, x2: 4, y2: 4 },
+			{ x1: 4, y1: 4, x2: 0, y2: 4 },
+			{ x1: 0, y1: 4, x2: 0, y2: 0 },
+			{ x1: 1, y1: 1, x2: 3, y2: 1 },
+			{ x1: 3, y1: 1, x2: 3, y2: 3 },
+			{ x1: 3, y1: 3, x2: 1, y2: 3 },
+			{ x1: 1, y1: 3, x2: 1, y2: 1 },
+		],
+		builtIn: true,
+	},
+];
+
+/**
+ * Corners of the motif cells covering the range between two grid points,
+ * inclusive. Cells are aligned to multiples of the motif size, so a single
+ * point gives the one cell containing it.
+ */
+export function motifCellsInRange(motif: Motif, a: Point, b: Point): Point[] {
+	const cellX = (x: number) => Math.floor(x / motif.width);
+	const cellY = (y: number) => Math.floor(y / motif.height);
+	const minX = Math.min(cellX(a.x), cellX(b.x));
+	const maxX = Math.max(cellX(a.x), cellX(b.x));
+	const minY = Math.min(cellY(a.y), cellY(b.y));
+	const maxY = Math.max(cellY(a.y), cellY(b.y));
+
+	const cells: Point[] = [];
+	for (let j = minY; j <= maxY; j++) {
+		for (let i = minX; i <= maxX; i++) {
+			cells.push({ x: i * motif.width, y: j * motif.height });
+		}
+	}
+	return cells;
+}
+
+/**
+ * Lines of the motif placed at each cell corner, with fresh ids.
+ */
+export function stampMotif(motif: Motif, cells: Point[]): Line[] {
+	return cells.flatMap((cell) =>
+		motif.lines.map((line) => ({
+			id: newId(),
+			x1: cell.x + line.x1,
+			y1: cell.y + line.y1,
+			x2: cell.x + line.x2,
+			y2: cell.y + line.y2,
+		})),
+	);
+}
+
+/**
+ * Create a motif from lines of the design. The cell is the bounding box of
+ * the lines, so stamping it into neighbouring cells repeats it seamlessly.
+ * Returns null for an empty or degenerate selection.
+ */
+export function motifFromLines(name: string, lines: Line[]): Motif | null {
+	if (lines.length === 0) return null;
+	const xs = lines.flatMap((line) => [line.x1, line.x2]);
+	const ys = lines.flatMap((line) => [line.y1, line.y2]);
+	const minX = Math.min(...xs);
+	const minY = Math.min(...ys);
+	const width = Math.max(...xs) - minX;
+	const height = Math.max(...ys) - minY;
+	if (width === 0 && height === 0) return null;
+
+	return {
+		id: newId(),
+		name,
+		// A motif of only horizontal (or vertical) lines still needs a cell
+		width: Math.max(1, width),
+		height: Math.max(1, height),
+		lines: lines.map((line) => ({
+			x1: line.x1 - minX,
+			y1: line.y1 - minY,
+			x2: line.x2 - minX,
+			y2: line.y2 - minY,
+		})),
+	};
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeStockUsage,
+	nestStrips,
+	unplacedStripDemand,
+} from "./kumiko-nesting";
+import { makePiece, makeStrip } from "./test-fixtures";
+
+const strips = [
+	makeStrip({ id: "s60", lengthMM: 60 }),
+	makeStrip({ id: "s50", lengthMM: 50 }),
+	makeStrip({ id: "s40", lengthMM: 40 }),
+	makeStrip({ id: "s30", lengthMM: 30 }),
+];
+const strip = (id: string) => {
+	const found = strips.find((s) => s.id === id);
+	if (!found) throw new Error(`Strip ${id} not found`);
+	return found;
+};
+
+const rowsOf = (pieces: { lineId: string; rowIndex: number }[]) => {
+	const rows: string[][] = [];
+	for (const piece of pieces) {
+		rows[piece.rowIndex] ??= [];
+		rows[piece.rowIndex].push(piece.lineId);
+	}
+	return rows;
+};
+
+describe("nestStrips()", () => {
+	it("places the longest strips first, each into the first row with room", () => {
+		const { pieces, unplaced } = nestStrips({
+			demand: [
+				{ strip: strip("s30"), count: 2 },
+				{ strip: strip("s60"), count: 1 },
+				{ strip: strip("s50"), count: 1 },
+			],
+			pieces: [],
+			designStrips: strips,
+			stockLength: 100,
+			bitSize: 2,
+			strategy: "first-fit",
+		});
+
+		expect(unplaced).toEqual([]);
+		expect(rowsOf(pieces)).toEqual([
+			["s60", "s30"],
+			["s50", "s30"],
+		]);
+		// Pieces follow each other with a kerf in between
+		expect(pieces[2]).toMatchObject({
+			lineId: "s30",
+			rowIndex: 0,
+			x: 62,
+			y: 0,
+		});
+	});
+
+	it("tops up existing rows that still have room", () => {
+		const { pieces } = nestStrips({
+			demand: [{ strip: strip("s40"), count: 1 }],
+			pieces: [
+				makePiece({ id: "a", lineId: "s60", rowIndex: 0, x: 0 }),
+				makePiece({ id: "b", lineId: "s40", rowIndex: 1, x: 0 }),
+			],
+			designStrips: strips,
+			stockLength: 100,
+			bitSize: 2,
+			strategy: "best-fit",
+		});
+
+		// Row 0 has 38 mm left and row 1 has 58 mm, so only row 1 fits
+		expect(pieces[0]).toMatchObject({ rowIndex: 1, x: 42, y: 20 });
+	});
+
+	it("prefers the fuller of two fitting rows with best fit", () => {
+		const existing = [
+			makePiece({ id: "a", lineId: "s30", rowIndex: 0, x: 0 }),
+			makePiece({ id: "b", lineId: "s50", rowIndex: 1, x: 0 }),
+		];
+		const options = {
+			demand: [{ strip: strip("s40"), count: 1 }],
+			pieces: existing,
+			designStrips: strips,
+			stockLength: 100,
+			bitSize: 2,
+		};
+
+		expect(
+			nestStrips({ ...options, strategy: "first-fit" }).pieces[0].rowIndex,
+		).toBe(0);
+		expect(
+			nestStrips({ ...options, strategy: "best-fit" }).pieces[0].rowIndex,
+		).toBe(1);
+	});
+
+	it("leaves room for the end cut of the last strip in a row", () => {
+		const options = {
+			demand: [
+				{ strip: strip("s50"), count: 1 },
+				{ strip: strip("s40"), count: 1 },
+			],
+			pieces: [],
+			designStrips: strips,
+			bitSize: 2,
+			strategy: "first-fit" as const,
+		};
+
+		// 52 + 40 fits in 93, but the end cut of s40 lands at 94
+		expect(rowsOf(nestStrips({ ...options, stockLength: 93 }).pieces)).toEqual([
+			["s50"],
+			["s40"],
+		]);
+		expect(rowsOf(nestStrips({ ...options, stockLength: 94 }).pieces)).toEqual([
+			["s50", "s40"],
+		]);
+	});
+
+	it("reports strips longer than the stock instead of placing them", () => {
+		const { pieces, unplaced } = nestStrips({
+			demand: [{ strip: strip("s60"), count: 2 }],
+			pieces: [],
+			designStrips: strips,
+			stockLength: 50,
+			bitSize: 2,
+			strategy: "first-fit",
+		});
+
+		expect(pieces).toEqual([]);
+		expect(unplaced.map((s) => s.id)).toEqual(["s60", "s60"]);
+	});
+});
+
+describe("unplacedStripDemand()", () => {
+	it("asks for the missing strips of an entry, not its first strip", () => {
+		const twins = [
+			makeStrip({ id: "t1", lengthMM: 40 }),
+			makeStrip({ id: "t2", lengthMM: 40 }),
+			makeStrip({ id: "t3", lengthMM: 40 }),
+		];
+		const demand = unplacedStripDemand(
+			[{ stripIds: ["t1", "t2", "t3"], neededCount: 3, placedCount: 1 }],
+			twins,
+			[makePiece({ id: "a", lineId: "t1" })],
+		);
+
+		expect(demand.map(({ strip, count }) => [strip.id, count])).toEqual([
+			["t2", 1],
+			["t3", 1],
+		]);
+	});
+
+	it("counts extra copies of one strip towards the rest of its entry", () => {
+		const demand = unplacedStripDemand(
+			[{ stripIds: ["t1", "t2", "t3"], neededCount: 3, placedCount: 2 }],
+			[
+				makeStrip({ id: "t1", lengthMM: 40 }),
+				makeStrip({ id: "t2", lengthMM: 40 }),
+				makeStrip({ id: "t3", lengthMM: 40 }),
+			],
+			[
+				makePiece({ id: "a", lineId: "t1" }),
+				makePiece({ id: "b", lineId: "t1" }),
+			],
+		);
+
+		expect(demand.map(({ strip }) => strip.id)).toEqual(["t2"]);
+	});
+});
+
+describe("computeStockUsage()", () => {
+	it("counts each occupied row as one board", () => {
+		const usage = computeStockUsage(
+			[
+				makePiece({ id: "a", lineId: "s60", rowIndex: 0 }),
+				makePiece({ id: "b", lineId: "s30", rowIndex: 0 }),
+				makePiece({ id: "c", lineId: "s50", rowIndex: 2 }),
+			],
+			strips,
+			100,
+		);
+
+		expect(usage).toEqual({
+			boardCount: 2,
+			stripLengthMM: 140,
+			stockLengthMM: 200,
+			utilization: 0.7,
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import { EPSILON, GRID_CELL_HEIGHT } from "./config";
+import { computeKerfedLayoutRows, computeRowLengths } from "./layout-helpers";
+import type { DesignStrip, Piece } from "./types";
+import { newId } from "./utils";
+
+/**
+ * How strips are assigned to boards, longest first:
+ * - first-fit: the first row with room for the strip
+ * - best-fit: the row the strip leaves the least room in
+ */
+export type NestingStrategy = "first-fit" | "best-fit";
+
+export interface NestStripsOptions {
+	/** Strips still to place, with how many copies of each are needed */
+	demand: { strip: DesignStrip; count: number }[];
+	/** Pieces already in the group; their rows are filled first */
+	pieces: Piece[];
+	designStrips: DesignStrip[];
+	stockLength: number;
+	/** Kerf left between neighbouring pieces (mm) */
+	bitSize: number;
+	strategy: NestingStrategy;
+}
+
+export interface NestingResult {
+	/** New pieces, appended to the ends of their rows */
+	pieces: Piece[];
+	/** Strips that with their kerf are longer than the stock, which cannot be placed */
+	unplaced: DesignStrip[];
+}
+
+export interface StockUsage {
+	/** Rows holding at least one piece */
+	boardCount: number;
+	/** Total length of the pieces (mm) */
+	stripLengthMM: number;
+	/** Total length of the boards used (mm) */
+	stockLengthMM: number;
+	/** Share of the used boards' length taken by pieces, from 0 to 1 */
+	utilization: number;
+}
+
+/**
+ * Strips still to place, one entry per strip. Each entry of `uniqueStrips`
+ * holds the ids of strips cut alike; those without a piece in any group
+ * are the ones missing. A strip placed more than once covers for the
+ * others of its entry.
+ */
+export function unplacedStripDemand(
+	uniqueStrips: {
+		stripIds: string[];
+		neededCount: number;
+		placedCount: number;
+	}[],
+	designStrips: DesignStrip[],
+	allPieces: Piece[],
+): NestStripsOptions["demand"] {
+	const placedIds = new Set(allPieces.map((piece) => piece.lineId));
+	return uniqueStrips.flatMap((unique) =>
+		unique.stripIds
+			.filter((id) => !placedIds.has(id))
+			.slice(0, Math.max(0, unique.neededCount - unique.placedCount))
+			.flatMap((id) => {
+				const strip = designStrips.find((s) => s.id === id);
+				return strip ? [{ strip, count: 1 }] : [];
+			}),
+	);
+}
+
+/**
+ * Pack strips into rows no longer than the stock, leaving a kerf between
+ * pieces. Strips are placed longest first into existing rows where they
+ * fit, so a half-filled layout is topped up before new rows are started.
+ */
+export function nestStrips({
+	demand,
+	pieces,
+	designStrips,
+	stockLength,
+	bitSize,
+	strategy,
+}: NestStripsOptions): NestingResult {
+	const rowLengths = computeRowLengths(
+		computeKerfedLayoutRows(pieces, designStrips, bitSize),
+		designStrips,
+	);
+	const lastRow = Math.max(-1, ...rowLengths.keys());
+
+	// Where the next piece of each row would start; empty rows start at 0
+	const rows: { rowIndex: number; nextX: number }[] = [];
+	for (let rowIndex = 0; rowIndex <= lastRow; rowIndex++) {
+		const length = rowLengths.get(rowIndex) ?? 0;
+		rows.push({ rowIndex, nextX: length > 0 ? length + bitSize : 0 });
+	}
+
+	const queue = demand
+		.flatMap(({ strip, count }) =>
+			Array.from({ length: Math.max(0, count) }, () => strip),
+		)
+		.sort((a, b) => b.lengthMM - a.lengthMM);
+
+	const placed: Piece[] = [];
+	const unplaced: DesignStrip[] = [];
+
+	for (const strip of queue) {
+		// Each piece ends with its own end cut, one kerf past the strip
+		const span = strip.lengthMM + bitSize;
+		if (span > stockLength + EPSILON) {
+			unplaced.push(strip);
+			continue;
+		}
+
+		const fitting = rows.filter(
+			(row) => row.nextX + span <= stockLength + EPSILON,
+		);
+		let row =
+			strategy === "best-fit"
+				? fitting.reduce<(typeof rows)[number] | undefined>(
+						(best, candidate) =>
+							!best || candidate.nextX > best.nextX ? candidate : best,
+						undefined,
+					)
+				: fitting[0];
+		if (!row) {
+			row = { rowIndex: rows.length, nextX: 0 };
+			rows.push(row);
+		}
+
+		placed.push({
+			id: newId(),
+			lineId: strip.id,
+			x: row.nextX,
+			y: row.rowIndex * GRID_CELL_HEIGHT,
+			rowIndex: row.rowIndex,
+		});
+		row.nextX += span;
+	}
+
+	return { pieces: placed, unplaced };
+}
+
+/**
+ * How much of the boards a layout uses. Each row is one board of the
+ * stock length.
+ */
+export function computeStockUsage(
+	pieces: Piece[],
+	designStrips: DesignStrip[],
+	stockLength: number,
+): StockUsage {
+	const rows = new Set<number>();
+	let stripLengthMM = 0;
+	for (const piece of pieces) {
+		const strip = designStrips.find((s) => s.id === piece.lineId);
+		if (!strip) continue;
+		rows.add(piece.rowIndex);
+		stripLengthMM += strip.lengthMM;
+	}
+
+	const stockLengthMM = rows.size * stockLength;
+	return {
+		boardCount: rows.size,
+		stripLengthMM,
+		stockLengthMM,
+		utilization: stockLengthMM > 0 ? stripLengthMM / stockLengthMM : 0,
+	};
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeDesignStrips,
+	computeIntersections,
+	normalizeLines,
+} from "./kumiko-design-logic";
+import {
+	arrayLines,
+	crossingsAmong,
+	flipLines,
+	linesCoveredBy,
+	linesInRect,
+	parseLinesFromClipboard,
+	rotateLinesClockwise,
+	serializeLinesForClipboard,
+	translateLines,
+} from "./kumiko-selection";
+import { makeLine } from "./test-fixtures";
+import type { Intersection, Line } from "./types";
+
+/** Endpoints only, so results can be compared regardless of id */
+function coords(lines: Line[]) {
+	return lines.map(({ x1, y1, x2, y2 }) => ({ x1, y1, x2, y2 }));
+}
+
+describe("translateLines()", () => {
+	it("moves every endpoint and keeps ids", () => {
+		const moved = translateLines([makeLine("a", 0, 0, 2, 0)], 3, -1);
+		expect(moved).toEqual([makeLine("a", 3, -1, 5, -1)]);
+	});
+});
+
+describe("rotateLinesClockwise()", () => {
+	it("turns a horizontal line vertical about its centre on a square grid", () => {
+		const rotated = rotateLinesClockwise([makeLine("a", 2, 4, 6, 4)]);
+		expect(coords(rotated)).toEqual([{ x1: 4, y1: 2, x2: 4, y2: 6 }]);
+		expect(rotated[0].id).toBe("a");
+	});
+
+	it("returns to the start after six steps on a triangular grid", () => {
+		const start = [makeLine("a", 1, 2, 4, 3), makeLine("b", 0, 0, 2, 5)];
+		let lines = start;
+		for (let i = 0; i < 6; i++) {
+			lines = rotateLinesClockwise(lines, "triangular");
+		}
+		// Centring is rounded per step, so only the shape is guaranteed
+		const dx = lines[0].x1 - start[0].x1;
+		const dy = lines[0].y1 - start[0].y1;
+		expect(coords(lines)).toEqual(coords(translateLines(start, dx, dy)));
+	});
+});
+
+describe("flipLines()", () => {
+	it("mirrors left/right and top/bottom in place", () => {
+		const lines = [makeLine("a", 0, 0, 2, 0), makeLine("b", 0, 0, 0, 1)];
+
+		expect(coords(flipLines(lines, "horizontal"))).toEqual([
+			{ x1: 2, y1: 0, x2: 0, y2: 0 },
+			{ x1: 2, y1: 0, x2: 2, y2: 1 },
+		]);
+		expect(coords(flipLines(lines, "vertical"))).toEqual([
+			{ x1: 0, y1: 1, x2: 2, y2: 1 },
+			{ x1: 0, y1: 1, x2: 0, y2: 0 },
+		]);
+	});
+
+	it("keeps horizontal lines horizontal on a triangular grid", () => {
+		const [flipped] = flipLines(
+			[makeLine("a", 0, 2, 3, 2)],
+			"vertical",
+			"triangular",
+		);
+		expect(flipped.y1).toBe(flipped.y2);
+	});
+});
+
+describe("arrayLines()", () => {
+	it("repeats lines over columns and rows with fresh ids", () => {
+		const tiles = arrayLines([makeLine("a", 0, 0, 1, 0)], 2, 2, 3, 5);
+
+		expect(tiles.map(coords)).toEqual([
+			[{ x1: 0, y1: 0, x2: 1, y2: 0 }],
+			[{ x1: 3, y1: 0, x2: 4, y2: 0 }],
+			[{ x1: 0, y1: 5, x2: 1, y2: 5 }],
+			[{ x1: 3, y1: 5, x2: 4, y2: 5 }],
+		]);
+		expect(new Set(tiles.flat().map((line) => line.id)).size).toBe(4);
+	});
+
+	it("merges touching tiles into one continuous strip", () => {
+		// A cross motif two cells wide; tiles stepped by its width share the
+		// horizontal line
+		const motif = [makeLine("h", 0, 1, 2, 1), makeLine("v", 1, 0, 1, 2)];
+		const tiles = arrayLines(motif, 4, 1, 2, 0);
+		const lines = normalizeLines(
+			new Map(tiles.flat().map((line) => [line.id, line])),
+		);
+		const strips = computeDesignStrips(
+			lines,
+			computeIntersections(lines, new Map()),
+			10,
+			3.175,
+		);
+
+		// One horizontal strip plus four verticals
+		expect(strips).toHaveLength(5);
+	});
+});
+
+describe("linesInRect()", () => {
+	it("selects only lines lying entirely inside the rectangle", () => {
+		const lines = [
+			makeLine("inside", 1, 1, 2, 1),
+			makeLine("crossing", 0, 1, 5, 1),
+			makeLine("outside", 4, 4, 5, 4),
+		];
+		expect(linesInRect(lines, { x: 3, y: 3 }, { x: 1, y: 0 })).toEqual([
+			"inside",
+		]);
+	});
+});
+
+describe("linesCoveredBy()", () => {
+	it("finds lines that lie on the given segments", () => {
+		const lines = [
+			makeLine("merged-part", 2, 0, 4, 0),
+			makeLine("other", 0, 1, 4, 1),
+		];
+		expect(linesCoveredBy(lines, [makeLine("s", 0, 0, 4, 0)])).toEqual([
+			"merged-part",
+		]);
+	});
+});
+
+describe("clipboard", () => {
+	it("round-trips lines and crossings with fresh ids", () => {
+		const lines = [makeLine("h", 0, 1, 2, 1), makeLine("v", 1, 0, 1, 2)];
+		const intersections = new Map<string, Intersection>([
+			[
+				"i",
+				{
+					id: "i",
+					x: 1,
+					y: 1,
+					line1Id: "h",
+					line2Id: "v",
+					line1Over: false,
+				},
+			],
+		]);
+		const crossings = crossingsAmong(intersections, new Set(["h", "v"]));
+		expect(crossings).toEqual([["v", "h"]]);
+
+		const parsed = parseLinesFromClipboard(
+			serializeLinesForClipboard(lines, crossings),
+		);
+		expect(parsed).not.toBeNull();
+		expect(coords(parsed?.lines ?? [])).toEqual(coords(lines));
+		const [h, v] = parsed?.lines ?? [];
+		expect(h.id).not.toBe("h");
+		expect(parsed?.crossings).toEqual([[v.id, h.id]]);
+	});
+
+	it("rejects text that is not a copied selection", () => {
+		expect(parseLinesFromClipboard("hello")).toBeNull();
+		expect(parseLinesFromClipboard('{"lines":[]}')).toBeNull();
+		expect(
+			parseLinesFromClipboard('{"format":"kumiko-lines","lines":[{"x1":"a"}]}'),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,283 @@
+import { latticeToCartesian } from "./geometry";
+import type { GridType, Intersection, Line, Point } from "./types";
+import { newId } from "./utils";
+
+/**
+ * Direction of a mirror operation, named like image editors:
+ * "horizontal" swaps left and right, "vertical" swaps top and bottom.
+ */
+export type FlipDirection = "horizontal" | "vertical";
+
+/** Integer lattice map [a, b, c, d]: (x, y) -> (a·x + b·y, c·x + d·y) */
+type LatticeMatrix = [number, number, number, number];
+
+/**
+ * One clockwise rotation step that maps the lattice onto itself: 90° on a
+ * square grid, 60° on a triangular grid.
+ */
+const ROTATE_CLOCKWISE: Record<GridType, LatticeMatrix> = {
+	square: [0, -1, 1, 0],
+	triangular: [0, -1, 1, 1],
+};
+
+const FLIP: Record<GridType, Record<FlipDirection, LatticeMatrix>> = {
+	square: {
+		horizontal: [-1, 0, 0, 1],
+		vertical: [1, 0, 0, -1],
+	},
+	triangular: {
+		horizontal: [-1, -1, 0, 1],
+		vertical: [1, 1, 0, -1],
+	},
+};
+
+/** Identifies clipboard text produced by serializeLinesForClipboard */
+const CLIPBOARD_FORMAT = "kumiko-lines";
+const CLIPBOARD_VERSION = 1;
+
+/** Centre of the bounding box of all line endpoints, in lattice coordinates */
+function boundsCentre(lines: Line[]): Point {
+	if (lines.length === 0) return { x: 0, y: 0 };
+	const xs = lines.flatMap((line) => [line.x1, line.x2]);
+	const ys = lines.flatMap((line) => [line.y1, line.y2]);
+	return {
+		x: (Math.min(...xs) + Math.max(...xs)) / 2,
+		y: (Math.min(...ys) + Math.max(...ys)) / 2,
+	};
+}
+
+/**
+ * Apply a lattice map to every endpoint, then shift the result by whole
+ * lattice steps so it stays centred where the selection was.
+ */
+function transformInPlace(lines: Line[], [a, b, c, d]: LatticeMatrix): Line[] {
+	const mapped = lines.map((line) => ({
+		...line,
+		x1: a * line.x1 + b * line.y1,
+		y1: c * line.x1 + d * line.y1,
+		x2: a * line.x2 + b * line.y2,
+		y2: c * line.x2 + d * line.y2,
+	}));
+
+	const before = boundsCentre(lines);
+	const after = boundsCentre(mapped);
+	return translateLines(
+		mapped,
+		Math.round(before.x - after.x),
+		Math.round(before.y - after.y),
+	);
+}
+
+/**
+ * Move lines by a whole number of lattice steps.
+ */
+export function translateLines(lines: Line[], dx: number, dy: number): Line[] {
+	return lines.map((line) => ({
+		...line,
+		x1: line.x1 + dx,
+		y1: line.y1 + dy,
+		x2: line.x2 + dx,
+		y2: line.y2 + dy,
+	}));
+}
+
+/**
+ * Copies of the lines repeated over a countX × countY array, stepping by
+ * whole lattice cells. Each tile lists its lines in input order with fresh
+ * ids; the first tile sits where the input lines are.
+ */
+export function arrayLines(
+	lines: Line[],
+	countX: number,
+	countY: number,
+	stepX: number,
+	stepY: number,
+): Line[][] {
+	const tiles: Line[][] = [];
+	for (let j = 0; j < countY; j++) {
+		for (let i = 0; i < countX; i++) {
+			tiles.push(
+				translateLines(lines, i * stepX, j * stepY).map((line) => ({
+					...line,
+					id: newId(),
+				})),
+			);
+		}
+	}
+	return tiles;
+}
+
+/**
+ * Rotate lines clockwise about their centre by one lattice step (90° on a
+ * square grid, 60° on a triangular grid). Line ids are kept.
+ */
+export function rotateLinesClockwise(
+	lines: Line[],
+	gridType: GridType = "square",
+): Line[] {
+	return transformInPlace(lines, ROTATE_CLOCKWISE[gridType]);
+}
+
+/**
+ * Mirror lines about their centre. Line ids are kept.
+ */
+export function flipLines(
+	lines: Line[],
+	direction: FlipDirection,
+	gridType: GridType = "square",
+): Line[] {
+	return transformInPlace(lines, FLIP[gridType][direction]);
+}
+
+/**
+ * Ids of the lines lying entirely inside the rectangle spanned by two
+ * lattice points. The rectangle is axis-aligned on screen, so the check is
+ * done in Cartesian space.
+ */
+export function linesInRect(
+	lines: Iterable<Line>,
+	corner1: Point,
+	corner2: Point,
+	gridType: GridType = "square",
+): string[] {
+	const a = latticeToCartesian(corner1.x, corner1.y, gridType);
+	const b = latticeToCartesian(corner2.x, corner2.y, gridType);
+	const minX = Math.min(a.x, b.x);
+	const maxX = Math.max(a.x, b.x);
+	const minY = Math.min(a.y, b.y);
+	const maxY = Math.max(a.y, b.y);
+	const inside = (x: number, y: number) => {
+		const p = latticeToCartesian(x, y, gridType);
+		return p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY;
+	};
+
+	const ids: string[] = [];
+	for (const line of lines) {
+		if (inside(line.x1, line.y1) && inside(line.x2, line.y2)) {
+			ids.push(line.id);
+		}
+	}
+	return ids;
+}
+
+/**
+ * Ids of the lines whose midpoint lies on one of the given segments. After
+ * normalizeLines has split and merged lines (giving them new ids), this
+ * finds the lines that came from those segments.
+ */
+export function linesCoveredBy(
+	lines: Iterable<Line>,
+	segments: Line[],
+): string[] {
+	const onSegment = (x: number, y: number, s: Line) => {
+		const cross = (s.x2 - s.x1) * (y - s.y1) - (s.y2 - s.y1) * (x - s.x1);
+		return (
+			cross === 0 &&
+			x >= Math.min(s.x1, s.x2) &&
+			x <= Math.max(s.x1, s.x2) &&
+			y >= Math.min(s.y1, s.y2) &&
+			y <= Math.max(s.y1, s.y2)
+		);
+	};
+
+	const ids: string[] = [];
+	for (const line of lines) {
+		const mx = (line.x1 + line.x2) / 2;
+		const my = (line.y1 + line.y2) / 2;
+		if (segments.some((s) => onSegment(mx, my, s))) ids.push(line.id);
+	}
+	return ids;
+}
+
+/**
+ * Over/under choices between the given lines, as [over id, under id] pairs.
+ */
+export function crossingsAmong(
+	intersections: Map<string, Intersection>,
+	lineIds: Set<string>,
+): Array<[string, string]> {
+	const pairs: Array<[string, string]> = [];
+	for (const intersection of intersections.values()) {
+		const order =
+			intersection.stack ??
+			(intersection.line1Over
+				? [intersection.line1Id, intersection.line2Id]
+				: [intersection.line2Id, intersection.line1Id]);
+		const selected = order.filter((id) => lineIds.has(id));
+		for (let i = 0; i < selected.length; i++) {
+			for (let j = i + 1; j < selected.length; j++) {
+				pairs.push([selected[i], selected[j]]);
+			}
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Serialize lines and the over/under choices between them as JSON for the
+ * clipboard. Ids are replaced by indices so pasted copies get fresh ids.
+ */
+export function serializeLinesForClipboard(
+	lines: Line[],
+	crossings: Array<[string, string]>,
+): string {
+	const index = new Map(lines.map((line, i) => [line.id, i]));
+	return JSON.stringify({
+		format: CLIPBOARD_FORMAT,
+		version: CLIPBOARD_VERSION,
+		lines: lines.map(({ x1, y1, x2, y2 }) => ({ x1, y1, x2, y2 })),
+		crossings: crossings
+			.map(([over, under]) => [index.get(over), index.get(under)])
+			.filter(([over, under]) => over !== undefined && under !== undefined),
+	});
+}
+
+/**
+ * Parse clipboard text written by serializeLinesForClipboard. Returns null
+ * when the text is not a Kumiko line selection. Lines get fresh ids.
+ */
+export function parseLinesFromClipboard(
+	text: string,
+): { lines: Line[]; crossings: Array<[string, string]> } | null {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	if (
+		typeof data !== "object" ||
+		data === null ||
+		(data as { format?: unknown }).format !== CLIPBOARD_FORMAT ||
+		!Array.isArray((data as { lines?: unknown }).lines)
+	) {
+		return null;
+	}
+
+	const { lines: rawLines, crossings: rawCrossings } = data as {
+		lines: unknown[];
+		crossings?: unknown;
+	};
+	const isCoord = (v: unknown): v is number => Number.isInteger(v);
+
+	const lines: Line[] = [];
+	const idByIndex = new Map<number, string>();
+	rawLines.forEach((raw, i) => {
+		const { x1, y1, x2, y2 } = (raw ?? {}) as Record<string, unknown>;
+		if (!isCoord(x1) || !isCoord(y1) || !isCoord(x2) || !isCoord(y2)) return;
+		const id = newId();
+		idByIndex.set(i, id);
+		lines.push({ id, x1, y1, x2, y2 });
+	});
+	if (lines.length === 0) return null;
+
+	const crossings: Array<[string, string]> = [];
+	for (const pair of Array.isArray(rawCrossings) ? rawCrossings : []) {
+		if (!Array.isArray(pair)) continue;
+		const over = idByIndex.get(pair[0]);
+		const under = idByIndex.get(pair[1]);
+		if (over && under) crossings.push([over, under]);
+	}
+
+	return { lines, crossings };
+}
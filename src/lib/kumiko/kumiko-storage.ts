@@ -1,4 +1,11 @@
-import type { GridViewState } from "./types";
+import type {
+	FrameSettings,
+	GridType,
+	GridViewState,
+	Motif,
+	ReferenceImage,
+	TJointType,
+} from "./types";
 
 export interface SavedDesignPayload {
 	version: 1;
@@ -8,14 +15,32 @@ export interface SavedDesignPayload {
 	cutDepth: number;
 	halfCutDepth: number;
 	/**
-	 * Physical size of a single grid cell in mm (design scale).
+	 * Thickness of the strips in mm. Older payloads omit this, in which case
+	 * the bit size is used (one bit pass per notch).
+	 */
+	stripThickness?: number;
+	/**
+	 * Physical size of a single grid cell in mm (design scale). For
+	 * rectangular cells this is the cell width.
 	 * All persisted designs must provide this.
 	 */
 	gridCellSize: number;
+	/**
+	 * Physical height of a grid cell in mm. Older payloads omit this and
+	 * have square cells (height = gridCellSize).
+	 */
+	gridCellSizeY?: number;
+	/**
+	 * Lattice the line coordinates refer to. Older payloads omit this and
+	 * are always square grids.
+	 */
+	gridType?: GridType;
 	/**
 	 * Physical board/stock length in mm used in layout and SVG export.
 	 */
 	stockLength: number;
+	/** Default T-joint type. Older payloads omit this and use butt joints. */
+	tJointType?: TJointType;
 
 	// design
 	lines: {
@@ -26,15 +51,38 @@ export interface SavedDesignPayload {
 		y2: number;
 	}[];
 
-	// intersection states (id -> line1Over boolean)
+	/**
+	 * Construction lines that are drawn on the grid but never become strips.
+	 * Older payloads omit this.
+	 */
+	guides?: {
+		id: string;
+		x1: number;
+		y1: number;
+		x2: number;
+		y2: number;
+	}[];
+
+	// intersection states (geometry key -> first line over). Older payloads
+	// use `int_${line1.id}_${line2.id}` keys, migrated on load.
 	intersectionStates?: [string, boolean][];
 
+	// T-joint types chosen for single joints (grid point key -> type).
+	// Older payloads omit this.
+	tJointTypes?: [string, TJointType][];
+
 	/**
 	 * Optional persisted view state for the grid designer.
 	 * Older payloads may omit this, in which case sensible defaults are used.
 	 */
 	gridViewState?: GridViewState;
 
+	/** Tracing underlay for the grid designer. Older payloads omit this. */
+	referenceImage?: ReferenceImage;
+
+	/** Outer frame of the panel. Older payloads omit this. */
+	frame?: FrameSettings;
+
 	// layout
 	groups: {
 		id: string;
@@ -45,6 +93,8 @@ export interface SavedDesignPayload {
 			x: number;
 			y: number;
 			rowIndex: number;
+			reversed?: boolean;
+			flipped?: boolean;
 		}[];
 		fullCuts: {
 			id: string;
@@ -252,6 +302,64 @@ export function deleteNamedDesign(name: string): void {
 	}
 }
 
+// =============================================================================
+// Motif Library
+// =============================================================================
+
+const STORAGE_KEY_MOTIFS = "kumiko-designer-motifs-v1";
+
+function isValidMotif(motif: Motif | null): motif is Motif {
+	if (!motif) return false;
+	if (typeof motif.id !== "string" || typeof motif.name !== "string") {
+		return false;
+	}
+	if (!(motif.width > 0 && motif.height > 0)) return false;
+	return Array.isArray(motif.lines);
+}
+
+/**
+ * Return all motifs the user has saved (built-in motifs are not stored).
+ */
+export function listSavedMotifs(): Motif[] {
+	if (!isBrowser()) return [];
+	try {
+		const raw = window.localStorage.getItem(STORAGE_KEY_MOTIFS);
+		if (!raw) return [];
+		const parsed = JSON.parse(raw) as Motif[];
+		if (!Array.isArray(parsed)) return [];
+		return parsed.filter(isValidMotif);
+	} catch (error) {
+		// eslint-disable-next-line no-console
+		console.error("[kumiko-storage] Failed to list motifs", error);
+		return [];
+	}
+}
+
+function saveMotifList(motifs: Motif[]): void {
+	if (!isBrowser()) return;
+	try {
+		window.localStorage.setItem(STORAGE_KEY_MOTIFS, JSON.stringify(motifs));
+	} catch (error) {
+		// eslint-disable-next-line no-console
+		console.error("[kumiko-storage] Failed to save motifs", error);
+	}
+}
+
+/**
+ * Save a motif to the library. Overwrites an existing motif with the same id.
+ */
+export function saveMotif(motif: Motif): void {
+	const motifs = listSavedMotifs().filter((m) => m.id !== motif.id);
+	saveMotifList([...motifs, { ...motif, builtIn: undefined }]);
+}
+
+/**
+ * Delete a saved motif from the library.
+ */
+export function deleteMotif(id: string): void {
+	saveMotifList(listSavedMotifs().filter((m) => m.id !== id));
+}
+
 // =============================================================================
 // Payload Serialization
 // =============================================================================
@@ -263,15 +371,25 @@ export interface CreateDesignPayloadOptions {
 	bitSize: number;
 	cutDepth: number;
 	halfCutDepth: number;
+	stripThickness: number;
 	gridCellSize: number;
+	gridCellSizeY?: number;
+	gridType: GridType;
 	stockLength: number;
+	tJointType?: TJointType;
 	lines: Map<string, Line>;
+	/** Construction lines (omitted from the payload when empty) */
+	guides?: Map<string, Line>;
 	groups: Map<string, Group>;
 	activeGroupId: string;
 	designName?: string;
 	intersectionStates: Map<string, boolean>;
+	/** Per-joint T-joint types (omitted from the payload when empty) */
+	tJointTypes?: Map<string, TJointType>;
 	/** Zoom/pan state to persist (view settings are stored separately) */
 	zoomPanState?: ZoomPanState;
+	referenceImage?: ReferenceImage;
+	frame?: FrameSettings;
 }
 
 /**
@@ -286,14 +404,22 @@ export function createDesignPayload(
 		bitSize,
 		cutDepth,
 		halfCutDepth,
+		stripThickness,
 		gridCellSize,
+		gridCellSizeY,
+		gridType,
 		stockLength,
+		tJointType,
 		lines,
+		guides,
 		groups,
 		activeGroupId,
 		designName,
 		intersectionStates,
+		tJointTypes,
 		zoomPanState,
+		referenceImage,
+		frame,
 	} = options;
 
 	return {
@@ -302,9 +428,14 @@ export function createDesignPayload(
 		bitSize,
 		cutDepth,
 		halfCutDepth,
+		stripThickness,
 		gridCellSize,
+		gridCellSizeY,
+		gridType,
 		stockLength,
+		tJointType,
 		lines: Array.from(lines.values()),
+		guides: guides?.size ? Array.from(guides.values()) : undefined,
 		groups: Array.from(groups.values()).map((g) => ({
 			id: g.id,
 			name: g.name,
@@ -314,6 +445,9 @@ export function createDesignPayload(
 		activeGroupId,
 		designName: designName || undefined,
 		intersectionStates: Array.from(intersectionStates.entries()),
+		tJointTypes: tJointTypes?.size
+			? Array.from(tJointTypes.entries())
+			: undefined,
 		// Store zoom/pan state as gridViewState for backward compatibility
 		gridViewState: zoomPanState
 			? {
@@ -322,5 +456,7 @@ export function createDesignPayload(
 					panY: zoomPanState.panY,
 				}
 			: undefined,
+		referenceImage,
+		frame,
 	};
 }
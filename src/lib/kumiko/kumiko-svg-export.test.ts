@@ -1,7 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { analyzeGroupPasses, generateGroupSVG } from "./kumiko-svg-export";
+import {
+	analyzeGroupPasses,
+	countGroupCutLines,
+	generateGroupSVG,
+} from "./kumiko-svg-export";
 import { makePiece, makeStrip } from "./test-fixtures";
-import type { Group } from "./types";
+import type { DesignStrip, Group, Piece } from "./types";
 
 const makeGroup = (overrides?: Partial<Group>): Group => ({
 	id: overrides?.id ?? "g1",
@@ -303,4 +307,270 @@ describe("generateGroupSVG()", () => {
 		// Should HAVE notches
 		expect(svgFlipped).toContain('stroke="#808080"');
 	});
+
+	it("clears notches wider than the bit with offset passes", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({
+				id: "s1",
+				lengthMM: 100,
+				notches: [
+					{ id: "n1", otherLineId: "x", dist: 30, fromTop: true, width: 2 },
+					{ id: "n2", otherLineId: "y", dist: 60, fromTop: true, width: 5 },
+				],
+			}),
+		];
+
+		const pieces = new Map<string, Piece>();
+		pieces.set(
+			"p1",
+			makePiece({ id: "p1", lineId: "s1", rowIndex: 0, x: 0, y: 0 }),
+		);
+
+		const svg = generateGroupSVG({
+			group: makeGroup({ pieces }),
+			designStrips: strips,
+			bitSize: 2,
+			stockLength: 300,
+		}) as string;
+
+		// Bit-width notch is one pass; the 5mm notch needs 3 passes of a 2mm bit
+		expect(countOccurrences(svg, 'stroke="#808080"')).toBe(4);
+
+		// Notch centre is at leftFace (1mm) + 60mm; outer passes sit 1.5mm either side
+		expect(svg).toContain('x1="5.950"');
+		expect(svg).toContain('x1="6.100"');
+		expect(svg).toContain('x1="6.250"');
+	});
+
+	it("keeps notches with explicit depths on separately coloured lines", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({
+				id: "s1",
+				lengthMM: 100,
+				notches: [
+					{ id: "n1", otherLineId: "x", dist: 20, fromTop: true },
+					{ id: "n2", otherLineId: "y", dist: 50, fromTop: true, depth: 6 },
+					{ id: "n3", otherLineId: "z", dist: 80, fromTop: true, depth: 12 },
+				],
+			}),
+		];
+
+		const pieces = new Map<string, Piece>();
+		pieces.set(
+			"p1",
+			makePiece({ id: "p1", lineId: "s1", rowIndex: 0, x: 0, y: 0 }),
+		);
+
+		const svg = generateGroupSVG({
+			group: makeGroup({ pieces }),
+			designStrips: strips,
+			bitSize: 2,
+			stockLength: 300,
+		}) as string;
+
+		expect(countOccurrences(svg, 'stroke="#808080"')).toBe(1);
+		expect(countOccurrences(svg, "data-depth-mm=")).toBe(2);
+		expect(svg).toContain(
+			'stroke="#B3B3B3" stroke-width="0.200" data-depth-mm="6.000"',
+		);
+		expect(svg).toContain(
+			'stroke="#4D4D4D" stroke-width="0.200" data-depth-mm="12.000"',
+		);
+	});
+
+	it("mirrors the notches of a reversed piece", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({
+				id: "s1",
+				lengthMM: 100,
+				notches: [{ id: "n1", otherLineId: "x", dist: 30, fromTop: true }],
+			}),
+		];
+
+		const pieces = new Map<string, Piece>();
+		pieces.set(
+			"p1",
+			makePiece({ id: "p1", lineId: "s1", rowIndex: 0, reversed: true }),
+		);
+
+		const svg = generateGroupSVG({
+			group: makeGroup({ pieces }),
+			designStrips: strips,
+			bitSize: 2,
+			stockLength: 300,
+		}) as string;
+
+		// Left face at 1mm, notch 30mm from the far end
+		expect(svg).toContain('x1="7.100"');
+		expect(svg).not.toContain('x1="3.100"');
+	});
+
+	it("cuts the top notches of a flipped piece in the bottom pass", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({
+				id: "s1",
+				lengthMM: 100,
+				notches: [{ id: "n1", otherLineId: "x", dist: 30, fromTop: true }],
+			}),
+		];
+		const group = makeGroup({
+			pieces: new Map([
+				["p1", makePiece({ id: "p1", lineId: "s1", flipped: true })],
+			]),
+		});
+
+		expect(analyzeGroupPasses(group, strips)).toEqual({
+			hasTop: false,
+			hasBottom: true,
+		});
+
+		const options = {
+			group,
+			designStrips: strips,
+			bitSize: 2,
+			stockLength: 300,
+		};
+		const svgTop = generateGroupSVG({ ...options, pass: "top" }) ?? "";
+		const svgBottom = generateGroupSVG({ ...options, pass: "bottom" }) ?? "";
+		expect(svgTop).not.toContain('x1="3.100"');
+		expect(svgBottom).toContain('x1="3.100"');
+	});
+
+	it("exports full cuts with the profile cuts but not in the top pass", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({
+				id: "s1",
+				lengthMM: 100,
+				notches: [{ id: "n1", otherLineId: "x", dist: 30, fromTop: true }],
+			}),
+		];
+		const group = makeGroup({
+			pieces: new Map([["p1", makePiece({ id: "p1", lineId: "s1" })]]),
+			fullCuts: new Map([
+				["c1", { id: "c1", x1: 0, y1: 20, x2: 300, y2: 20 }],
+				["c2", { id: "c2", x1: 250, y1: 0, x2: 250, y2: 20 }],
+			]),
+		});
+		const options = {
+			group,
+			designStrips: strips,
+			bitSize: 2,
+			stockLength: 300,
+		};
+
+		const svg = generateGroupSVG(options) ?? "";
+		expect(countOccurrences(svg, 'data-full-cut="true"')).toBe(2);
+		expect(svg).toContain(
+			'<line x1="0.000" y1="2.000" x2="30.000" y2="2.000" stroke="#000000"',
+		);
+		expect(svg).toContain(
+			'<line x1="25.000" y1="0.000" x2="25.000" y2="2.000"',
+		);
+
+		expect(generateGroupSVG({ ...options, pass: "top" })).not.toContain(
+			"data-full-cut",
+		);
+		expect(
+			countOccurrences(
+				generateGroupSVG({ ...options, pass: "bottom" }) ?? "",
+				'data-full-cut="true"',
+			),
+		).toBe(2);
+	});
+
+	it("exports the full cuts of a group without pieces", () => {
+		const group = makeGroup({
+			fullCuts: new Map([
+				["c1", { id: "c1", x1: 0, y1: 20, x2: 300, y2: 20 }],
+				["c2", { id: "c2", x1: 5, y1: 20, x2: 5, y2: 40 }],
+			]),
+		});
+
+		const svg =
+			generateGroupSVG({
+				group,
+				designStrips: [],
+				bitSize: 2,
+				stockLength: 300,
+			}) ?? "";
+
+		expect(countOccurrences(svg, 'data-full-cut="true"')).toBe(2);
+		// The second row alone, so both cuts start at its top edge
+		expect(svg).toContain('height="2.000cm"');
+		expect(svg).toContain('<line x1="0.000" y1="0.000" x2="30.000" y2="0.000"');
+		expect(svg).toContain('<line x1="0.500" y1="0.000" x2="0.500" y2="2.000"');
+		expect(
+			generateGroupSVG({
+				group,
+				designStrips: [],
+				bitSize: 2,
+				stockLength: 300,
+				pass: "top",
+			}),
+		).toBeNull();
+	});
+
+	it("counts lines shared by neighbouring rows once", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({
+				id: "s1",
+				lengthMM: 100,
+				notches: [{ id: "n1", otherLineId: "x", dist: 30, fromTop: true }],
+			}),
+		];
+		const pieces = new Map<string, Piece>([
+			["p1", makePiece({ id: "p1", lineId: "s1", rowIndex: 0 })],
+			["p2", makePiece({ id: "p2", lineId: "s1", rowIndex: 1, y: 20 })],
+		]);
+
+		expect(countGroupCutLines(makeGroup({ pieces }), strips, 2)).toBe(3);
+	});
+
+	it("cuts bevelled ends square and marks them for hand finishing", () => {
+		const strips: DesignStrip[] = [
+			makeStrip({ id: "s1", lengthMM: 100, startCutAngle: -45 }),
+		];
+
+		const pieces = new Map<string, Piece>();
+		pieces.set(
+			"p1",
+			makePiece({ id: "p1", lineId: "s1", rowIndex: 0, x: 0, y: 0 }),
+		);
+
+		const svg = generateGroupSVG({
+			group: makeGroup({ pieces }),
+			designStrips: strips,
+			bitSize: 2,
+			stockLength: 300,
+		}) as string;
+
+		expect(countOccurrences(svg, 'stroke="#000000"')).toBe(2);
+		expect(countOccurrences(svg, "<text")).toBe(1);
+		expect(svg).toContain('data-annotation="hand-finish"');
+		expect(svg).toContain("45° bevel - finish by hand");
+
+		// The top pass leaves the ends uncut, so there is nothing to finish
+		const topPass = generateGroupSVG({
+			group: makeGroup({
+				pieces: new Map([
+					[
+						"p1",
+						makePiece({ id: "p1", lineId: "s2", rowIndex: 0, x: 0, y: 0 }),
+					],
+				]),
+			}),
+			designStrips: [
+				makeStrip({
+					id: "s2",
+					lengthMM: 100,
+					endCutAngle: 30,
+					notches: [{ id: "n1", otherLineId: "x", dist: 50, fromTop: true }],
+				}),
+			],
+			bitSize: 2,
+			stockLength: 300,
+			pass: "top",
+		}) as string;
+		expect(topPass).not.toContain("<text");
+	});
 });
@@ -1,10 +1,13 @@
 import { GRID_CELL_HEIGHT } from "./config";
+import { orientStrip } from "./layout-helpers";
 import type { DesignStrip, Group, Piece } from "./types";
 
 type Segment = {
 	y1: number;
 	y2: number;
 	type: "notch" | "cut";
+	/** Explicit notch depth in mm (multi-way joints); absent = half-cut depth */
+	depth?: number;
 };
 
 export type ExportPass = "all" | "top" | "bottom";
@@ -23,6 +26,29 @@ export interface GenerateGroupSVGOptions {
 	flip?: boolean;
 }
 
+/** Stroke colours for notches cut to an explicit depth, shallowest first */
+const DEPTH_NOTCH_STROKES = ["#B3B3B3", "#4D4D4D", "#CCCCCC", "#333333"];
+
+/**
+ * Compute the X offsets (relative to the notch centre) of the bit passes
+ * needed to clear a notch of the given width. A notch no wider than the bit
+ * is a single centred pass; wider notches get evenly spaced passes, at most
+ * one bit width apart, whose outer edges land exactly on the notch walls.
+ */
+export function notchPassOffsets(
+	notchWidth: number,
+	bitSize: number,
+): number[] {
+	const EPS = 1e-6;
+	if (notchWidth <= bitSize + EPS) return [0];
+
+	const span = notchWidth - bitSize;
+	const passCount = Math.ceil(span / bitSize - EPS) + 1;
+	const step = span / (passCount - 1);
+
+	return Array.from({ length: passCount }, (_, i) => -span / 2 + i * step);
+}
+
 /**
  * Checks if a group contains any strips that require double-sided cutting
  * (i.e., have notches on both top and bottom, or just bottom notches that need flipping).
@@ -52,8 +78,10 @@ export function analyzeGroupPasses(
 	for (const piece of group.pieces.values()) {
 		const strip = designStrips.find((s) => s.id === piece.lineId);
 		if (strip) {
-			if (strip.notches.some((n) => n.fromTop)) hasTop = true;
-			if (strip.notches.some((n) => !n.fromTop)) hasBottom = true;
+			// A flipped piece has its top and bottom notches swapped
+			const { notches } = orientStrip(strip, { flipped: piece.flipped });
+			if (notches.some((n) => n.fromTop)) hasTop = true;
+			if (notches.some((n) => !n.fromTop)) hasBottom = true;
 		}
 		if (hasTop && hasBottom) break;
 	}
@@ -61,19 +89,30 @@ export function analyzeGroupPasses(
 	return { hasTop, hasBottom };
 }
 
-export function generateGroupSVG({
-	group,
-	designStrips,
-	bitSize,
-	stockLength,
-	pass = "all",
-	flip = false,
-}: GenerateGroupSVGOptions): string | null {
-	if (!group) return null;
+/** A cut or notch line, spanning the rows whose segments were merged */
+type GroupLine = {
+	x: number;
+	y1: number;
+	y2: number;
+	type: Segment["type"];
+	depth?: number;
+};
 
-	const pieces: Piece[] = Array.from(group.pieces.values());
-	if (pieces.length === 0) return null;
+/** Bevelled end to finish by hand, at the square cut of its long point */
+type BevelNote = { x: number; y: number; angle: number; end: 1 | -1 };
 
+/**
+ * Cut and notch lines for the pieces of a group. Segments at the same X
+ * are merged where they meet across neighbouring rows, so pieces whose
+ * notches line up share one line.
+ */
+function collectGroupLines(
+	pieces: Piece[],
+	designStrips: DesignStrip[],
+	bitSize: number,
+	pass: ExportPass,
+	flip: boolean,
+): { lines: GroupLine[]; bevelNotes: BevelNote[] } {
 	const cutsByX = new Map<
 		string,
 		{
@@ -87,6 +126,7 @@ export function generateGroupSVG({
 		y1: number,
 		y2: number,
 		type: Segment["type"],
+		depth?: number,
 	) => {
 		const key = x.toFixed(3);
 		let entry = cutsByX.get(key);
@@ -94,9 +134,13 @@ export function generateGroupSVG({
 			entry = { x, segments: [] };
 			cutsByX.set(key, entry);
 		}
-		entry.segments.push({ y1, y2, type });
+		entry.segments.push({ y1, y2, type, depth });
 	};
 
+	// The bit only cuts square ends, so bevelled ends are cut square to
+	// their long point and marked for finishing by hand
+	const bevelNotes: BevelNote[] = [];
+
 	const rowMap = new Map<number, Piece[]>();
 	for (const piece of pieces) {
 		const rowIndex = piece.rowIndex;
@@ -117,10 +161,12 @@ export function generateGroupSVG({
 		let boundaryX = 0;
 
 		for (const piece of rowPieces) {
-			const strip = designStrips.find((s) => s.id === piece.lineId);
-			if (!strip) continue;
+			const found = designStrips.find((s) => s.id === piece.lineId);
+			if (!found) continue;
 
+			const strip = orientStrip(found, piece);
 			const stripLength = strip.lengthMM;
+			const { startCutAngle, endCutAngle } = strip;
 
 			const stripStartCutX = boundaryX;
 			const stripEndCutX = boundaryX + stripLength + bitSize;
@@ -130,6 +176,24 @@ export function generateGroupSVG({
 			if (pass !== "top") {
 				addSegment(stripStartCutX, rowY1, rowY2, "cut");
 				addSegment(stripEndCutX, rowY1, rowY2, "cut");
+
+				const rowMidY = (rowY1 + rowY2) / 2;
+				if (startCutAngle) {
+					bevelNotes.push({
+						x: stripStartCutX + bitSize / 2,
+						y: rowMidY,
+						angle: startCutAngle,
+						end: 1,
+					});
+				}
+				if (endCutAngle) {
+					bevelNotes.push({
+						x: stripEndCutX - bitSize / 2,
+						y: rowMidY,
+						angle: endCutAngle,
+						end: -1,
+					});
+				}
 			}
 
 			const leftFaceX = stripStartCutX + bitSize / 2;
@@ -143,33 +207,30 @@ export function generateGroupSVG({
 				if (pass === "top" && !isTop) continue;
 				if (pass === "bottom" && isTop) continue;
 
+				// Notches wider than the bit (thick strips, angled crossings)
+				// are cleared with several offset passes
 				const notchX = leftFaceX + notch.dist;
-				addSegment(notchX, rowY1, rowY2, "notch");
+				for (const offset of notchPassOffsets(
+					notch.width ?? bitSize,
+					bitSize,
+				)) {
+					addSegment(notchX + offset, rowY1, rowY2, "notch", notch.depth);
+				}
 			}
 
 			boundaryX = stripEndCutX;
 		}
 	}
 
-	if (cutsByX.size === 0) {
-		return null;
-	}
-
-	const mergedLines: {
-		x: number;
-		y1: number;
-		y2: number;
-		type: Segment["type"];
-	}[] = [];
+	const mergedLines: GroupLine[] = [];
 	const EPS = 1e-3;
 
 	for (const { x, segments } of cutsByX.values()) {
 		if (segments.length === 0) continue;
 
-		const segmentsByType: Record<Segment["type"], Segment[]> = {
-			notch: [],
-			cut: [],
-		};
+		// Segments are merged per type and notch depth so that cuts of
+		// different depths stay on separate lines
+		const segmentsByKind = new Map<string, Segment[]>();
 
 		for (const seg of segments) {
 			const normalized =
@@ -179,12 +240,29 @@ export function generateGroupSVG({
 							y1: seg.y2,
 							y2: seg.y1,
 							type: seg.type,
+							depth: seg.depth,
 						};
-			segmentsByType[seg.type].push(normalized);
+			const kind = `${seg.type}:${seg.depth?.toFixed(3) ?? ""}`;
+			let kindSegments = segmentsByKind.get(kind);
+			if (!kindSegments) {
+				kindSegments = [];
+				segmentsByKind.set(kind, kindSegments);
+			}
+			kindSegments.push(normalized);
 		}
 
-		(["notch", "cut"] as const).forEach((type) => {
-			const typeSegments = segmentsByType[type].sort((a, b) => a.y1 - b.y1);
+		// Notches first, then profile cuts
+		const kinds = Array.from(segmentsByKind.keys()).sort((a, b) =>
+			a.startsWith("notch") === b.startsWith("notch")
+				? a.localeCompare(b)
+				: a.startsWith("notch")
+					? -1
+					: 1,
+		);
+		for (const kind of kinds) {
+			const typeSegments = (segmentsByKind.get(kind) ?? []).sort(
+				(a, b) => a.y1 - b.y1,
+			);
 
 			let current: Segment | null = null;
 
@@ -197,26 +275,83 @@ export function generateGroupSVG({
 				if (seg.y1 <= current.y2 + EPS) {
 					current.y2 = Math.max(current.y2, seg.y2);
 				} else {
-					mergedLines.push({ x, y1: current.y1, y2: current.y2, type });
+					mergedLines.push({ x, ...current });
 					current = { ...seg };
 				}
 			}
 
 			if (current) {
-				mergedLines.push({ x, y1: current.y1, y2: current.y2, type });
+				mergedLines.push({ x, ...current });
 			}
-		});
+		}
 	}
 
-	if (mergedLines.length === 0) {
+	return { lines: mergedLines, bevelNotes };
+}
+
+/**
+ * Number of separate lines the CNC cuts for a group, counting notch
+ * passes and profile cuts. Lines shared by neighbouring rows count once.
+ */
+export function countGroupCutLines(
+	group: Group,
+	designStrips: DesignStrip[],
+	bitSize: number,
+): number {
+	return collectGroupLines(
+		Array.from(group.pieces.values()),
+		designStrips,
+		bitSize,
+		"all",
+		false,
+	).lines.length;
+}
+
+export function generateGroupSVG({
+	group,
+	designStrips,
+	bitSize,
+	stockLength,
+	pass = "all",
+	flip = false,
+}: GenerateGroupSVGOptions): string | null {
+	if (!group) return null;
+
+	const pieces: Piece[] = Array.from(group.pieces.values());
+
+	const { lines: mergedLines, bevelNotes } = collectGroupLines(
+		pieces,
+		designStrips,
+		bitSize,
+		pass,
+		flip,
+	);
+
+	// Full cuts go right through the stock, so like the profile cuts they
+	// are left out of the top pass
+	const fullCuts = pass === "top" ? [] : Array.from(group.fullCuts.values());
+
+	if (mergedLines.length === 0 && fullCuts.length === 0) {
 		return null;
 	}
 
-	const rowIndices = pieces.map((p) => p.rowIndex);
-	const minRowIndex = Math.min(...rowIndices);
-	const maxRowIndex = Math.max(...rowIndices);
-	const globalMinY = minRowIndex * GRID_CELL_HEIGHT;
-	const globalMaxY = (maxRowIndex + 1) * GRID_CELL_HEIGHT;
+	// Piece lines span the group's rows. Without pieces, the rows the full
+	// cuts touch set the height, at least one row.
+	const fullCutYs = fullCuts.flatMap((cut) => [cut.y1, cut.y2]);
+	let globalMinY: number;
+	let globalMaxY: number;
+	if (pieces.length > 0) {
+		const rowIndices = pieces.map((p) => p.rowIndex);
+		globalMinY = Math.min(...rowIndices) * GRID_CELL_HEIGHT;
+		globalMaxY = (Math.max(...rowIndices) + 1) * GRID_CELL_HEIGHT;
+	} else {
+		globalMinY =
+			Math.floor(Math.min(...fullCutYs) / GRID_CELL_HEIGHT) * GRID_CELL_HEIGHT;
+		globalMaxY = Math.max(
+			Math.ceil(Math.max(...fullCutYs) / GRID_CELL_HEIGHT) * GRID_CELL_HEIGHT,
+			globalMinY + GRID_CELL_HEIGHT,
+		);
+	}
 
 	for (const line of mergedLines) {
 		line.y1 = globalMinY;
@@ -229,11 +364,14 @@ export function generateGroupSVG({
 	for (const line of mergedLines) {
 		maxX = Math.max(maxX, line.x);
 	}
+	for (const cut of fullCuts) {
+		maxX = Math.max(maxX, cut.x1, cut.x2);
+	}
 
 	maxX = Math.max(maxX, stockLength);
 
-	const minY = globalMinY;
-	const maxY = globalMaxY;
+	const minY = Math.min(globalMinY, ...fullCutYs);
+	const maxY = Math.max(globalMaxY, ...fullCutYs);
 
 	const viewBoxWidth = maxX - minX || 100;
 	const viewBoxHeight = maxY - minY || 100;
@@ -249,6 +387,24 @@ export function generateGroupSVG({
 	const CUT_STROKE = "#000000";
 	const NOTCH_STROKE = "#808080";
 	const BOUNDING_STROKE = "#E6E6E6";
+	const ANNOTATION_FILL = "#D97706";
+
+	// Notches with an explicit depth get their own colour per depth so CAM
+	// software can assign each depth to a separate operation
+	const explicitDepths = Array.from(
+		new Set(
+			mergedLines
+				.map((line) => line.depth)
+				.filter((depth): depth is number => depth !== undefined)
+				.map((depth) => depth.toFixed(3)),
+		),
+	).sort((a, b) => Number(a) - Number(b));
+	const strokeForLine = (line: (typeof mergedLines)[number]) => {
+		if (line.type === "cut") return CUT_STROKE;
+		if (line.depth === undefined) return NOTCH_STROKE;
+		const index = explicitDepths.indexOf(line.depth.toFixed(3));
+		return DEPTH_NOTCH_STROKES[index % DEPTH_NOTCH_STROKES.length];
+	};
 
 	// Use bit size for stroke width to reflect realistic cut dimensions
 	const strokeWidthCm = mmToCm(bitSize);
@@ -257,18 +413,35 @@ export function generateGroupSVG({
 
 	const linesSvg = mergedLines
 		.map((line) => {
-			const stroke = line.type === "cut" ? CUT_STROKE : NOTCH_STROKE;
+			const stroke = strokeForLine(line);
 			const xCm = mmToCm(line.x);
 			const y1Cm = mmToCm(line.y1 - offsetY);
 			const y2Cm = mmToCm(line.y2 - offsetY);
+			const depthAttr =
+				line.depth !== undefined
+					? ` data-depth-mm="${line.depth.toFixed(3)}"`
+					: "";
 			return `  <line x1="${xCm.toFixed(3)}" y1="${y1Cm.toFixed(
 				3,
 			)}" x2="${xCm.toFixed(3)}" y2="${y2Cm.toFixed(
 				3,
-			)}" stroke="${stroke}" stroke-width="${strokeWidthCm.toFixed(3)}" stroke-linecap="round" stroke-linejoin="round" />`;
+			)}" stroke="${stroke}" stroke-width="${strokeWidthCm.toFixed(3)}"${depthAttr} stroke-linecap="round" stroke-linejoin="round" />`;
 		})
 		.join("\n");
 
+	const fullCutsSvg = fullCuts
+		.map(
+			(cut) =>
+				`\n  <line x1="${mmToCm(cut.x1).toFixed(3)}" y1="${mmToCm(
+					cut.y1 - offsetY,
+				).toFixed(3)}" x2="${mmToCm(cut.x2).toFixed(3)}" y2="${mmToCm(
+					cut.y2 - offsetY,
+				).toFixed(
+					3,
+				)}" stroke="${CUT_STROKE}" stroke-width="${strokeWidthCm.toFixed(3)}" data-full-cut="true" stroke-linecap="round" stroke-linejoin="round" />`,
+		)
+		.join("");
+
 	const boxHeightMM = maxY - minY;
 	const boxRect = `  <rect x="0" y="0" width="${mmToCm(stockLength).toFixed(
 		3,
@@ -278,6 +451,25 @@ export function generateGroupSVG({
 		0.5,
 	).toFixed(3)}" />`;
 
+	// Text only, never stroked, so CAM software has no path to cut
+	const annotationsSvg =
+		bevelNotes.length > 0
+			? `\n  <g data-annotation="hand-finish" fill="${ANNOTATION_FILL}" font-family="sans-serif" font-size="${mmToCm(
+					4,
+				).toFixed(3)}">\n${bevelNotes
+					.map(
+						(note) =>
+							`    <text x="${mmToCm(note.x + note.end).toFixed(3)}" y="${mmToCm(
+								note.y - offsetY,
+							).toFixed(3)}" text-anchor="${
+								note.end > 0 ? "start" : "end"
+							}" dominant-baseline="middle">${Math.round(
+								Math.abs(note.angle),
+							)}° bevel - finish by hand</text>`,
+					)
+					.join("\n")}\n  </g>`
+			: "";
+
 	return `<?xml version="1.0" encoding="utf-8"?>
 <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${widthCM.toFixed(
 		3,
@@ -287,6 +479,6 @@ export function generateGroupSVG({
 		3,
 	)} ${heightCM.toFixed(3)}" xml:space="preserve">
 ${boxRect}
-${linesSvg}
+${linesSvg}${fullCutsSvg}${annotationsSvg}
 </svg>`;
 }
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { latticeToCartesian } from "./geometry";
+import {
+	defaultSymmetryCenter,
+	type SymmetryMode,
+	symmetricSegments,
+} from "./kumiko-symmetry";
+
+const center = { x: 10, y: 10 };
+
+/** Segments as sorted strings, so tests don't depend on copy order */
+function keys(
+	mode: SymmetryMode,
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+) {
+	return symmetricSegments({ x: x1, y: y1 }, { x: x2, y: y2 }, { mode, center })
+		.map(([a, b]) => `${a.x},${a.y}-${b.x},${b.y}`)
+		.sort();
+}
+
+describe("symmetricSegments()", () => {
+	it("returns only the stroke without symmetry", () => {
+		expect(keys("none", 1, 2, 3, 2)).toEqual(["1,2-3,2"]);
+	});
+
+	it("mirrors left/right and top/bottom about the centre", () => {
+		expect(keys("mirror-horizontal", 12, 3, 15, 3)).toEqual([
+			"12,3-15,3",
+			"8,3-5,3",
+		]);
+		expect(keys("mirror-vertical", 12, 3, 15, 3)).toEqual([
+			"12,17-15,17",
+			"12,3-15,3",
+		]);
+		expect(keys("mirror-both", 12, 3, 15, 3)).toHaveLength(4);
+	});
+
+	it("lists a stroke lying on the mirror axis once", () => {
+		expect(keys("mirror-horizontal", 10, 2, 10, 6)).toEqual(["10,2-10,6"]);
+	});
+
+	it("rotates in 90° steps and adds mirror images for 8-fold", () => {
+		expect(keys("rotate-4", 12, 3, 15, 3)).toEqual([
+			"12,3-15,3",
+			"17,12-17,15",
+			"3,8-3,5",
+			"8,17-5,17",
+		]);
+		expect(keys("rotate-8", 12, 3, 15, 3)).toHaveLength(8);
+	});
+
+	it("skips copies that fall between triangular lattice points", () => {
+		const segments = symmetricSegments(
+			{ x: 11, y: 10 },
+			{ x: 13, y: 10 },
+			{ mode: "rotate-4", center },
+			"triangular",
+		);
+		// Only the half turn maps the triangular lattice onto itself
+		expect(segments).toEqual([
+			[
+				{ x: 11, y: 10 },
+				{ x: 13, y: 10 },
+			],
+			[
+				{ x: 9, y: 10 },
+				{ x: 7, y: 10 },
+			],
+		]);
+	});
+});
+
+describe("defaultSymmetryCenter()", () => {
+	it("picks a lattice point near the middle of the grid", () => {
+		expect(defaultSymmetryCenter("square")).toEqual({ x: 500, y: 500 });
+
+		const triangular = defaultSymmetryCenter("triangular");
+		const p = latticeToCartesian(triangular.x, triangular.y, "triangular");
+		expect(Math.abs(p.x - 500)).toBeLessThanOrEqual(1);
+		expect(Number.isInteger(triangular.x)).toBe(true);
+	});
+});
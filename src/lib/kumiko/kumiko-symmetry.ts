@@ -0,0 +1,129 @@
+import { EPSILON, GRID_EXTENT_CELLS } from "./config";
+import {
+	cartesianToLattice,
+	latticeToCartesian,
+	snapToLattice,
+} from "./geometry";
+import type { GridType, Point } from "./types";
+
+/**
+ * Live symmetry applied while drawing:
+ * - "mirror-horizontal": mirror left/right across a vertical axis
+ * - "mirror-vertical": mirror top/bottom across a horizontal axis
+ * - "mirror-both": both mirrors, giving four copies
+ * - "rotate-4": four copies at 90° steps
+ * - "rotate-8": the four rotations plus their mirror images. True 45° steps
+ *   never land on lattice points, so this is the eight-fold symmetry
+ *   kumiko panels actually use.
+ */
+export type SymmetryMode =
+	| "none"
+	| "mirror-horizontal"
+	| "mirror-vertical"
+	| "mirror-both"
+	| "rotate-4"
+	| "rotate-8";
+
+export interface SymmetrySettings {
+	mode: SymmetryMode;
+	/** Lattice point the copies are mirrored or rotated about */
+	center: Point;
+}
+
+/** A segment between two lattice points */
+export type Segment = [start: Point, end: Point];
+
+/** Map of a Cartesian offset from the centre */
+type Transform = (dx: number, dy: number) => Point;
+
+const identity: Transform = (dx, dy) => ({ x: dx, y: dy });
+const mirrorX: Transform = (dx, dy) => ({ x: -dx, y: dy });
+const mirrorY: Transform = (dx, dy) => ({ x: dx, y: -dy });
+const rotate90: Transform = (dx, dy) => ({ x: -dy, y: dx });
+const rotate180: Transform = (dx, dy) => ({ x: -dx, y: -dy });
+const rotate270: Transform = (dx, dy) => ({ x: dy, y: -dx });
+const mirrorDiagonal: Transform = (dx, dy) => ({ x: dy, y: dx });
+const mirrorAntiDiagonal: Transform = (dx, dy) => ({ x: -dy, y: -dx });
+
+const TRANSFORMS: Record<SymmetryMode, Transform[]> = {
+	none: [identity],
+	"mirror-horizontal": [identity, mirrorX],
+	"mirror-vertical": [identity, mirrorY],
+	"mirror-both": [identity, mirrorX, mirrorY, rotate180],
+	"rotate-4": [identity, rotate90, rotate180, rotate270],
+	"rotate-8": [
+		identity,
+		rotate90,
+		rotate180,
+		rotate270,
+		mirrorX,
+		mirrorY,
+		mirrorDiagonal,
+		mirrorAntiDiagonal,
+	],
+};
+
+/**
+ * Lattice point closest to the middle of the drawable grid, used as the
+ * symmetry centre until the user places one.
+ */
+export function defaultSymmetryCenter(gridType: GridType = "square"): Point {
+	const corner = latticeToCartesian(0, GRID_EXTENT_CELLS, gridType);
+	return snapToLattice(GRID_EXTENT_CELLS / 2, corner.y / 2, gridType);
+}
+
+/**
+ * Transform a lattice point about the centre. Returns null if the image is
+ * not a lattice point (e.g. a 90° turn on a triangular grid).
+ */
+function transformPoint(
+	point: Point,
+	center: Point,
+	transform: Transform,
+	gridType: GridType,
+): Point | null {
+	const p = latticeToCartesian(point.x, point.y, gridType);
+	const c = latticeToCartesian(center.x, center.y, gridType);
+	const offset = transform(p.x - c.x, p.y - c.y);
+	const lattice = cartesianToLattice(c.x + offset.x, c.y + offset.y, gridType);
+	const snapped = { x: Math.round(lattice.x), y: Math.round(lattice.y) };
+	if (
+		Math.abs(lattice.x - snapped.x) > EPSILON ||
+		Math.abs(lattice.y - snapped.y) > EPSILON
+	) {
+		return null;
+	}
+	return snapped;
+}
+
+/** Key that is the same for a segment and its reverse */
+function segmentKey([a, b]: Segment): string {
+	const [p, q] = a.x < b.x || (a.x === b.x && a.y <= b.y) ? [a, b] : [b, a];
+	return `${p.x},${p.y}-${q.x},${q.y}`;
+}
+
+/**
+ * The drawn segment followed by its distinct symmetric copies. Copies that
+ * coincide with the segment or with each other (e.g. a line on the mirror
+ * axis) are listed once, and copies that fall between lattice points are
+ * skipped.
+ */
+export function symmetricSegments(
+	start: Point,
+	end: Point,
+	symmetry: SymmetrySettings,
+	gridType: GridType = "square",
+): Segment[] {
+	const seen = new Set<string>();
+	const segments: Segment[] = [];
+	for (const transform of TRANSFORMS[symmetry.mode]) {
+		const a = transformPoint(start, symmetry.center, transform, gridType);
+		const b = transformPoint(end, symmetry.center, transform, gridType);
+		if (!a || !b) continue;
+		const key = segmentKey([a, b]);
+		if (seen.has(key)) continue;
+		seen.add(key);
+		segments.push([a, b]);
+	}
+	return segments;
+}
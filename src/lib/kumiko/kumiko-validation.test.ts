@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeDesignStrips,
+	computeIntersections,
+} from "./kumiko-design-logic";
+import { validateDesign } from "./kumiko-validation";
+import { makeLine, makeStrip } from "./test-fixtures";
+import type { Line } from "./types";
+
+const params = { bitSize: 3, stockLength: 600 };
+
+describe("validateDesign()", () => {
+	it("reports no issues for a well spaced strip", () => {
+		const strip = makeStrip({
+			notches: [
+				{ id: "n1", otherLineId: "a", dist: 20, fromTop: true },
+				{ id: "n2", otherLineId: "b", dist: 40, fromTop: true },
+			],
+		});
+
+		expect(validateDesign([strip], params)).toEqual([]);
+	});
+
+	it("flags notches on the same face closer than the bit size", () => {
+		const strip = makeStrip({
+			id: "s1",
+			displayCode: "AB12",
+			notches: [
+				{ id: "n1", otherLineId: "a", dist: 20, fromTop: true },
+				{ id: "n2", otherLineId: "b", dist: 24, fromTop: true },
+				// Opposite face at the same position is fine
+				{ id: "n3", otherLineId: "c", dist: 24, fromTop: false },
+			],
+		});
+
+		const issues = validateDesign([strip], params);
+
+		expect(issues).toHaveLength(1);
+		expect(issues[0]).toMatchObject({
+			kind: "notch-spacing",
+			severity: "error",
+			stripId: "s1",
+			displayCode: "AB12",
+			notchIds: ["n1", "n2"],
+			limitMM: 3,
+		});
+		// 4mm between centres minus half a bit on each side
+		expect(issues[0].measuredMM).toBeCloseTo(1, 5);
+	});
+
+	it("accounts for widened notches when measuring spacing", () => {
+		const strip = makeStrip({
+			notches: [
+				{ id: "n1", otherLineId: "a", dist: 20, fromTop: true, width: 6 },
+				{ id: "n2", otherLineId: "b", dist: 27, fromTop: true, width: 6 },
+			],
+		});
+
+		const [issue] = validateDesign([strip], params);
+		expect(issue.kind).toBe("notch-spacing");
+		expect(issue.measuredMM).toBeCloseTo(1, 5);
+	});
+
+	it("warns about notches close to a butt-trimmed end", () => {
+		const strip = makeStrip({
+			lengthMM: 50,
+			hasEndButt: true,
+			notches: [
+				{ id: "n1", otherLineId: "a", dist: 2, fromTop: true },
+				{ id: "n2", otherLineId: "b", dist: 47, fromTop: true },
+			],
+		});
+
+		const issues = validateDesign([strip], params);
+
+		// Only the butted end is checked
+		expect(issues).toHaveLength(1);
+		expect(issues[0]).toMatchObject({
+			kind: "notch-near-butt-end",
+			severity: "warning",
+			notchIds: ["n2"],
+		});
+		expect(issues[0].measuredMM).toBeCloseTo(1.5, 5);
+	});
+
+	it("does not warn about the tongue of a tenoned or half-lapped end", () => {
+		const strip = makeStrip({
+			lengthMM: 50,
+			hasStartButt: true,
+			startJoint: "half-lap",
+			notches: [{ id: "tongue", otherLineId: "a", dist: 2, fromTop: true }],
+		});
+
+		expect(validateDesign([strip], params)).toEqual([]);
+	});
+
+	it("flags strips longer than the stock and lists errors first", () => {
+		const long = makeStrip({ id: "long", lengthMM: 700 });
+		const fragile = makeStrip({
+			id: "fragile",
+			lengthMM: 50,
+			hasStartButt: true,
+			notches: [{ id: "n1", otherLineId: "a", dist: 3, fromTop: true }],
+		});
+
+		const issues = validateDesign([fragile, long], params);
+
+		expect(issues.map((i) => i.kind)).toEqual([
+			"strip-exceeds-stock",
+			"notch-near-butt-end",
+		]);
+		expect(issues[0].measuredMM).toBe(700);
+		expect(issues[0].limitMM).toBe(600);
+	});
+
+	it("uses butt joints detected from the design", () => {
+		const lines = new Map<string, Line>();
+		lines.set("h", makeLine("h", 0, 0, 20, 0));
+		// Vertical butts against the horizontal and is crossed just past the trim
+		lines.set("v", makeLine("v", 10, 0, 10, 10));
+		lines.set("c", makeLine("c", 5, 1, 15, 1));
+
+		const strips = computeDesignStrips(
+			lines,
+			computeIntersections(lines, new Map()),
+			5,
+			3,
+		);
+		const issues = validateDesign(strips, params);
+
+		const vertical = strips.find((s) => s.sourceLineId === "v");
+		expect(vertical?.hasStartButt).toBe(true);
+		expect(issues).toEqual([
+			expect.objectContaining({
+				kind: "notch-near-butt-end",
+				sourceLineId: "v",
+			}),
+		]);
+	});
+});
@@ -0,0 +1,177 @@
+import type { DesignStrip, Notch, StripEndJoint } from "./types";
+
+/** Tolerance in mm for spacing comparisons (floating point noise) */
+const SPACING_EPSILON_MM = 1e-3;
+
+/**
+ * How serious a validation issue is:
+ * - "error": the strip cannot be cut as designed; export is blocked
+ * - "warning": the strip can be cut but is likely to be fragile
+ */
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * Kinds of problems the validator detects:
+ * - "notch-spacing": two notches on the same face leave less than one bit
+ *   width of material between them
+ * - "notch-near-butt-end": a notch leaves less than one bit width of
+ *   material before a butt-trimmed end
+ * - "strip-exceeds-stock": the strip is longer than the stock boards
+ */
+export type ValidationIssueKind =
+	| "notch-spacing"
+	| "notch-near-butt-end"
+	| "strip-exceeds-stock";
+
+export interface ValidationIssue {
+	/** Stable id for React keys (kind + line + notches) */
+	id: string;
+	kind: ValidationIssueKind;
+	severity: ValidationSeverity;
+	/** Geometry-derived strip id (DesignStrip.id) */
+	stripId: string;
+	/** Grid line the strip was derived from, used for highlighting */
+	sourceLineId: string;
+	/** Short strip code shown to the user */
+	displayCode: string;
+	/** Notches involved in the issue, if any */
+	notchIds: string[];
+	/** Measured value in mm (material left, or strip length) */
+	measuredMM: number;
+	/** Limit in mm the measured value violates (bit size, or stock length) */
+	limitMM: number;
+}
+
+export interface ValidationParams {
+	bitSize: number;
+	stockLength: number;
+}
+
+/** Left and right edges of a notch along the strip, in mm */
+function notchEdges(notch: Notch, bitSize: number): [number, number] {
+	const halfWidth = (notch.width ?? bitSize) / 2;
+	return [notch.dist - halfWidth, notch.dist + halfWidth];
+}
+
+function makeIssue(
+	strip: DesignStrip,
+	kind: ValidationIssueKind,
+	severity: ValidationSeverity,
+	notchIds: string[],
+	measuredMM: number,
+	limitMM: number,
+): ValidationIssue {
+	return {
+		id: [kind, strip.sourceLineId, ...notchIds].join(":"),
+		kind,
+		severity,
+		stripId: strip.id,
+		sourceLineId: strip.sourceLineId,
+		displayCode: strip.displayCode,
+		notchIds,
+		measuredMM,
+		limitMM,
+	};
+}
+
+/**
+ * Check a single strip for problems that make it hard or impossible to cut.
+ */
+function validateStrip(
+	strip: DesignStrip,
+	{ bitSize, stockLength }: ValidationParams,
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+
+	if (strip.lengthMM > stockLength + SPACING_EPSILON_MM) {
+		issues.push(
+			makeIssue(
+				strip,
+				"strip-exceeds-stock",
+				"error",
+				[],
+				strip.lengthMM,
+				stockLength,
+			),
+		);
+	}
+
+	// Adjacent notches on the same face need at least one bit width of
+	// material between them. Notches on opposite faces (multi-way joints)
+	// may share a position.
+	for (const fromTop of [true, false]) {
+		const faceNotches = strip.notches
+			.filter((n) => n.fromTop === fromTop)
+			.sort((a, b) => a.dist - b.dist);
+
+		for (let i = 1; i < faceNotches.length; i++) {
+			const previous = faceNotches[i - 1];
+			const current = faceNotches[i];
+			const gap =
+				notchEdges(current, bitSize)[0] - notchEdges(previous, bitSize)[1];
+			if (gap < bitSize - SPACING_EPSILON_MM) {
+				issues.push(
+					makeIssue(
+						strip,
+						"notch-spacing",
+						"error",
+						[previous.id, current.id],
+						Math.max(0, gap),
+						bitSize,
+					),
+				);
+			}
+		}
+	}
+
+	// Notches close to a butt-trimmed end leave a short, fragile tip. Tenons
+	// and laps end in a tongue notch by design.
+	const isTrimmed = (butted?: boolean, joint?: StripEndJoint) =>
+		!!butted && (joint === undefined || joint === "butt");
+	for (const notch of strip.notches) {
+		const [left, right] = notchEdges(notch, bitSize);
+		const ends = [
+			{
+				side: "start",
+				butted: isTrimmed(strip.hasStartButt, strip.startJoint),
+				material: left,
+			},
+			{
+				side: "end",
+				butted: isTrimmed(strip.hasEndButt, strip.endJoint),
+				material: strip.lengthMM - right,
+			},
+		];
+		for (const { side, butted, material } of ends) {
+			if (butted && material < bitSize - SPACING_EPSILON_MM) {
+				const issue = makeIssue(
+					strip,
+					"notch-near-butt-end",
+					"warning",
+					[notch.id],
+					Math.max(0, material),
+					bitSize,
+				);
+				issues.push({ ...issue, id: `${issue.id}:${side}` });
+			}
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Validate design strips against the cutting parameters.
+ *
+ * Returns every issue found, errors first. The validator is pure, so it can
+ * run on every design change.
+ */
+export function validateDesign(
+	strips: DesignStrip[],
+	params: ValidationParams,
+): ValidationIssue[] {
+	const issues = strips.flatMap((strip) => validateStrip(strip, params));
+	return issues.sort((a, b) =>
+		a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1,
+	);
+}
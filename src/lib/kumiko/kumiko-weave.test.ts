@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { planAssembly } from "./kumiko-assembly";
+import {
+	computeDesignStrips,
+	computeIntersections,
+	setIntersectionOrientation,
+} from "./kumiko-design-logic";
+import { solveWeave } from "./kumiko-weave";
+import { makeLine } from "./test-fixtures";
+import type { Intersection, Line } from "./types";
+
+/** Square lattice of full-length lines: 4 horizontal and 4 vertical */
+function makeSquareGrid(): Map<string, Line> {
+	const lines = new Map<string, Line>();
+	for (let k = 1; k <= 4; k++) {
+		lines.set(`h${k}`, makeLine(`h${k}`, 0, k, 5, k));
+		lines.set(`v${k}`, makeLine(`v${k}`, k, 0, k, 5));
+	}
+	return lines;
+}
+
+/** Whether `lineId` is on top at each of its crossings, in order along it */
+function overSequence(
+	intersections: Map<string, Intersection>,
+	line: Line,
+): boolean[] {
+	return Array.from(intersections.values())
+		.filter((i) => i.line1Id === line.id || i.line2Id === line.id)
+		.sort(
+			(p, q) =>
+				Math.hypot(p.x - line.x1, p.y - line.y1) -
+				Math.hypot(q.x - line.x1, q.y - line.y1),
+		)
+		.map((i) => (i.line1Id === line.id ? i.line1Over : !i.line1Over));
+}
+
+describe("solveWeave()", () => {
+	it("single-sided leaves every strip with notches on one face", () => {
+		const lines = makeSquareGrid();
+		// Start from a checkerboard so every strip has notches on both faces
+		const initial = computeIntersections(
+			lines,
+			solveWeave(
+				lines,
+				computeIntersections(lines, new Map()),
+				new Map(),
+				"alternating",
+			),
+		);
+
+		const states = solveWeave(lines, initial, new Map(), "single-sided");
+		const intersections = computeIntersections(lines, states);
+		const strips = computeDesignStrips(lines, intersections, 10, 3);
+
+		for (const strip of strips) {
+			expect(strip.notches.every((n) => n.fromTop)).toBe(true);
+		}
+	});
+
+	it("alternating puts each strip over, under, over along its length", () => {
+		const lines = makeSquareGrid();
+		const states = solveWeave(
+			lines,
+			computeIntersections(lines, new Map()),
+			new Map(),
+			"alternating",
+		);
+		const intersections = computeIntersections(lines, states);
+
+		for (const line of lines.values()) {
+			const sequence = overSequence(intersections, line);
+			expect(sequence).toHaveLength(4);
+			for (let k = 1; k < sequence.length; k++) {
+				expect(sequence[k]).toBe(!sequence[k - 1]);
+			}
+		}
+	});
+
+	it("assembly-feasible breaks loops by flipping as few crossings as possible", () => {
+		const lines = new Map<string, Line>();
+		lines.set("a", makeLine("a", 0, 1, 10, 1));
+		lines.set("b", makeLine("b", 1, 0, 1, 10));
+		lines.set("c", makeLine("c", 0, 6, 6, 0));
+
+		// a over b, b over c, c over a
+		let states = new Map<string, boolean>();
+		for (const [id, line1Over] of [
+			["int_a_b", true],
+			["int_a_c", false],
+			["int_b_c", true],
+		] as const) {
+			const int = computeIntersections(lines, states).get(id);
+			if (!int) throw new Error(`missing ${id}`);
+			states = setIntersectionOrientation(states, lines, int, line1Over);
+		}
+		const before = computeIntersections(lines, states);
+		const strips = computeDesignStrips(lines, before, 10, 3);
+		expect(planAssembly(before, strips).feasible).toBe(false);
+
+		const after = computeIntersections(
+			lines,
+			solveWeave(lines, before, states, "assembly-feasible"),
+		);
+
+		expect(
+			planAssembly(after, computeDesignStrips(lines, after, 10, 3)).feasible,
+		).toBe(true);
+		const flipped = Array.from(after.values()).filter(
+			(i) => i.line1Over !== before.get(i.id)?.line1Over,
+		);
+		expect(flipped).toHaveLength(1);
+	});
+
+	it("assembly-feasible keeps a design that can already be assembled", () => {
+		const lines = makeSquareGrid();
+		const before = computeIntersections(lines, new Map());
+
+		const after = computeIntersections(
+			lines,
+			solveWeave(lines, before, new Map(), "assembly-feasible"),
+		);
+
+		for (const [id, intersection] of after) {
+			expect(intersection.line1Over).toBe(before.get(id)?.line1Over);
+		}
+	});
+});
@@ -0,0 +1,219 @@
+import {
+	applyIntersectionStack,
+	lineDirection,
+	setIntersectionOrientation,
+} from "./kumiko-design-logic";
+import type { Intersection, Line } from "./types";
+
+/**
+ * Strategies for assigning over/under at every crossing:
+ * - "single-sided": split the strips into a top and a bottom layer so each
+ *   strip only has notches on one face. Such strips are flipped to cut from
+ *   the top, so groups need no bottom pass.
+ * - "alternating": each strip alternates over, under, over... along its
+ *   length, like a woven basket.
+ * - "assembly-feasible": keep as many of the current choices as possible
+ *   while guaranteeing that the strips can be inserted one after another.
+ */
+export type WeaveStrategy =
+	| "single-sided"
+	| "alternating"
+	| "assembly-feasible";
+
+/** Whether line `a` should sit on top of line `b` at the given crossing */
+type OverRule = (a: Line, b: Line, intersection: Intersection) => boolean;
+
+/** Lines crossing at an intersection, top to bottom */
+function crossingOrder(intersection: Intersection): string[] {
+	if (intersection.stack) return intersection.stack;
+	return intersection.line1Over
+		? [intersection.line1Id, intersection.line2Id]
+		: [intersection.line2Id, intersection.line1Id];
+}
+
+/** Every pair of lines that cross each other, as [over, under] */
+function crossingPairs(
+	intersections: Map<string, Intersection>,
+): Array<[string, string]> {
+	const pairs: Array<[string, string]> = [];
+	for (const intersection of intersections.values()) {
+		const order = crossingOrder(intersection);
+		for (let i = 0; i < order.length; i++) {
+			for (let j = i + 1; j < order.length; j++) {
+				pairs.push([order[i], order[j]]);
+			}
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Two-colour the crossing graph: lines in layer 0 sit over lines in layer 1.
+ * Crossings between lines of the same layer (odd loops, e.g. triangles on a
+ * 60° grid) cannot be single-sided and fall back to drawing order.
+ */
+function singleSidedRule(
+	lines: Map<string, Line>,
+	intersections: Map<string, Intersection>,
+): OverRule {
+	const neighbours = new Map<string, string[]>();
+	for (const [a, b] of crossingPairs(intersections)) {
+		neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+		neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+	}
+
+	const layer = new Map<string, number>();
+	for (const id of lines.keys()) {
+		if (layer.has(id)) continue;
+		layer.set(id, 0);
+		const queue = [id];
+		while (queue.length > 0) {
+			const current = queue.shift() as string;
+			for (const next of neighbours.get(current) ?? []) {
+				if (layer.has(next)) continue;
+				layer.set(next, 1 - (layer.get(current) ?? 0));
+				queue.push(next);
+			}
+		}
+	}
+
+	const order = new Map(Array.from(lines.keys()).map((id, i) => [id, i]));
+	return (a, b) => {
+		const layerA = layer.get(a.id) ?? 0;
+		const layerB = layer.get(b.id) ?? 0;
+		if (layerA !== layerB) return layerA < layerB;
+		return (order.get(a.id) ?? 0) < (order.get(b.id) ?? 0);
+	};
+}
+
+/**
+ * Number the crossings along each line and put a line on top where the sum
+ * of both crossing numbers is even. Pairs are looked at in a fixed order
+ * (by direction, horizontal first), so on a regular grid every strip
+ * alternates along its length.
+ */
+function alternatingRule(
+	lines: Map<string, Line>,
+	intersections: Map<string, Intersection>,
+): OverRule {
+	const crossingIndex = new Map<string, Map<string, number>>();
+	for (const line of lines.values()) {
+		const along = (i: Intersection) => Math.hypot(i.x - line.x1, i.y - line.y1);
+		const crossings = Array.from(intersections.values())
+			.filter((i) => crossingOrder(i).includes(line.id))
+			.sort((p, q) => along(p) - along(q));
+		crossingIndex.set(
+			line.id,
+			new Map(crossings.map((intersection, k) => [intersection.id, k])),
+		);
+	}
+
+	const angle = (line: Line) => {
+		const direction = lineDirection(line);
+		return Math.atan2(direction.y, direction.x);
+	};
+
+	return (a, b, intersection) => {
+		const aFirst = angle(a) <= angle(b);
+		const parity =
+			((crossingIndex.get(a.id)?.get(intersection.id) ?? 0) +
+				(crossingIndex.get(b.id)?.get(intersection.id) ?? 0)) %
+			2;
+		return aFirst === (parity === 0);
+	};
+}
+
+/**
+ * Order the lines bottom to top so that every current choice is kept unless
+ * it is part of a loop. When every remaining line still sits on another
+ * remaining line, the one sitting on the fewest is placed next, flipping
+ * only those crossings.
+ */
+function assemblyFeasibleRule(
+	lines: Map<string, Line>,
+	intersections: Map<string, Intersection>,
+): OverRule {
+	const below = new Map<string, Set<string>>(
+		Array.from(lines.keys()).map((id) => [id, new Set()]),
+	);
+	for (const [over, under] of crossingPairs(intersections)) {
+		below.get(over)?.add(under);
+	}
+
+	const position = new Map<string, number>();
+	const remaining = new Set(lines.keys());
+	const unplacedBelow = (id: string) =>
+		Array.from(below.get(id) ?? []).filter((u) => remaining.has(u)).length;
+
+	while (remaining.size > 0) {
+		let next: string | undefined;
+		let fewest = Number.POSITIVE_INFINITY;
+		for (const id of remaining) {
+			const count = unplacedBelow(id);
+			if (count < fewest) {
+				next = id;
+				fewest = count;
+			}
+			if (count === 0) break;
+		}
+		if (next === undefined) break;
+		position.set(next, position.size);
+		remaining.delete(next);
+	}
+
+	return (a, b) => (position.get(a.id) ?? 0) > (position.get(b.id) ?? 0);
+}
+
+/**
+ * Compute new intersection states that apply a weave strategy to every
+ * crossing of the design. States for points that are not crossed at the
+ * moment are kept, so they still apply if those lines are redrawn.
+ */
+export function solveWeave(
+	lines: Map<string, Line>,
+	intersections: Map<string, Intersection>,
+	intersectionStates: Map<string, boolean>,
+	strategy: WeaveStrategy,
+): Map<string, boolean> {
+	const isOver =
+		strategy === "single-sided"
+			? singleSidedRule(lines, intersections)
+			: strategy === "alternating"
+				? alternatingRule(lines, intersections)
+				: assemblyFeasibleRule(lines, intersections);
+
+	let next = intersectionStates;
+	for (const intersection of intersections.values()) {
+		if (intersection.stack) {
+			// Rank multi-way stacks by how many of the other lines each sits on
+			const stackLines = intersection.stack
+				.map((id) => lines.get(id))
+				.filter((line): line is Line => line !== undefined);
+			const wins = new Map(
+				stackLines.map((line) => [
+					line.id,
+					stackLines.filter(
+						(other) => other !== line && isOver(line, other, intersection),
+					).length,
+				]),
+			);
+			const stack = stackLines
+				.map((line) => line.id)
+				.sort((p, q) => (wins.get(q) ?? 0) - (wins.get(p) ?? 0));
+			next = applyIntersectionStack(next, lines, intersection, stack);
+			continue;
+		}
+
+		const line1 = lines.get(intersection.line1Id);
+		const line2 = lines.get(intersection.line2Id);
+		if (!line1 || !line2) continue;
+		next = setIntersectionOrientation(
+			next,
+			lines,
+			intersection,
+			isOver(line1, line2, intersection),
+		);
+	}
+
+	return next;
+}
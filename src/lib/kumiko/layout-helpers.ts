@@ -3,43 +3,96 @@
  * These are pure functions that can be used by both components and tests.
  */
 
-import type { DesignStrip, Piece } from "./types";
+import { GRID_CELL_HEIGHT } from "./config";
+import type { Cut, DesignStrip, Notch, Piece, Point } from "./types";
 
 /**
  * Generate a unique key for a strip based on its configuration.
  * Accounts for horizontal and vertical flips - strips are the same if:
  * 1. Same length
- * 2. Same notch positions (measured from edge)
+ * 2. Same notch positions (measured from edge), widths and depths
  * 3. Same notch orientations (after accounting for possible flips)
+ * 4. Same end bevels (a flip in either direction negates them)
+ * 5. Both or neither are frame members
  */
 export function getStripConfigKey(strip: DesignStrip): string {
 	const length = strip.lengthMM;
 
+	// A notch at the given position and side; its width and depth go with it
+	const notchToken = (n: Notch, dist: number, fromTop: boolean) => {
+		const width = n.width !== undefined ? `-${n.width.toFixed(2)}` : "";
+		const depth = n.depth !== undefined ? `@${n.depth.toFixed(2)}` : "";
+		return `${dist.toFixed(2)}-${fromTop ? "T" : "B"}${width}${depth}`;
+	};
+
 	// Generate all 4 possible orientations of the strip
 	const orientations = [
 		// Original
-		strip.notches.map((n) => `${n.dist.toFixed(2)}-${n.fromTop ? "T" : "B"}`),
+		strip.notches.map((n) => notchToken(n, n.dist, n.fromTop)),
 		// Horizontal flip: distances measured from other end
-		strip.notches.map(
-			(n) => `${(length - n.dist).toFixed(2)}-${n.fromTop ? "T" : "B"}`,
-		),
+		strip.notches.map((n) => notchToken(n, length - n.dist, n.fromTop)),
 		// Vertical flip: top becomes bottom
-		strip.notches.map((n) => `${n.dist.toFixed(2)}-${n.fromTop ? "B" : "T"}`),
+		strip.notches.map((n) => notchToken(n, n.dist, !n.fromTop)),
 		// Both flips
-		strip.notches.map(
-			(n) => `${(length - n.dist).toFixed(2)}-${n.fromTop ? "B" : "T"}`,
-		),
+		strip.notches.map((n) => notchToken(n, length - n.dist, !n.fromTop)),
 	];
 
+	// End bevels of each orientation, left out for square-ended strips
+	const start = strip.startCutAngle ?? 0;
+	const end = strip.endCutAngle ?? 0;
+	const ends =
+		start === 0 && end === 0
+			? ["", "", "", ""]
+			: [
+					[start, end],
+					[-end, -start],
+					[-start, -end],
+					[end, start],
+				].map(([a, b]) => `<${a.toFixed(2)}:${b.toFixed(2)}>`);
+
 	// Sort notches within each orientation and join
-	const orientationKeys = orientations.map((notches) =>
-		notches.sort().join("|"),
+	const orientationKeys = orientations.map(
+		(notches, i) => notches.sort().join("|") + ends[i],
 	);
 
 	// Use the lexicographically smallest representation as canonical form
 	const canonicalNotchesKey = orientationKeys.sort()[0];
 
-	return `${length.toFixed(2)}_${canonicalNotchesKey}`;
+	const key = `${length.toFixed(2)}_${canonicalNotchesKey}`;
+	return strip.frameMember ? `frame_${key}` : key;
+}
+
+/**
+ * A strip as a piece lays it out. Reversing mirrors the notches along the
+ * length and swaps the ends; flipping turns the strip over so top notches
+ * become bottom ones. Each of them changes the sign of the end bevels.
+ */
+export function orientStrip(
+	strip: DesignStrip,
+	piece: Pick<Piece, "reversed" | "flipped">,
+): DesignStrip {
+	const reversed = !!piece.reversed;
+	const flipped = !!piece.flipped;
+	if (!reversed && !flipped) return strip;
+
+	const sign = reversed !== flipped ? -1 : 1;
+	const bevel = (angle?: number) => (angle ? sign * angle : undefined);
+	const [start, end] = reversed
+		? [strip.endCutAngle, strip.startCutAngle]
+		: [strip.startCutAngle, strip.endCutAngle];
+
+	return {
+		...strip,
+		notches: strip.notches
+			.map((notch) => ({
+				...notch,
+				dist: reversed ? strip.lengthMM - notch.dist : notch.dist,
+				fromTop: flipped ? !notch.fromTop : notch.fromTop,
+			}))
+			.sort((a, b) => a.dist - b.dist),
+		startCutAngle: bevel(start),
+		endCutAngle: bevel(end),
+	};
 }
 
 /**
@@ -85,6 +138,49 @@ export function computeKerfedLayoutRows(
 	return adjustedRows;
 }
 
+/**
+ * Move a piece into a row, after `index` of the row's other pieces, and
+ * store the kerf-packed positions of all pieces so the new order sticks.
+ * The piece may come from another row or another group. Pieces whose
+ * strip no longer exists are kept as they are.
+ */
+export function movePieceInRows(
+	pieces: Piece[],
+	moved: Piece,
+	rowIndex: number,
+	index: number,
+	designStrips: DesignStrip[],
+	bitSize: number,
+): Piece[] {
+	const others = pieces.filter((piece) => piece.id !== moved.id);
+	const rows = computeKerfedLayoutRows(others, designStrips, bitSize);
+
+	const target = [...(rows.get(rowIndex) ?? [])];
+	target.splice(Math.max(0, Math.min(index, target.length)), 0, moved);
+	rows.set(rowIndex, target);
+
+	// Order within each row is carried by x, so number the pieces and let
+	// the kerf packing turn that into positions
+	const ordered = Array.from(rows.entries()).flatMap(([row, rowPieces]) =>
+		rowPieces.map((piece, i) => ({ ...piece, rowIndex: row, x: i })),
+	);
+	const packed = Array.from(
+		computeKerfedLayoutRows(ordered, designStrips, bitSize).values(),
+	)
+		.flat()
+		.map((piece) => ({ ...piece, y: piece.rowIndex * GRID_CELL_HEIGHT }));
+
+	const packedIds = new Set(packed.map((piece) => piece.id));
+	return [
+		...packed,
+		...others.filter(
+			(piece) =>
+				!packedIds.has(piece.id) &&
+				!designStrips.some((s) => s.id === piece.lineId),
+		),
+	];
+}
+
 /**
  * Compute the total length of each row based on pieces and strips.
  */
@@ -122,3 +218,36 @@ export function validateStripPlacement(
 	const allowedOverhang = stripWidth / 2;
 	return stripEnd <= stockLength + allowedOverhang;
 }
+
+/** How close to a row boundary (in layout units) a full cut becomes a rip */
+const RIP_SNAP_DISTANCE = 3;
+
+/**
+ * Full-depth cut for a click on the layout. Near the boundary between two
+ * rows, or an outer edge of the stock, the board is ripped along it for
+ * its whole length. Elsewhere the clicked row is cut across at the
+ * pointer, or every row when `acrossAllRows` is set, which trims the stock
+ * ends or cuts a row off. Returns null outside the stock.
+ */
+export function fullCutAt(
+	point: Point,
+	stockLength: number,
+	rowCount: number,
+	acrossAllRows = false,
+): Omit<Cut, "id"> | null {
+	const height = rowCount * GRID_CELL_HEIGHT;
+	if (point.x < 0 || point.x > stockLength || point.y < 0 || point.y > height) {
+		return null;
+	}
+
+	const boundaryY = Math.round(point.y / GRID_CELL_HEIGHT) * GRID_CELL_HEIGHT;
+	if (Math.abs(point.y - boundaryY) <= RIP_SNAP_DISTANCE) {
+		return { x1: 0, y1: boundaryY, x2: stockLength, y2: boundaryY };
+	}
+
+	// Cross cuts snap to a tenth of a millimetre
+	const x = Math.round(point.x * 10) / 10;
+	if (acrossAllRows) return { x1: x, y1: 0, x2: x, y2: height };
+	const rowY = Math.floor(point.y / GRID_CELL_HEIGHT) * GRID_CELL_HEIGHT;
+	return { x1: x, y1: rowY, x2: x, y2: rowY + GRID_CELL_HEIGHT };
+}
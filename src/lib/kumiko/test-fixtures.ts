@@ -20,6 +20,13 @@ export const makeStrip = (overrides?: Partial<DesignStrip>): DesignStrip => ({
 	sourceLineId: overrides?.sourceLineId ?? overrides?.id ?? "strip",
 	// Short, user-friendly display code; tests can override if needed.
 	displayCode: overrides?.displayCode ?? "CODE",
+	// Butt joint flags are only set when a test needs them.
+	hasStartButt: overrides?.hasStartButt,
+	hasEndButt: overrides?.hasEndButt,
+	startJoint: overrides?.startJoint,
+	endJoint: overrides?.endJoint,
+	startCutAngle: overrides?.startCutAngle,
+	endCutAngle: overrides?.endCutAngle,
 });
 
 /**
@@ -32,6 +39,8 @@ export const makePiece = (overrides?: Partial<Piece>): Piece => ({
 	x: overrides?.x ?? 0,
 	y: overrides?.y ?? 0,
 	rowIndex: overrides?.rowIndex ?? 0,
+	...(overrides?.reversed !== undefined && { reversed: overrides.reversed }),
+	...(overrides?.flipped !== undefined && { flipped: overrides.flipped }),
 });
 
 /**
@@ -7,6 +7,13 @@ export interface Point {
 	y: number;
 }
 
+/**
+ * Lattice used by the design grid.
+ * - "square": integer grid with 90° cells
+ * - "triangular": 60° lattice for asanoha, kikkō and other hexagonal patterns
+ */
+export type GridType = "square" | "triangular";
+
 export interface Line {
 	id: string;
 	x1: number;
@@ -46,6 +53,12 @@ export interface Intersection {
 	line1Id: string;
 	line2Id: string;
 	line1Over: boolean;
+	/**
+	 * Stacking order (top to bottom) of every line crossing at this point.
+	 * Only present for multi-way (mitsukude) joints where three or more
+	 * lines meet; line1Id/line2Id then name the first two of them.
+	 */
+	stack?: string[];
 }
 
 export interface Notch {
@@ -53,6 +66,20 @@ export interface Notch {
 	otherLineId: string;
 	dist: number;
 	fromTop: boolean;
+	/**
+	 * Width of the notch opening in mm, measured along the strip. For a
+	 * crossing at angle θ this is strip thickness / sin(θ). When absent the
+	 * notch is treated as exactly one bit wide.
+	 */
+	width?: number;
+	/** Crossing angle with the other strip in degrees (90 = perpendicular). */
+	angle?: number;
+	/**
+	 * Depth of the notch in mm. Only set for notches at multi-way joints,
+	 * which are cut in thirds (or finer) of the full depth; when absent the
+	 * notch is cut to the half-cut depth.
+	 */
+	depth?: number;
 }
 
 /**
@@ -80,6 +107,56 @@ export interface DesignStrip extends Line {
 	 * It is stable for identical geometry and independent of sourceLineId.
 	 */
 	displayCode: string;
+	/** Whether the start of the strip butts against another strip (T-joint) */
+	hasStartButt?: boolean;
+	/** Whether the end of the strip butts against another strip (T-joint) */
+	hasEndButt?: boolean;
+	/** Set when the strip is a member of the design's frame */
+	frameMember?: FrameMemberRole;
+	/** How the start of the strip is joined; omitted for a plain square end */
+	startJoint?: StripEndJoint;
+	/** How the end of the strip is joined; omitted for a plain square end */
+	endJoint?: StripEndJoint;
+	/**
+	 * Bevel of the start cut in degrees from square, where the strip meets
+	 * another at an angle. Positive when the long point is on the strip's
+	 * right-hand face, looking from its start to its end on the grid.
+	 * Omitted for a square end.
+	 */
+	startCutAngle?: number;
+	/** Bevel of the end cut, as for startCutAngle */
+	endCutAngle?: number;
+}
+
+/**
+ * Joint at the end of a strip:
+ * - butt: trimmed back to sit against the face of another strip
+ * - mitre: frame corner cut at 45°
+ * - tenon: extends into a mortise in the member it meets
+ * - housing: extends into a shallow groove in the member it meets
+ * - half-lap: runs through the strip it meets, both halved to fit
+ */
+export type StripEndJoint = "butt" | "mitre" | "tenon" | "housing" | "half-lap";
+
+/**
+ * How a strip end meeting the middle of another strip (a T-joint) is made:
+ * - butt: trimmed to sit against the other strip
+ * - tenon: a stub tenon to the other strip's centre, in a mortise notch
+ * - half-lap: runs through the other strip, both notched to half depth
+ */
+export type TJointType = "butt" | "tenon" | "half-lap";
+
+/** A strip end meeting the interior of another line */
+export interface TJoint {
+	/** Grid point where the lines meet */
+	x: number;
+	y: number;
+	/** Line whose end meets the other line */
+	lineId: string;
+	end: "start" | "end";
+	/** Line receiving the end */
+	otherLineId: string;
+	type: TJointType;
 }
 
 export interface Piece {
@@ -92,6 +169,16 @@ export interface Piece {
 	 * Row 0 is the top row.
 	 */
 	rowIndex: number;
+	/**
+	 * Laid out from the strip's end rather than its start, mirroring its
+	 * notches along the length. Older payloads omit this.
+	 */
+	reversed?: boolean;
+	/**
+	 * Turned over so its top notches are cut from the bottom and the other
+	 * way round. Older payloads omit this.
+	 */
+	flipped?: boolean;
 }
 
 export interface Cut {
@@ -108,3 +195,67 @@ export interface Group {
 	pieces: Map<string, Piece>;
 	fullCuts: Map<string, Cut>;
 }
+
+/**
+ * A small reusable pattern that can be stamped into grid cells. Line
+ * coordinates are in grid units relative to the corner of one cell, which
+ * is `width` × `height` grid units in size.
+ */
+export interface Motif {
+	id: string;
+	name: string;
+	width: number;
+	height: number;
+	lines: { x1: number; y1: number; x2: number; y2: number }[];
+	/** Built-in motifs ship with the app and cannot be deleted */
+	builtIn?: boolean;
+}
+
+/**
+ * Image shown beneath the grid for tracing patterns from photos or books.
+ * Position and size are in grid cells so the image can be calibrated to
+ * the lattice; it moves and zooms together with the design.
+ */
+export interface ReferenceImage {
+	/** Image data as a data URL, so it can be saved with the design */
+	dataUrl: string;
+	/** Width of the image in grid cells */
+	width: number;
+	/** Height divided by width of the source image */
+	aspectRatio: number;
+	/** Position of the image centre in grid cells */
+	centerX: number;
+	centerY: number;
+	/** Clockwise rotation about the centre in degrees */
+	rotation: number;
+	/** Opacity from 0 (hidden) to 1 */
+	opacity: number;
+	visible: boolean;
+}
+
+/** Horizontal frame members are rails, vertical ones stiles */
+export type FrameMemberRole = "rail" | "stile";
+
+/**
+ * Outer frame (kamachi) of a panel. The rectangle is given in grid units
+ * and runs along the centrelines of the frame members; lines of the design
+ * on its sides become frame members instead of lattice strips.
+ */
+export interface FrameSettings {
+	x1: number;
+	y1: number;
+	x2: number;
+	y2: number;
+	/** Face width of the frame members in mm */
+	width: number;
+	/** Thickness of the frame stock in mm */
+	thickness: number;
+	/** How the rails and stiles meet at the corners */
+	corner: "mitre" | "tenon";
+	/** Length of the rail tenons at tenoned corners, in mm */
+	cornerTenonLength: number;
+	/** How lattice strips are let into the frame */
+	latticeJoint: "tenon" | "housing";
+	/** How far lattice strips extend into the frame members, in mm */
+	latticeAllowance: number;
+}
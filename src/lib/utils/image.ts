@@ -0,0 +1,56 @@
+/**
+ * Image Utilities
+ *
+ * Helpers for loading local image files in the browser.
+ */
+
+export interface LoadedImage {
+	dataUrl: string;
+	width: number;
+	height: number;
+}
+
+/** Longest side of a loaded image, keeping saved designs a reasonable size */
+const MAX_IMAGE_SIDE = 1600;
+
+function readFileAsDataUrl(file: File): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(file);
+	});
+}
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error("Could not decode image"));
+		image.src = src;
+	});
+}
+
+/**
+ * Read an image file as a data URL. Large images are scaled down (and
+ * re-encoded as JPEG) so they fit in browser storage with the design.
+ */
+export async function loadImageFile(file: File): Promise<LoadedImage> {
+	const original = await readFileAsDataUrl(file);
+	const image = await decodeImage(original);
+	const { naturalWidth: width, naturalHeight: height } = image;
+	const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+	if (scale === 1) return { dataUrl: original, width, height };
+
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.round(width * scale);
+	canvas.height = Math.round(height * scale);
+	const context = canvas.getContext("2d");
+	if (!context) return { dataUrl: original, width, height };
+	context.drawImage(image, 0, 0, canvas.width, canvas.height);
+	return {
+		dataUrl: canvas.toDataURL("image/jpeg", 0.85),
+		width: canvas.width,
+		height: canvas.height,
+	};
+}
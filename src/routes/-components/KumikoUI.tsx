@@ -6,23 +6,37 @@ import {
 	HelpCircle,
 	Keyboard,
 	Layout,
+	ListOrdered,
 	MoreHorizontal,
 	Mouse,
 	PanelRight,
 	PanelRightClose,
+	Printer,
 	Save,
+	Shapes,
 	Sparkles,
 	Trash2,
 	Upload,
 	X,
 } from "lucide-react";
 import type React from "react";
-import { useId, useRef, useState } from "react";
+import { useId, useMemo, useRef, useState } from "react";
 import { type AppStep, useKumiko } from "../../context/KumikoContext";
 import {
+	type AssemblyOrientation,
+	type AssemblyPlan,
+	defaultGeneratorValues,
+	type FrameSettings,
+	GENERATORS,
+	type GridType,
+	generatePattern,
+	type Line,
+	latticeToCartesian,
 	type NamedDesignSummary,
 	ParamInput,
+	type PatternApplyMode,
 	TEMPLATES,
+	type TJointType,
 } from "../../lib/kumiko";
 
 export interface KumikoHeaderProps {
@@ -33,6 +47,8 @@ export interface KumikoHeaderProps {
 	onSaveAs: () => void;
 	onOpenLoadDialog: () => void;
 	onOpenTemplateDialog: () => void;
+	onOpenGeneratorDialog: () => void;
+	onOpenAssemblyDialog: () => void;
 	onExportJSON: () => void;
 	onImportJSON: (event: React.ChangeEvent<HTMLInputElement>) => void;
 	onClear: () => void;
@@ -99,6 +115,8 @@ function FileMenu({
 	onSaveAs,
 	onOpenLoadDialog,
 	onOpenTemplateDialog,
+	onOpenGeneratorDialog,
+	onOpenAssemblyDialog,
 	onExportJSON,
 	onImportJSON,
 	onClear,
@@ -106,6 +124,8 @@ function FileMenu({
 	onSaveAs: () => void;
 	onOpenLoadDialog: () => void;
 	onOpenTemplateDialog: () => void;
+	onOpenGeneratorDialog: () => void;
+	onOpenAssemblyDialog: () => void;
 	onExportJSON: () => void;
 	onImportJSON: (event: React.ChangeEvent<HTMLInputElement>) => void;
 	onClear: () => void;
@@ -195,6 +215,28 @@ function FileMenu({
 							<Sparkles className="w-4 h-4 text-purple-400" />
 							Load Template...
 						</button>
+						<button
+							type="button"
+							onClick={() => {
+								onOpenGeneratorDialog();
+								setIsOpen(false);
+							}}
+							className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+						>
+							<Shapes className="w-4 h-4 text-pink-400" />
+							Generate Pattern...
+						</button>
+						<button
+							type="button"
+							onClick={() => {
+								onOpenAssemblyDialog();
+								setIsOpen(false);
+							}}
+							className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+						>
+							<ListOrdered className="w-4 h-4 text-amber-400" />
+							Assembly Order...
+						</button>
 
 						<div className="border-t border-gray-700 my-1" />
 
@@ -258,6 +300,8 @@ export function KumikoHeader({
 	onSaveAs,
 	onOpenLoadDialog,
 	onOpenTemplateDialog,
+	onOpenGeneratorDialog,
+	onOpenAssemblyDialog,
 	onExportJSON,
 	onImportJSON,
 	onClear,
@@ -309,6 +353,8 @@ export function KumikoHeader({
 						onSaveAs={onSaveAs}
 						onOpenLoadDialog={onOpenLoadDialog}
 						onOpenTemplateDialog={onOpenTemplateDialog}
+						onOpenGeneratorDialog={onOpenGeneratorDialog}
+						onOpenAssemblyDialog={onOpenAssemblyDialog}
 						onExportJSON={onExportJSON}
 						onImportJSON={onImportJSON}
 						onClear={onClear}
@@ -464,6 +510,42 @@ export function KumikoHeader({
 											Ctrl + Scroll
 										</kbd>
 									</div>
+									<div className="flex items-center justify-between text-gray-400">
+										<span>Undo / Redo</span>
+										<kbd className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 font-mono">
+											Ctrl + Z / Ctrl + Shift + Z
+										</kbd>
+									</div>
+									<div className="flex items-center justify-between text-gray-400">
+										<span>Draw / Select tool</span>
+										<kbd className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 font-mono">
+											D / S
+										</kbd>
+									</div>
+									<div className="flex items-center justify-between text-gray-400">
+										<span>Move selection</span>
+										<kbd className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 font-mono">
+											Arrow keys
+										</kbd>
+									</div>
+									<div className="flex items-center justify-between text-gray-400">
+										<span>Rotate / Mirror selection</span>
+										<kbd className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 font-mono">
+											R / Shift + H, V
+										</kbd>
+									</div>
+									<div className="flex items-center justify-between text-gray-400">
+										<span>Duplicate selection</span>
+										<kbd className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 font-mono">
+											Ctrl + D
+										</kbd>
+									</div>
+									<div className="flex items-center justify-between text-gray-400">
+										<span>Copy / Paste selection</span>
+										<kbd className="px-2 py-1 bg-gray-800 rounded text-xs text-gray-300 font-mono">
+											Ctrl + C / Ctrl + V
+										</kbd>
+									</div>
 									<div className="flex items-center justify-between text-gray-400">
 										<span>Fit to view</span>
 										<span className="text-xs text-gray-500">
@@ -772,19 +854,391 @@ export function KumikoTemplateDialog({
 	);
 }
 
+export interface KumikoGeneratorDialogProps {
+	/** Lattice of the current design; merging needs the same lattice */
+	currentGridType: GridType;
+	onClose: () => void;
+	onApply: (
+		lines: Map<string, Line>,
+		gridType: GridType,
+		mode: PatternApplyMode,
+	) => void;
+}
+
+/**
+ * Dialog for building a pattern from a parametric generator, with a live
+ * preview, then replacing the design with it or merging it in.
+ */
+export function KumikoGeneratorDialog({
+	currentGridType,
+	onClose,
+	onApply,
+}: KumikoGeneratorDialogProps) {
+	const dialogTitleId = useId();
+	const [generatorId, setGeneratorId] = useState(GENERATORS[0].id);
+	const generator =
+		GENERATORS.find((g) => g.id === generatorId) ?? GENERATORS[0];
+	const [valuesById, setValuesById] = useState<
+		Record<string, Record<string, number>>
+	>({});
+	const values = useMemo(
+		() => valuesById[generator.id] ?? defaultGeneratorValues(generator),
+		[valuesById, generator],
+	);
+
+	const lines = useMemo(
+		() => generatePattern(generator, values),
+		[generator, values],
+	);
+
+	// Preview in Cartesian space, fitted to the pattern
+	const preview = useMemo(() => {
+		const segments = Array.from(lines.values()).map((line) => ({
+			id: line.id,
+			start: latticeToCartesian(line.x1, line.y1, generator.gridType),
+			end: latticeToCartesian(line.x2, line.y2, generator.gridType),
+		}));
+		const xs = segments.flatMap((s) => [s.start.x, s.end.x]);
+		const ys = segments.flatMap((s) => [s.start.y, s.end.y]);
+		const minX = Math.min(...xs);
+		const minY = Math.min(...ys);
+		const width = Math.max(...xs) - minX;
+		const height = Math.max(...ys) - minY;
+		const pad = Math.max(width, height) * 0.05 + 0.5;
+		return {
+			segments,
+			viewBox: `${minX - pad} ${minY - pad} ${width + pad * 2} ${height + pad * 2}`,
+			strokeWidth: Math.max(width, height, 1) / 150,
+		};
+	}, [lines, generator.gridType]);
+
+	const canMerge = generator.gridType === currentGridType;
+
+	return (
+		<div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
+			<div
+				className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-[40rem] max-w-[90vw] overflow-hidden"
+				role="dialog"
+				aria-labelledby={dialogTitleId}
+			>
+				{/* Header */}
+				<div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+					<div className="flex items-center gap-2">
+						<Shapes className="w-5 h-5 text-pink-400" />
+						<h2
+							id={dialogTitleId}
+							className="text-base font-semibold text-gray-100"
+						>
+							Generate Pattern
+						</h2>
+					</div>
+					<button
+						type="button"
+						onClick={onClose}
+						className="p-1.5 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-gray-800 transition-colors"
+						aria-label="Close dialog"
+					>
+						<X className="w-4 h-4" />
+					</button>
+				</div>
+
+				{/* Content */}
+				<div className="p-5 flex gap-5">
+					<div className="w-56 flex-shrink-0 space-y-4">
+						<ul className="space-y-1">
+							{GENERATORS.map((g) => (
+								<li key={g.id}>
+									<button
+										type="button"
+										onClick={() => setGeneratorId(g.id)}
+										className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+											g.id === generator.id
+												? "bg-pink-600/20 text-gray-100"
+												: "text-gray-300 hover:bg-gray-800"
+										}`}
+									>
+										<span className="block text-sm font-medium">{g.name}</span>
+										<span className="block text-xs text-gray-500">
+											{g.description}
+										</span>
+									</button>
+								</li>
+							))}
+						</ul>
+
+						<div className="space-y-2">
+							{generator.params.map((param) => (
+								<label
+									key={param.key}
+									className="flex items-center justify-between gap-2 text-sm text-gray-300"
+								>
+									{param.label}
+									<input
+										type="number"
+										min={param.min}
+										max={param.max}
+										step={1}
+										value={values[param.key]}
+										onChange={(e) => {
+											const next = Number.parseInt(e.target.value, 10);
+											if (!Number.isFinite(next)) return;
+											setValuesById((prev) => ({
+												...prev,
+												[generator.id]: { ...values, [param.key]: next },
+											}));
+										}}
+										className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+									/>
+								</label>
+							))}
+						</div>
+					</div>
+
+					<div className="flex-1 min-w-0 space-y-2">
+						<svg
+							viewBox={preview.viewBox}
+							className="w-full aspect-square bg-gray-950 rounded-lg border border-gray-800"
+						>
+							<title>{`${generator.name} preview`}</title>
+							{preview.segments.map((segment) => (
+								<line
+									key={segment.id}
+									x1={segment.start.x}
+									y1={segment.start.y}
+									x2={segment.end.x}
+									y2={segment.end.y}
+									stroke="#60A5FA"
+									strokeWidth={preview.strokeWidth}
+									strokeLinecap="round"
+								/>
+							))}
+						</svg>
+						<p className="text-xs text-gray-500">
+							{lines.size} lines on a {generator.gridType} grid
+							{!canMerge && " · merging needs the current grid to match"}
+						</p>
+					</div>
+				</div>
+
+				{/* Footer */}
+				<div className="px-5 py-3 bg-gray-800/30 border-t border-gray-800 flex justify-end gap-2">
+					<button
+						type="button"
+						onClick={onClose}
+						className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+					>
+						Cancel
+					</button>
+					<button
+						type="button"
+						onClick={() => onApply(lines, generator.gridType, "merge")}
+						disabled={!canMerge}
+						className="px-4 py-2 text-sm font-medium text-gray-100 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+					>
+						Merge into Design
+					</button>
+					<button
+						type="button"
+						onClick={() => {
+							if (
+								window.confirm(
+									"Replace the current design and layout with this pattern?",
+								)
+							) {
+								onApply(lines, generator.gridType, "replace");
+							}
+						}}
+						className="px-4 py-2 text-sm font-medium text-white bg-pink-600 hover:bg-pink-500 rounded-lg transition-colors"
+					>
+						Replace Design
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+export interface KumikoAssemblyDialogProps {
+	plan: AssemblyPlan;
+	designName: string;
+	onClose: () => void;
+}
+
+const ORIENTATION_LABELS: Record<AssemblyOrientation, string> = {
+	"notches-up": "Notches up",
+	"notches-down": "Notches down",
+	"notches-both": "Notches on both faces",
+	"no-notches": "No notches",
+};
+
+/**
+ * Step-by-step strip insertion order. The dialog is laid out so that printing
+ * the page produces a clean assembly sheet.
+ */
+export function KumikoAssemblyDialog({
+	plan,
+	designName,
+	onClose,
+}: KumikoAssemblyDialogProps) {
+	const dialogTitleId = useId();
+
+	const codeByLineId = new Map(
+		[...plan.steps.flatMap((step) => step.placements), ...plan.blocked].map(
+			(p) => [p.sourceLineId, p.displayCode],
+		),
+	);
+	const codesFor = (lineIds: string[]) =>
+		lineIds
+			.map((id) => codeByLineId.get(id) ?? id)
+			.sort()
+			.join(", ");
+	const cycleCodes = plan.cycleLineIds.map((id) => codeByLineId.get(id) ?? id);
+
+	return (
+		<div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 print:static print:block print:bg-white print:backdrop-blur-none">
+			<div
+				className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-[32rem] max-w-[90vw] overflow-hidden print:w-full print:max-w-none print:bg-white print:border-0 print:shadow-none print:**:text-black"
+				role="dialog"
+				aria-labelledby={dialogTitleId}
+			>
+				{/* Header */}
+				<div className="flex items-center justify-between px-5 py-4 border-b border-gray-800">
+					<div className="flex items-center gap-2">
+						<ListOrdered className="w-5 h-5 text-amber-400 print:hidden" />
+						<div>
+							<h2
+								id={dialogTitleId}
+								className="text-base font-semibold text-gray-100"
+							>
+								Assembly Order
+							</h2>
+							<p className="text-xs text-gray-500">
+								{designName || "Untitled design"}
+							</p>
+						</div>
+					</div>
+					<button
+						type="button"
+						onClick={onClose}
+						className="p-1.5 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-gray-800 transition-colors print:hidden"
+						aria-label="Close dialog"
+					>
+						<X className="w-4 h-4" />
+					</button>
+				</div>
+
+				{/* Content */}
+				<div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto print:max-h-none print:overflow-visible">
+					{!plan.feasible && (
+						<div className="bg-red-900/30 border border-red-800 rounded-lg px-4 py-3 text-sm">
+							<p className="font-medium text-red-300">
+								This stacking cannot be assembled
+							</p>
+							<p className="text-xs text-red-200/80 mt-1">
+								Each of{" "}
+								<span className="font-mono">{cycleCodes.join(" → ")}</span> sits
+								under the next, and the last sits under the first. Flip one of
+								these crossings to break the loop.
+							</p>
+						</div>
+					)}
+
+					{plan.steps.length === 0 && plan.blocked.length === 0 ? (
+						<div className="text-center py-8">
+							<ListOrdered className="w-12 h-12 text-gray-700 mx-auto mb-3" />
+							<p className="text-sm text-gray-400">No strips to assemble</p>
+							<p className="text-xs text-gray-500 mt-1">
+								Draw lines on the grid to plan an assembly
+							</p>
+						</div>
+					) : (
+						<ol className="space-y-3">
+							{plan.steps.map((step) => (
+								<li key={step.index}>
+									<h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">
+										Step {step.index}
+									</h3>
+									<ul className="space-y-1">
+										{step.placements.map((placement) => (
+											<li
+												key={placement.sourceLineId}
+												className="flex items-center justify-between gap-3 bg-gray-800/60 px-3 py-2 rounded-lg text-sm print:bg-transparent print:px-0 print:py-0.5"
+											>
+												<span className="font-mono text-gray-100">
+													{placement.displayCode}
+												</span>
+												<span className="flex-1 text-xs text-gray-400">
+													{ORIENTATION_LABELS[placement.orientation]}
+													{placement.restsOnLineIds.length > 0 &&
+														`, onto ${codesFor(placement.restsOnLineIds)}`}
+												</span>
+											</li>
+										))}
+									</ul>
+								</li>
+							))}
+						</ol>
+					)}
+
+					{plan.blocked.length > 0 && (
+						<div>
+							<h3 className="text-xs font-semibold uppercase tracking-wide text-red-400 mb-1">
+								Cannot be inserted
+							</h3>
+							<p className="font-mono text-sm text-gray-300">
+								{plan.blocked.map((p) => p.displayCode).join(", ")}
+							</p>
+						</div>
+					)}
+				</div>
+
+				{/* Footer */}
+				<div className="flex gap-2 px-5 py-3 bg-gray-800/30 border-t border-gray-800 print:hidden">
+					<button
+						type="button"
+						onClick={() => window.print()}
+						className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-amber-600 hover:bg-amber-500 rounded-lg transition-colors"
+					>
+						<Printer className="w-4 h-4" />
+						Print
+					</button>
+					<button
+						type="button"
+						onClick={onClose}
+						className="flex-1 px-4 py-2 text-sm font-medium text-gray-300 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+					>
+						Close
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
+
 export interface KumikoSidebarParamsProps {
 	displayUnit: "mm" | "in";
 	onToggleUnits: () => void;
 	bitSize: number;
 	cutDepth: number;
 	halfCutDepth: number;
+	stripThickness: number;
 	gridCellSize: number;
+	gridCellSizeY: number;
+	gridType: GridType;
 	stockLength: number;
 	onBitSizeChange: (mmValue: number) => void;
 	onCutDepthChange: (mmValue: number) => void;
 	onHalfCutDepthChange: (mmValue: number) => void;
+	onStripThicknessChange: (mmValue: number) => void;
 	onGridCellSizeChange: (mmValue: number) => void;
+	onGridCellSizeYChange: (mmValue: number) => void;
+	onGridTypeChange: (gridType: GridType) => void;
 	onStockLengthChange: (mmValue: number) => void;
+	tJointType: TJointType;
+	onTJointTypeChange: (type: TJointType) => void;
+	/** Outer frame of the panel, if one has been marked in the designer */
+	frame?: FrameSettings;
+	onFrameChange?: (frame: FrameSettings | undefined) => void;
 	onClose?: () => void;
 }
 
@@ -838,20 +1292,34 @@ function KumikoSidebarParams({
 	bitSize,
 	cutDepth,
 	halfCutDepth,
+	stripThickness,
 	gridCellSize,
+	gridCellSizeY,
+	gridType,
 	stockLength,
 	onBitSizeChange,
 	onCutDepthChange,
 	onHalfCutDepthChange,
+	onStripThicknessChange,
 	onGridCellSizeChange,
+	onGridCellSizeYChange,
+	onGridTypeChange,
 	onStockLengthChange,
+	tJointType,
+	onTJointTypeChange,
+	frame,
+	onFrameChange,
 	onClose,
 }: KumikoSidebarParamsProps) {
 	const bitSizeId = useId();
 	const cutDepthId = useId();
 	const halfCutDepthId = useId();
+	const stripThicknessId = useId();
 	const gridCellSizeId = useId();
+	const gridCellSizeYId = useId();
+	const gridTypeId = useId();
 	const stockLengthId = useId();
+	const tJointTypeId = useId();
 
 	return (
 		<aside className="w-full md:w-72 flex-shrink-0 bg-gray-900 border-t md:border-t-0 md:border-l border-gray-800 overflow-y-auto">
@@ -940,15 +1408,46 @@ function KumikoSidebarParams({
 
 				{/* Grid Settings */}
 				<ParamSection title="Grid" description="Design grid configuration">
+					<div className="flex flex-col gap-1.5">
+						<label
+							htmlFor={gridTypeId}
+							className="text-xs font-medium text-gray-300"
+						>
+							Grid Type
+						</label>
+						<select
+							id={gridTypeId}
+							value={gridType}
+							onChange={(e) => onGridTypeChange(e.target.value as GridType)}
+							className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-100
+								focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500
+								transition-colors"
+						>
+							<option value="square">Square</option>
+							<option value="triangular">Triangular (60°)</option>
+						</select>
+					</div>
+					<div className="text-xs text-gray-500 -mt-2">
+						Triangular grids support asanoha and other 60° patterns
+					</div>
+
 					<ParamInput
-						label="Cell Size"
+						label="Cell Width"
 						id={gridCellSizeId}
 						mmValue={gridCellSize}
 						onChange={onGridCellSizeChange}
 						displayUnit={displayUnit}
 					/>
+					<ParamInput
+						label="Cell Height"
+						id={gridCellSizeYId}
+						mmValue={gridCellSizeY}
+						onChange={onGridCellSizeYChange}
+						displayUnit={displayUnit}
+					/>
 					<div className="text-xs text-gray-500 -mt-2">
-						Physical size of each grid cell
+						Physical size of each grid cell. Use different values for
+						rectangular cells, e.g. 40 × 60 mm shoji panels
 					</div>
 				</ParamSection>
 
@@ -964,8 +1463,68 @@ function KumikoSidebarParams({
 					<div className="text-xs text-gray-500 -mt-2">
 						Maximum length of stock boards for layout
 					</div>
+
+					<ParamInput
+						label="Strip Thickness"
+						id={stripThicknessId}
+						mmValue={stripThickness}
+						onChange={onStripThicknessChange}
+						displayUnit={displayUnit}
+						precision={3}
+					/>
+					<div className="text-xs text-gray-500 -mt-2">
+						Notches wider than the bit are cut in several passes
+					</div>
 				</ParamSection>
 
+				{/* Joinery */}
+				<ParamSection title="Joints" description="Where strips meet">
+					<div className="flex flex-col gap-1.5">
+						<label
+							htmlFor={tJointTypeId}
+							className="text-xs font-medium text-gray-300"
+						>
+							T-Joints
+						</label>
+						<select
+							id={tJointTypeId}
+							value={tJointType}
+							onChange={(e) => onTJointTypeChange(e.target.value as TJointType)}
+							className={selectClass}
+						>
+							<option value="butt">Butt (trimmed)</option>
+							<option value="tenon">Stub tenon and mortise</option>
+							<option value="half-lap">Through half-lap</option>
+						</select>
+					</div>
+					<div className="text-xs text-gray-500 -mt-2">
+						Used where a strip ends on another. Click a T-joint marker in the
+						designer to change a single joint
+					</div>
+				</ParamSection>
+
+				{/* Frame (kamachi) */}
+				{onFrameChange && (
+					<ParamSection
+						title="Frame"
+						description="Kamachi around the lattice"
+						defaultOpen={false}
+					>
+						{frame ? (
+							<FrameParams
+								frame={frame}
+								onChange={onFrameChange}
+								displayUnit={displayUnit}
+							/>
+						) : (
+							<div className="text-xs text-gray-500">
+								Select the outer lines of the design and choose "Make the
+								selection the panel frame" to give them frame joinery
+							</div>
+						)}
+					</ParamSection>
+				)}
+
 				{/* Quick Tips */}
 				<div className="mt-6 p-3 bg-indigo-900/20 border border-indigo-800/30 rounded-lg">
 					<div className="flex items-start gap-2">
@@ -984,6 +1543,135 @@ function KumikoSidebarParams({
 	);
 }
 
+const selectClass =
+	"w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500 transition-colors";
+
+/**
+ * Member size and joinery of the frame. Sizes are in mm like the other
+ * parameters.
+ */
+function FrameParams({
+	frame,
+	onChange,
+	displayUnit,
+}: {
+	frame: FrameSettings;
+	onChange: (frame: FrameSettings | undefined) => void;
+	displayUnit: "mm" | "in";
+}) {
+	const widthId = useId();
+	const thicknessId = useId();
+	const cornerId = useId();
+	const cornerTenonId = useId();
+	const latticeJointId = useId();
+	const allowanceId = useId();
+
+	return (
+		<>
+			<ParamInput
+				label="Member Width"
+				id={widthId}
+				mmValue={frame.width}
+				onChange={(width) => width > 0 && onChange({ ...frame, width })}
+				displayUnit={displayUnit}
+			/>
+			<ParamInput
+				label="Member Thickness"
+				id={thicknessId}
+				mmValue={frame.thickness}
+				onChange={(thickness) =>
+					thickness > 0 && onChange({ ...frame, thickness })
+				}
+				displayUnit={displayUnit}
+			/>
+			<div className="text-xs text-gray-500 -mt-2">
+				The frame runs centred on the marked lines
+			</div>
+
+			<div className="flex flex-col gap-1.5">
+				<label htmlFor={cornerId} className="text-xs font-medium text-gray-300">
+					Corners
+				</label>
+				<select
+					id={cornerId}
+					value={frame.corner}
+					onChange={(e) =>
+						onChange({
+							...frame,
+							corner: e.target.value as FrameSettings["corner"],
+						})
+					}
+					className={selectClass}
+				>
+					<option value="mitre">Mitred</option>
+					<option value="tenon">Mortise and tenon</option>
+				</select>
+			</div>
+			{frame.corner === "tenon" && (
+				<>
+					<ParamInput
+						label="Rail Tenon Length"
+						id={cornerTenonId}
+						mmValue={frame.cornerTenonLength}
+						onChange={(cornerTenonLength) =>
+							cornerTenonLength >= 0 &&
+							onChange({ ...frame, cornerTenonLength })
+						}
+						displayUnit={displayUnit}
+					/>
+					<div className="text-xs text-gray-500 -mt-2">
+						Stiles run full height; rails are tenoned into them
+					</div>
+				</>
+			)}
+
+			<div className="flex flex-col gap-1.5">
+				<label
+					htmlFor={latticeJointId}
+					className="text-xs font-medium text-gray-300"
+				>
+					Lattice Joint
+				</label>
+				<select
+					id={latticeJointId}
+					value={frame.latticeJoint}
+					onChange={(e) =>
+						onChange({
+							...frame,
+							latticeJoint: e.target.value as FrameSettings["latticeJoint"],
+						})
+					}
+					className={selectClass}
+				>
+					<option value="tenon">Tenon into mortise</option>
+					<option value="housing">Housed in groove</option>
+				</select>
+			</div>
+			<ParamInput
+				label="Lattice Allowance"
+				id={allowanceId}
+				mmValue={frame.latticeAllowance}
+				onChange={(latticeAllowance) =>
+					latticeAllowance >= 0 && onChange({ ...frame, latticeAllowance })
+				}
+				displayUnit={displayUnit}
+			/>
+			<div className="text-xs text-gray-500 -mt-2">
+				How far lattice strips reach into the frame past its inner edge
+			</div>
+
+			<button
+				type="button"
+				onClick={() => onChange(undefined)}
+				className="inline-flex items-center gap-1.5 text-xs text-gray-400 hover:text-red-400 transition-colors"
+			>
+				<Trash2 className="w-3.5 h-3.5" />
+				Remove frame
+			</button>
+		</>
+	);
+}
+
 /**
  * Context-connected version of KumikoSidebarParams.
  * Automatically consumes params from KumikoContext.
@@ -993,7 +1681,7 @@ export function KumikoSidebarParamsConnected({
 }: {
 	onClose?: () => void;
 }) {
-	const { params, paramActions } = useKumiko();
+	const { params, paramActions, designState, designActions } = useKumiko();
 
 	return (
 		<KumikoSidebarParams
@@ -1002,7 +1690,10 @@ export function KumikoSidebarParamsConnected({
 			bitSize={params.bitSize}
 			cutDepth={params.cutDepth}
 			halfCutDepth={params.halfCutDepth}
+			stripThickness={params.stripThickness}
 			gridCellSize={params.gridCellSize}
+			gridCellSizeY={params.gridCellSizeY}
+			gridType={params.gridType}
 			stockLength={params.stockLength}
 			onBitSizeChange={paramActions.handleParamChange(paramActions.setBitSize)}
 			onCutDepthChange={paramActions.handleParamChange(
@@ -1011,12 +1702,23 @@ export function KumikoSidebarParamsConnected({
 			onHalfCutDepthChange={paramActions.handleHalfCutParamChange(
 				paramActions.setHalfCutDepth,
 			)}
+			onStripThicknessChange={paramActions.handleParamChange(
+				paramActions.setStripThickness,
+			)}
 			onGridCellSizeChange={paramActions.handleParamChange(
 				paramActions.setGridCellSize,
 			)}
+			onGridCellSizeYChange={paramActions.handleParamChange(
+				paramActions.setGridCellSizeY,
+			)}
+			onGridTypeChange={paramActions.setGridType}
 			onStockLengthChange={paramActions.handleParamChange(
 				paramActions.setStockLength,
 			)}
+			tJointType={params.tJointType}
+			onTJointTypeChange={paramActions.setTJointType}
+			frame={designState.frame}
+			onFrameChange={designActions.setFrame}
 			onClose={onClose}
 		/>
 	);
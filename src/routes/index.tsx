@@ -5,6 +5,8 @@ import { KumikoProvider, useKumiko } from "../context/KumikoContext";
 import { ToastProvider } from "../context/ToastContext";
 import { GridDesignerConnected, LayoutEditorConnected } from "../lib/kumiko";
 import {
+	KumikoAssemblyDialog,
+	KumikoGeneratorDialog,
 	KumikoHeader,
 	KumikoLoadDialog,
 	KumikoSidebarParamsConnected,
@@ -20,70 +22,99 @@ function AppContent() {
 		persistenceActions,
 		openLoadDialog,
 		openTemplateDialog,
+		assemblyPlan,
+		params,
 	} = useKumiko();
 
 	const [sidebarVisible, setSidebarVisible] = useState(true);
+	const [showAssemblyDialog, setShowAssemblyDialog] = useState(false);
+	const [showGeneratorDialog, setShowGeneratorDialog] = useState(false);
 
 	return (
-		<div className="flex flex-col md:flex-row h-screen bg-gray-900 text-gray-100 font-sans">
-			{/* Main content */}
-			<main className="flex-1 flex flex-col overflow-hidden">
-				<KumikoHeader
-					designName={persistenceState.designName}
-					step={step}
-					onStepChange={setStep}
-					onDesignNameChange={persistenceActions.setDesignName}
-					onSaveAs={persistenceActions.handleSaveAs}
-					onOpenLoadDialog={openLoadDialog}
-					onOpenTemplateDialog={openTemplateDialog}
-					onExportJSON={persistenceActions.handleExportJSON}
-					onImportJSON={persistenceActions.handleImportJSON}
-					onClear={persistenceActions.handleClear}
-					sidebarVisible={sidebarVisible}
-					onToggleSidebar={() => setSidebarVisible(true)}
-				/>
+		<>
+			<div className="flex flex-col md:flex-row h-screen bg-gray-900 text-gray-100 font-sans print:hidden">
+				{/* Main content */}
+				<main className="flex-1 flex flex-col overflow-hidden">
+					<KumikoHeader
+						designName={persistenceState.designName}
+						step={step}
+						onStepChange={setStep}
+						onDesignNameChange={persistenceActions.setDesignName}
+						onSaveAs={persistenceActions.handleSaveAs}
+						onOpenLoadDialog={openLoadDialog}
+						onOpenTemplateDialog={openTemplateDialog}
+						onOpenGeneratorDialog={() => setShowGeneratorDialog(true)}
+						onOpenAssemblyDialog={() => setShowAssemblyDialog(true)}
+						onExportJSON={persistenceActions.handleExportJSON}
+						onImportJSON={persistenceActions.handleImportJSON}
+						onClear={persistenceActions.handleClear}
+						sidebarVisible={sidebarVisible}
+						onToggleSidebar={() => setSidebarVisible(true)}
+					/>
 
-				{/* Main workspace */}
-				{step === "design" && (
-					<ErrorBoundary sectionName="Grid Designer">
-						<GridDesignerConnected />
-					</ErrorBoundary>
-				)}
+					{/* Main workspace */}
+					{step === "design" && (
+						<ErrorBoundary sectionName="Grid Designer">
+							<GridDesignerConnected />
+						</ErrorBoundary>
+					)}
 
-				{step === "layout" && (
-					<ErrorBoundary sectionName="Layout Editor">
-						<LayoutEditorConnected />
-					</ErrorBoundary>
-				)}
+					{step === "layout" && (
+						<ErrorBoundary sectionName="Layout Editor">
+							<LayoutEditorConnected />
+						</ErrorBoundary>
+					)}
 
-				{/* Load dialog */}
-				{persistenceState.showLoadDialog && (
-					<KumikoLoadDialog
-						namedDesigns={persistenceState.namedDesigns}
-						onClose={() => persistenceActions.setShowLoadDialog(false)}
-						onLoadNamed={persistenceActions.handleLoadNamed}
-						onDeleteNamed={persistenceActions.handleDeleteNamed}
-					/>
-				)}
+					{/* Load dialog */}
+					{persistenceState.showLoadDialog && (
+						<KumikoLoadDialog
+							namedDesigns={persistenceState.namedDesigns}
+							onClose={() => persistenceActions.setShowLoadDialog(false)}
+							onLoadNamed={persistenceActions.handleLoadNamed}
+							onDeleteNamed={persistenceActions.handleDeleteNamed}
+						/>
+					)}
 
-				{/* Template dialog */}
-				{persistenceState.showTemplateDialog && (
-					<KumikoTemplateDialog
-						onClose={() => persistenceActions.setShowTemplateDialog(false)}
-						onLoadTemplate={persistenceActions.handleLoadTemplate}
-					/>
+					{/* Template dialog */}
+					{persistenceState.showTemplateDialog && (
+						<KumikoTemplateDialog
+							onClose={() => persistenceActions.setShowTemplateDialog(false)}
+							onLoadTemplate={persistenceActions.handleLoadTemplate}
+						/>
+					)}
+
+					{/* Pattern generator dialog */}
+					{showGeneratorDialog && (
+						<KumikoGeneratorDialog
+							currentGridType={params.gridType}
+							onClose={() => setShowGeneratorDialog(false)}
+							onApply={(lines, gridType, mode) => {
+								persistenceActions.handleApplyPattern(lines, gridType, mode);
+								setShowGeneratorDialog(false);
+							}}
+						/>
+					)}
+				</main>
+
+				{/* Sidebar */}
+				{sidebarVisible && (
+					<ErrorBoundary sectionName="Sidebar">
+						<KumikoSidebarParamsConnected
+							onClose={() => setSidebarVisible(false)}
+						/>
+					</ErrorBoundary>
 				)}
-			</main>
+			</div>
 
-			{/* Sidebar */}
-			{sidebarVisible && (
-				<ErrorBoundary sectionName="Sidebar">
-					<KumikoSidebarParamsConnected
-						onClose={() => setSidebarVisible(false)}
-					/>
-				</ErrorBoundary>
+			{/* Assembly order dialog, kept outside the app so it prints on its own */}
+			{showAssemblyDialog && (
+				<KumikoAssemblyDialog
+					plan={assemblyPlan}
+					designName={persistenceState.designName}
+					onClose={() => setShowAssemblyDialog(false)}
+				/>
 			)}
-		</div>
+		</>
 	);
 }
 